@@ -0,0 +1,70 @@
+import { z } from "zod";
+import { insertCategorySchema, type User } from "@shared/schema";
+import type { UserRestriction } from "./schema";
+
+// The admin back office under /api/admin: suspending and banning accounts, listing
+// and unlisting experts, managing categories, advice and inspirations, and looking
+// up payments. Every change made there is written to the audit log.
+
+export const userRestrictionInputSchema = z.object({
+  kind: z.enum(["suspended", "banned"]),
+  reason: z.string().trim().min(1).max(1000),
+  // Only suspensions can end by themselves
+  until: z.coerce.date().optional()
+}).refine((input) => input.kind === "suspended" || input.until === undefined, {
+  message: "A ban has no end date",
+  path: ["until"]
+}).refine((input) => input.until === undefined || input.until.getTime() > Date.now(), {
+  message: "until must be in the future",
+  path: ["until"]
+});
+
+export const expertApprovalInputSchema = z.object({
+  approved: z.boolean()
+});
+
+export const categoryUpdateSchema = insertCategorySchema.partial().refine(
+  (update) => Object.values(update).some((value) => value !== undefined),
+  { message: "Nothing to update" }
+);
+
+export const adviceStatusInputSchema = z.object({
+  isActive: z.boolean(),
+  reason: z.string().trim().min(1).max(1000).optional()
+});
+
+export interface PaymentFilters {
+  userId?: number;
+  expertId?: number;
+  status?: string;
+  transactionId?: string;
+}
+
+export const paymentFiltersQuerySchema = z.object({
+  userId: z.coerce.number().int().positive().optional(),
+  expertId: z.coerce.number().int().positive().optional(),
+  status: z.string().trim().min(1).max(50).optional(),
+  transactionId: z.string().trim().min(1).max(200).optional()
+});
+
+// Why a restricted user may not sign in
+export function describeRestriction(restriction: UserRestriction): string {
+  if (restriction.kind === "banned") return "This account has been banned";
+  return restriction.until
+    ? `This account is suspended until ${restriction.until.toISOString()}`
+    : "This account is suspended";
+}
+
+export function formatAdminUser(user: User, restriction: UserRestriction | undefined) {
+  const { password: _, ...userWithoutPassword } = user;
+  return {
+    ...userWithoutPassword,
+    restriction: restriction ? {
+      kind: restriction.kind,
+      reason: restriction.reason,
+      until: restriction.until,
+      restrictedBy: restriction.restrictedBy,
+      createdAt: restriction.createdAt
+    } : null
+  };
+}
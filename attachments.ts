@@ -0,0 +1,213 @@
+import path from "path";
+import { z } from "zod";
+import type { Session } from "@shared/schema";
+import type { Attachment, AttachmentKind } from "./schema";
+import { storage } from "./storage";
+import { blobStore, newBlobKey } from "./blob-store";
+
+// Chat attachments. Files are uploaded as the raw request body with their
+// Content-Type, checked against the allowed types and size limits, and kept in
+// the blob store. A message then references them by id. Thumbnails are made by
+// the client, which has the decoders for every format, and uploaded afterwards.
+
+export const ATTACHMENT_TYPES: Record<string, AttachmentKind> = {
+  "image/jpeg": "image",
+  "image/png": "image",
+  "image/webp": "image",
+  "audio/mpeg": "voice",
+  "audio/mp4": "voice",
+  "audio/ogg": "voice",
+  "audio/webm": "voice",
+  "application/pdf": "document",
+  "application/msword": "document",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "document",
+  "text/plain": "document"
+};
+
+// Largest upload of each kind, in bytes
+export const ATTACHMENT_SIZE_LIMITS: Record<AttachmentKind, number> = {
+  image: 10 * 1024 * 1024,
+  voice: 10 * 1024 * 1024,
+  document: 20 * 1024 * 1024
+};
+
+export const MAX_ATTACHMENT_SIZE = Math.max(...Object.values(ATTACHMENT_SIZE_LIMITS));
+export const THUMBNAIL_TYPES = ["image/jpeg", "image/png", "image/webp"];
+export const MAX_THUMBNAIL_SIZE = 256 * 1024;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+export const MAX_VOICE_NOTE_SECONDS = 30 * 60;
+
+export const attachmentIdsSchema = z.array(z.number().int()).max(MAX_ATTACHMENTS_PER_MESSAGE);
+
+// Leading bytes each type must start with. Plain text has no signature.
+const SIGNATURES: Record<string, (data: Buffer) => boolean> = {
+  "image/jpeg": (data) => data.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])),
+  "image/png": (data) => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  "image/webp": (data) => data.toString("latin1", 0, 4) === "RIFF" && data.toString("latin1", 8, 12) === "WEBP",
+  "audio/mpeg": (data) => data.toString("latin1", 0, 3) === "ID3" || (data[0] === 0xff && (data[1] & 0xe0) === 0xe0),
+  "audio/mp4": (data) => data.toString("latin1", 4, 8) === "ftyp",
+  "audio/ogg": (data) => data.toString("latin1", 0, 4) === "OggS",
+  "audio/webm": (data) => data.subarray(0, 4).equals(Buffer.from([0x1a, 0x45, 0xdf, 0xa3])),
+  "application/pdf": (data) => data.toString("latin1", 0, 5) === "%PDF-",
+  "application/msword": (data) => data.subarray(0, 4).equals(Buffer.from([0xd0, 0xcf, 0x11, 0xe0])),
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": (data) =>
+    data.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04]))
+};
+
+// Whether the bytes look like the declared type, so a renamed file cannot pass as another kind
+export function matchesContentType(data: Buffer, contentType: string): boolean {
+  const check = SIGNATURES[contentType];
+  return check ? data.length >= 12 && check(data) : true;
+}
+
+// Pixel size from the image header, when it can be read
+export function readImageSize(data: Buffer, contentType: string): { width: number; height: number } | undefined {
+  try {
+    if (contentType === "image/png") {
+      return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+    }
+
+    if (contentType === "image/webp") {
+      const chunk = data.toString("latin1", 12, 16);
+      if (chunk === "VP8X") return { width: 1 + data.readUIntLE(24, 3), height: 1 + data.readUIntLE(27, 3) };
+      if (chunk === "VP8L") {
+        const bits = data.readUInt32LE(21);
+        return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+      }
+      if (chunk === "VP8 ") return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+      return undefined;
+    }
+
+    if (contentType === "image/jpeg") {
+      // Walk the segments up to the start-of-frame marker, which holds the size
+      let offset = 2;
+      while (offset + 9 < data.length) {
+        if (data[offset] !== 0xff) return undefined;
+        const marker = data[offset + 1];
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+          return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+        }
+        offset += 2 + data.readUInt16BE(offset + 2);
+      }
+    }
+  } catch {
+    // Truncated header
+  }
+  return undefined;
+}
+
+// Keeps only the base name, without control characters
+export function sanitizeFileName(fileName: string | undefined): string {
+  const name = path.basename((fileName ?? "").replace(/\\/g, "/"))
+    .replace(/[\u0000-\u001f\u007f"]/g, "")
+    .trim()
+    .slice(0, 200);
+  return name || "attachment";
+}
+
+// Content-Disposition for a stored file. filename is an ASCII fallback for old
+// clients; filename* carries the real name as UTF-8 (RFC 6266).
+export function contentDisposition(disposition: "inline" | "attachment", fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]/g, "_").replace(/[\\"]/g, "_");
+  const encoded = encodeURIComponent(fileName).replace(/['()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `${disposition}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+// Stores an upload for a session. Returns an error message and status when the
+// file is refused.
+export async function uploadAttachment(
+  session: Session,
+  uploaderId: number,
+  upload: { data: Buffer; contentType: string; fileName?: string; durationSeconds?: number }
+): Promise<{ attachment: Attachment } | { error: string; status: number }> {
+  const contentType = upload.contentType.split(";")[0].trim().toLowerCase();
+  const kind = ATTACHMENT_TYPES[contentType];
+  if (!kind) {
+    return { error: `Unsupported attachment type. Allowed: ${Object.keys(ATTACHMENT_TYPES).join(", ")}`, status: 415 };
+  }
+
+  if (upload.data.length === 0) {
+    return { error: "Attachment is empty", status: 400 };
+  }
+  if (upload.data.length > ATTACHMENT_SIZE_LIMITS[kind]) {
+    return { error: `A ${kind} attachment can be at most ${ATTACHMENT_SIZE_LIMITS[kind] / (1024 * 1024)} MB`, status: 413 };
+  }
+  if (!matchesContentType(upload.data, contentType)) {
+    return { error: `File content is not ${contentType}`, status: 400 };
+  }
+
+  const size = kind === "image" ? readImageSize(upload.data, contentType) : undefined;
+  const storageKey = newBlobKey("attachments");
+  await blobStore.put(storageKey, upload.data, contentType);
+
+  const attachment = await storage.createAttachment({
+    sessionId: session.id,
+    uploaderId,
+    kind,
+    contentType,
+    fileName: sanitizeFileName(upload.fileName),
+    size: upload.data.length,
+    storageKey,
+    width: size?.width ?? null,
+    height: size?.height ?? null,
+    durationSeconds: kind === "voice" ? upload.durationSeconds ?? null : null
+  });
+  return { attachment };
+}
+
+// Stores a client-made thumbnail, replacing any earlier one
+export async function uploadThumbnail(
+  attachment: Attachment,
+  upload: { data: Buffer; contentType: string }
+): Promise<{ attachment: Attachment } | { error: string; status: number }> {
+  const contentType = upload.contentType.split(";")[0].trim().toLowerCase();
+  if (!THUMBNAIL_TYPES.includes(contentType)) {
+    return { error: `Thumbnails must be one of ${THUMBNAIL_TYPES.join(", ")}`, status: 415 };
+  }
+  if (upload.data.length === 0 || upload.data.length > MAX_THUMBNAIL_SIZE) {
+    return { error: `Thumbnails can be at most ${MAX_THUMBNAIL_SIZE / 1024} KB`, status: 413 };
+  }
+  if (!matchesContentType(upload.data, contentType)) {
+    return { error: `File content is not ${contentType}`, status: 400 };
+  }
+
+  const thumbnailKey = newBlobKey("thumbnails");
+  await blobStore.put(thumbnailKey, upload.data, contentType);
+  const updated = await storage.setAttachmentThumbnail(attachment.id, thumbnailKey, contentType);
+
+  if (attachment.thumbnailKey) {
+    await blobStore.delete(attachment.thumbnailKey);
+  }
+  return { attachment: updated ?? attachment };
+}
+
+// Attachments are private to their uploader until a message references them,
+// then visible to both participants
+export async function canAccessAttachment(attachment: Attachment, userId: number, isAdmin: boolean): Promise<boolean> {
+  if (isAdmin || attachment.uploaderId === userId) return true;
+  if (attachment.messageId === null) return false;
+
+  const session = await storage.getSession(attachment.sessionId);
+  if (!session) return false;
+  if (session.userId === userId) return true;
+
+  const expert = await storage.getExpert(session.expertId);
+  return expert?.userId === userId;
+}
+
+export function formatAttachment(attachment: Attachment) {
+  return {
+    id: attachment.id,
+    messageId: attachment.messageId,
+    kind: attachment.kind,
+    contentType: attachment.contentType,
+    fileName: attachment.fileName,
+    size: attachment.size,
+    width: attachment.width,
+    height: attachment.height,
+    durationSeconds: attachment.durationSeconds,
+    url: `/api/attachments/${attachment.id}`,
+    thumbnailUrl: attachment.thumbnailKey ? `/api/attachments/${attachment.id}/thumbnail` : null,
+    createdAt: attachment.createdAt
+  };
+}
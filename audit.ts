@@ -0,0 +1,77 @@
+import type { Request } from "express";
+import { z } from "zod";
+import type { AuditEvent } from "./schema";
+import { storage } from "./storage";
+
+// Audit log of security- and money-relevant events: sign-ins, payments, booking
+// and availability changes, and everything admins do. An event is written once the
+// change has happened and is never changed afterwards.
+
+// Who caused an event and from where. Background jobs have neither.
+export interface AuditContext {
+  actorId: number | null;
+  ip: string | null;
+}
+
+export const SYSTEM_AUDIT_CONTEXT: AuditContext = { actorId: null, ip: null };
+
+export interface AuditRecord {
+  // Values of the target before and after the change
+  before?: unknown;
+  after?: unknown;
+  // Anything else needed to understand the event later, such as a reason given
+  details?: Record<string, unknown>;
+}
+
+export interface AuditEventFilters {
+  actorId?: number;
+  action?: string;
+  targetType?: string;
+  targetId?: number;
+  ip?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export const auditEventQuerySchema = z.object({
+  actorId: z.coerce.number().int().positive().optional(),
+  action: z.string().trim().min(1).max(100).optional(),
+  targetType: z.string().trim().min(1).max(50).optional(),
+  targetId: z.coerce.number().int().positive().optional(),
+  ip: z.string().trim().min(1).max(100).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional()
+}).refine((query) => !query.from || !query.to || query.from <= query.to, {
+  message: "from cannot be after to",
+  path: ["to"]
+});
+
+// The signed-in caller of a request and the address it came from
+export function auditContextOf(req: Request): AuditContext {
+  return { actorId: req.auth?.userId ?? null, ip: req.ip ?? null };
+}
+
+// Records an event caused by a request, or by whoever the context names. Dates and
+// other values are stored as their JSON form.
+export async function recordAuditEvent(
+  source: Request | AuditContext,
+  action: string,
+  target: { type: string; id?: number | null },
+  record: AuditRecord = {}
+): Promise<AuditEvent> {
+  const context = "headers" in source ? auditContextOf(source) : source;
+  return storage.createAuditEvent({
+    actorId: context.actorId,
+    ip: context.ip,
+    action,
+    targetType: target.type,
+    targetId: target.id ?? null,
+    before: toJson(record.before),
+    after: toJson(record.after),
+    details: toJson(record.details) as Record<string, unknown> | null
+  });
+}
+
+function toJson(value: unknown): unknown {
+  return value === undefined ? null : JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,209 @@
+import type { Request, Response, NextFunction } from "express";
+import crypto from "crypto";
+import { storage } from "./storage";
+import type { User, Session } from "@shared/schema";
+
+export interface AuthContext {
+  userId: number;
+  role: string;
+  expertId?: number;
+  authSessionId: number;
+  // When the access token stops being accepted
+  expiresAt: Date;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthContext;
+    }
+  }
+}
+
+export interface IssuedTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
+interface AccessTokenPayload {
+  sub: number;
+  role: string;
+  eid?: number;
+  sid: number;
+  exp: number;
+}
+
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const tokenSecret = resolveTokenSecret();
+
+function resolveTokenSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set. Did you forget to configure secrets?");
+  }
+
+  // Development fallback: tokens stop working whenever the server restarts
+  console.warn("SESSION_SECRET is not set, using a temporary signing secret");
+  return crypto.randomBytes(32).toString("hex");
+}
+
+function sign(value: string): string {
+  return crypto.createHmac("sha256", tokenSecret).update(value).digest("base64url");
+}
+
+function hashRefreshToken(refreshToken: string): string {
+  return crypto.createHash("sha256").update(refreshToken).digest("hex");
+}
+
+function createAccessToken(payload: Omit<AccessTokenPayload, "exp">): string {
+  const body = Buffer.from(JSON.stringify({
+    ...payload,
+    exp: Math.floor(Date.now() / 1000) + ACCESS_TOKEN_TTL_SECONDS
+  })).toString("base64url");
+
+  return `${body}.${sign(body)}`;
+}
+
+function decodeAccessToken(token: string): AccessTokenPayload | null {
+  const [body, signature] = token.split(".");
+  if (!body || !signature) return null;
+
+  const expected = Buffer.from(sign(body));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, "base64url").toString()) as AccessTokenPayload;
+    if (typeof payload.exp !== "number" || payload.exp * 1000 < Date.now()) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+// Starts a new login session and returns the first token pair for it
+export async function issueTokens(user: User, expertId?: number, userAgent?: string): Promise<IssuedTokens> {
+  const refreshToken = crypto.randomBytes(32).toString("base64url");
+  const authSession = await storage.createAuthSession({
+    userId: user.id,
+    refreshTokenHash: hashRefreshToken(refreshToken),
+    userAgent,
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS)
+  });
+
+  return {
+    accessToken: createAccessToken({ sub: user.id, role: user.role, eid: expertId, sid: authSession.id }),
+    refreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS
+  };
+}
+
+// Exchanges a refresh token for a new token pair. The old refresh token stops working.
+export async function refreshTokens(refreshToken: string): Promise<IssuedTokens | null> {
+  const authSession = await storage.getAuthSessionByRefreshTokenHash(hashRefreshToken(refreshToken));
+  if (!authSession || authSession.revokedAt || authSession.expiresAt.getTime() < Date.now()) {
+    return null;
+  }
+
+  // Re-read the user so role changes take effect on refresh
+  const user = await storage.getUser(authSession.userId);
+  if (!user) return null;
+  const expert = user.role === "expert" ? await storage.getExpertByUserId(user.id) : undefined;
+
+  const nextRefreshToken = crypto.randomBytes(32).toString("base64url");
+  // A concurrent refresh with the same token has already rotated it; only one may win
+  const rotated = await storage.rotateAuthSessionToken(
+    authSession.id,
+    authSession.refreshTokenHash,
+    hashRefreshToken(nextRefreshToken),
+    new Date(Date.now() + REFRESH_TOKEN_TTL_MS)
+  );
+  if (!rotated) return null;
+
+  return {
+    accessToken: createAccessToken({ sub: user.id, role: user.role, eid: expert?.id, sid: authSession.id }),
+    refreshToken: nextRefreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS
+  };
+}
+
+export async function revokeTokens(auth: AuthContext): Promise<void> {
+  await storage.revokeAuthSession(auth.authSessionId);
+}
+
+// Resolves an access token to the caller, rejecting tokens from logged-out sessions
+export async function verifyAccessToken(token: string): Promise<AuthContext | null> {
+  const payload = decodeAccessToken(token);
+  if (!payload) return null;
+
+  const authSession = await storage.getAuthSession(payload.sid);
+  if (!authSession || authSession.revokedAt || authSession.userId !== payload.sub) {
+    return null;
+  }
+
+  return {
+    userId: payload.sub,
+    role: payload.role,
+    expertId: payload.eid,
+    authSessionId: payload.sid,
+    expiresAt: new Date(payload.exp * 1000)
+  };
+}
+
+// Attaches the caller to the request when a valid bearer token is present
+export async function authenticate(req: Request, _res: Response, next: NextFunction) {
+  try {
+    const header = req.headers.authorization;
+    if (header?.startsWith("Bearer ")) {
+      const auth = await verifyAccessToken(header.slice("Bearer ".length).trim());
+      if (auth) req.auth = auth;
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.auth) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  next();
+}
+
+export function requireRole(...roles: string[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.auth) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    if (!roles.includes(req.auth.role)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    next();
+  };
+}
+
+// Ownership checks used by the individual routes. Admins pass all of them.
+export function isAdmin(req: Request): boolean {
+  return req.auth?.role === "admin";
+}
+
+export function canActAsUser(req: Request, userId: number): boolean {
+  return !!req.auth && (req.auth.userId === userId || isAdmin(req));
+}
+
+export function canActAsExpert(req: Request, expertId: number): boolean {
+  return !!req.auth && (req.auth.expertId === expertId || isAdmin(req));
+}
+
+export function isSessionParticipant(req: Request, session: Pick<Session, "userId" | "expertId">): boolean {
+  return canActAsUser(req, session.userId) || canActAsExpert(req, session.expertId);
+}
@@ -0,0 +1,243 @@
+import { z } from "zod";
+import type { Booking } from "@shared/schema";
+import type { ExpertSchedule, AvailabilityRule, AvailabilityException } from "./schema";
+
+export const DEFAULT_TIMEZONE = "Asia/Kolkata";
+export const DEFAULT_SLOT_MINUTES = 60;
+
+// Longest range the slot listing will expand in one request
+export const MAX_SLOT_RANGE_DAYS = 31;
+
+// A booking with the time it holds; bookings without a recorded length take DEFAULT_SLOT_MINUTES
+export type ScheduledBooking = Booking & { durationMinutes: number };
+
+export interface Slot {
+  start: Date;
+  end: Date;
+}
+
+interface Window {
+  start: number;
+  end: number;
+}
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$|^24:00$/, "Time must be HH:MM");
+const localDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD");
+
+export const scheduleInputSchema = z.object({
+  timezone: z.string().refine(isValidTimeZone, "Unknown timezone").default(DEFAULT_TIMEZONE),
+  slotMinutes: z.number().int().min(15).max(240).default(DEFAULT_SLOT_MINUTES),
+  rules: z.array(z.object({
+    dayOfWeek: z.number().int().min(0).max(6),
+    startTime: timeOfDay,
+    endTime: timeOfDay
+  }).refine((rule) => toMinutes(rule.startTime) < toMinutes(rule.endTime), "startTime must be before endTime"))
+}).refine((input) => {
+  const sorted = [...input.rules].sort((a, b) =>
+    a.dayOfWeek - b.dayOfWeek || toMinutes(a.startTime) - toMinutes(b.startTime));
+  return sorted.every((rule, i) => i === 0
+    || sorted[i - 1].dayOfWeek !== rule.dayOfWeek
+    || toMinutes(sorted[i - 1].endTime) <= toMinutes(rule.startTime));
+}, "Availability windows on the same day must not overlap");
+
+export const exceptionInputSchema = z.object({
+  date: localDate,
+  startTime: timeOfDay.optional(),
+  endTime: timeOfDay.optional(),
+  isAvailable: z.boolean().default(false),
+  reason: z.string().max(200).optional()
+}).refine(
+  (exception) => (exception.startTime === undefined) === (exception.endTime === undefined),
+  "startTime and endTime must be given together"
+).refine(
+  (exception) => !exception.startTime || toMinutes(exception.startTime) < toMinutes(exception.endTime!),
+  "startTime must be before endTime"
+).refine(
+  (exception) => !exception.isAvailable || exception.startTime !== undefined,
+  "Extra availability needs a startTime and endTime"
+);
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+export function fromMinutes(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+// API representation of a schedule, with times as HH:MM instead of minutes
+export function formatSchedule(expertId: number, schedule: ExpertSchedule | undefined, rules: AvailabilityRule[]) {
+  return {
+    expertId,
+    timezone: schedule?.timezone ?? DEFAULT_TIMEZONE,
+    slotMinutes: schedule?.slotMinutes ?? DEFAULT_SLOT_MINUTES,
+    rules: rules.map((rule) => ({
+      id: rule.id,
+      dayOfWeek: rule.dayOfWeek,
+      startTime: fromMinutes(rule.startMinute),
+      endTime: fromMinutes(rule.endMinute)
+    }))
+  };
+}
+
+export function formatException(exception: AvailabilityException) {
+  return {
+    id: exception.id,
+    expertId: exception.expertId,
+    date: exception.date,
+    startTime: exception.startMinute === null ? null : fromMinutes(exception.startMinute),
+    endTime: exception.endMinute === null ? null : fromMinutes(exception.endMinute),
+    isAvailable: exception.isAvailable,
+    reason: exception.reason
+  };
+}
+
+// Offset of a timezone from UTC at the given instant, in milliseconds
+function getTimeZoneOffset(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit"
+  }).formatToParts(instant);
+
+  const part = (type: string) => Number(parts.find((p) => p.type === type)!.value);
+  const asUtc = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"));
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+// Converts a local wall-clock time in a timezone to the UTC instant
+export function zonedTimeToUtc(date: string, minuteOfDay: number, timeZone: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, 0, minuteOfDay);
+
+  // The offset can differ on either side of a DST change, so check it twice
+  const offset = getTimeZoneOffset(new Date(wallClock), timeZone);
+  const corrected = getTimeZoneOffset(new Date(wallClock - offset), timeZone);
+  return new Date(wallClock - corrected);
+}
+
+// The local calendar date (YYYY-MM-DD) of an instant in a timezone
+export function toLocalDate(instant: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit"
+  }).format(instant);
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+function dayOfWeek(date: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+function subtractWindow(windows: Window[], removed: Window): Window[] {
+  return windows.flatMap((window) => {
+    if (removed.end <= window.start || removed.start >= window.end) return [window];
+
+    const remaining: Window[] = [];
+    if (removed.start > window.start) remaining.push({ start: window.start, end: removed.start });
+    if (removed.end < window.end) remaining.push({ start: removed.end, end: window.end });
+    return remaining;
+  });
+}
+
+// Open windows for a single local date after applying that date's exceptions
+function windowsForDate(date: string, rules: AvailabilityRule[], exceptions: AvailabilityException[]): Window[] {
+  const weekday = dayOfWeek(date);
+  let windows: Window[] = rules
+    .filter((rule) => rule.dayOfWeek === weekday)
+    .map((rule) => ({ start: rule.startMinute, end: rule.endMinute }));
+
+  for (const exception of exceptions.filter((e) => e.date === date)) {
+    if (exception.isAvailable) {
+      windows.push({ start: exception.startMinute!, end: exception.endMinute! });
+    } else if (exception.startMinute === null || exception.endMinute === null) {
+      return [];
+    } else {
+      windows = subtractWindow(windows, { start: exception.startMinute, end: exception.endMinute });
+    }
+  }
+
+  return windows.sort((a, b) => a.start - b.start);
+}
+
+export function overlaps(a: Slot, b: Slot): boolean {
+  return a.start.getTime() < b.end.getTime() && b.start.getTime() < a.end.getTime();
+}
+
+// The time a booking occupies on the expert's calendar
+export function bookingSlot(booking: Pick<ScheduledBooking, "sessionTime" | "durationMinutes">): Slot {
+  return {
+    start: booking.sessionTime,
+    end: new Date(booking.sessionTime.getTime() + booking.durationMinutes * 60 * 1000)
+  };
+}
+
+// Expands the weekly rules and exceptions into bookable slots within [from, to),
+// leaving out slots that are in the past or overlap an existing booking.
+export function computeOpenSlots(options: {
+  schedule: Pick<ExpertSchedule, "timezone" | "slotMinutes">;
+  rules: AvailabilityRule[];
+  exceptions: AvailabilityException[];
+  bookings: ScheduledBooking[];
+  from: Date;
+  to: Date;
+  now?: Date;
+}): Slot[] {
+  const { schedule, rules, exceptions, from, to, now = new Date() } = options;
+  const taken = options.bookings
+    .filter((booking) => booking.status === "booked")
+    .map(bookingSlot);
+
+  const slots: Slot[] = [];
+  const lastDate = toLocalDate(to, schedule.timezone);
+
+  for (let date = toLocalDate(from, schedule.timezone); date <= lastDate; date = addDays(date, 1)) {
+    for (const window of windowsForDate(date, rules, exceptions)) {
+      for (let minute = window.start; minute + schedule.slotMinutes <= window.end; minute += schedule.slotMinutes) {
+        const start = zonedTimeToUtc(date, minute, schedule.timezone);
+        const slot = { start, end: new Date(start.getTime() + schedule.slotMinutes * 60 * 1000) };
+
+        if (slot.start < from || slot.end > to || slot.start <= now) continue;
+        if (taken.some((booked) => overlaps(booked, slot))) continue;
+        slots.push(slot);
+      }
+    }
+  }
+
+  return slots;
+}
+
+// Whether a requested start time lines up with a published slot, ignoring existing bookings
+export function isPublishedSlot(options: {
+  schedule: Pick<ExpertSchedule, "timezone" | "slotMinutes">;
+  rules: AvailabilityRule[];
+  exceptions: AvailabilityException[];
+  start: Date;
+}): boolean {
+  const { schedule, start } = options;
+  const end = new Date(start.getTime() + schedule.slotMinutes * 60 * 1000);
+  const slots = computeOpenSlots({ ...options, bookings: [], from: start, to: end, now: new Date(0) });
+  return slots.some((slot) => slot.start.getTime() === start.getTime());
+}
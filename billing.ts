@@ -0,0 +1,154 @@
+import type { Payment } from "@shared/schema";
+import type { SessionCharge, PaymentLineItem, InsertPaymentLineItem } from "./schema";
+import type { SessionDetails } from "./session-lifecycle";
+import { storage } from "./storage";
+import { recordAuditEvent, SYSTEM_AUDIT_CONTEXT, type AuditContext } from "./audit";
+
+// Billing rules. All amounts are computed in paise to avoid floating point drift;
+// payments store rupees.
+//
+// - Every started minute is billed at hourlyRate / 60 (rounded to the paisa).
+// - Sessions shorter than the grace period are treated as dropped calls and are free.
+// - Otherwise at least MINIMUM_BILLABLE_MINUTES are charged.
+export const FREE_GRACE_SECONDS = 30;
+export const MINIMUM_BILLABLE_MINUTES = 5;
+
+export interface ChargeBreakdown {
+  durationSeconds: number;
+  billableMinutes: number;
+  ratePerMinute: number;
+  minimumApplied: boolean;
+  total: number;
+  lineItems: Omit<InsertPaymentLineItem, "paymentId">[];
+}
+
+export interface SessionChargeResult {
+  payment: Payment;
+  charge: SessionCharge;
+  lineItems: PaymentLineItem[];
+}
+
+export function ratePerMinuteInPaise(hourlyRate: number): number {
+  return Math.round((hourlyRate * 100) / 60);
+}
+
+export function toRupees(paise: number): number {
+  return Math.round(paise) / 100;
+}
+
+export function formatRupees(paise: number): string {
+  return `₹${(paise / 100).toFixed(2)}`;
+}
+
+export function computeSessionCharge(durationSeconds: number, hourlyRate: number, sessionType: string): ChargeBreakdown {
+  const ratePerMinute = ratePerMinuteInPaise(hourlyRate);
+
+  if (durationSeconds < FREE_GRACE_SECONDS) {
+    return { durationSeconds, billableMinutes: 0, ratePerMinute, minimumApplied: false, total: 0, lineItems: [] };
+  }
+
+  const usedMinutes = Math.ceil(durationSeconds / 60);
+  const billableMinutes = Math.max(usedMinutes, MINIMUM_BILLABLE_MINUTES);
+  const lineItems: Omit<InsertPaymentLineItem, "paymentId">[] = [{
+    description: `${sessionType} session, ${usedMinutes} min at ${formatRupees(ratePerMinute)}/min`,
+    quantity: usedMinutes,
+    unitAmount: ratePerMinute,
+    amount: usedMinutes * ratePerMinute
+  }];
+
+  if (billableMinutes > usedMinutes) {
+    lineItems.push({
+      description: `Minimum charge of ${MINIMUM_BILLABLE_MINUTES} min`,
+      quantity: billableMinutes - usedMinutes,
+      unitAmount: ratePerMinute,
+      amount: (billableMinutes - usedMinutes) * ratePerMinute
+    });
+  }
+
+  return {
+    durationSeconds,
+    billableMinutes,
+    ratePerMinute,
+    minimumApplied: billableMinutes > usedMinutes,
+    total: billableMinutes * ratePerMinute,
+    lineItems
+  };
+}
+
+export async function getSessionChargeResult(sessionId: number): Promise<SessionChargeResult | undefined> {
+  const charge = await storage.getSessionCharge(sessionId);
+  if (!charge) return undefined;
+
+  const payment = await storage.getPayment(charge.paymentId);
+  if (!payment) return undefined;
+
+  return { payment, charge, lineItems: await storage.getPaymentLineItems(payment.id) };
+}
+
+// Whether the session is held for a booking that was paid for upfront. Such sessions
+// are neither held against the wallet nor billed per minute.
+export async function isPrepaidSession(sessionId: number): Promise<boolean> {
+  const state = await storage.getSessionState(sessionId);
+  if (!state?.bookingId) return false;
+
+  // A canceled booking was refunded under the cancellation policy, so the session is billed as usual
+  const booking = await storage.getBooking(state.bookingId);
+  if (!booking || booking.status === "canceled") return false;
+
+  const payment = await storage.getBookingPayment(state.bookingId);
+  return payment?.status === "succeeded" || payment?.status === "partially_refunded";
+}
+
+// Paise of a session's payment that the session's wallet hold covered. The rest is
+// paid through a payment order.
+export async function getWalletPaidAmount(payment: Payment): Promise<number> {
+  const charge = await storage.getSessionChargeByPayment(payment.id);
+  if (!charge) return 0;
+
+  const hold = await storage.getWalletHold(charge.sessionId);
+  if (hold?.status !== "settled") return 0;
+  return Math.min(hold.consumed, Math.round(payment.amount * 100));
+}
+
+// Creates the pending payment for an ended session. Calling it again returns the
+// same charge. Returns undefined when the session is not billable. audit says who
+// the payment is recorded as created by.
+export async function chargeSession(
+  details: SessionDetails,
+  audit: AuditContext = SYSTEM_AUDIT_CONTEXT
+): Promise<SessionChargeResult | undefined> {
+  if (details.status !== "ended") return undefined;
+
+  const existing = await getSessionChargeResult(details.id);
+  if (existing) return existing;
+  if (await isPrepaidSession(details.id)) return undefined;
+
+  const expert = await storage.getExpert(details.expertId);
+  if (!expert) return undefined;
+
+  const breakdown = computeSessionCharge(details.durationSeconds ?? 0, expert.hourlyRate, details.type);
+  if (breakdown.total === 0) return undefined;
+
+  const result = await storage.createSessionCharge(
+    {
+      userId: details.userId,
+      expertId: details.expertId,
+      amount: toRupees(breakdown.total),
+      status: "pending"
+    },
+    {
+      sessionId: details.id,
+      durationSeconds: breakdown.durationSeconds,
+      billableMinutes: breakdown.billableMinutes,
+      ratePerMinute: breakdown.ratePerMinute,
+      minimumApplied: breakdown.minimumApplied,
+      total: breakdown.total
+    },
+    breakdown.lineItems
+  );
+  await recordAuditEvent(audit, "payment.create", { type: "payment", id: result.payment.id }, {
+    after: result.payment,
+    details: { sessionId: details.id }
+  });
+  return result;
+}
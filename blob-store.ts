@@ -0,0 +1,66 @@
+import crypto from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+// Storage for uploaded files. Keys are generated by the server and look like
+// "attachments/<uuid>"; what a key points at is recorded in the database.
+
+export interface BlobStore {
+  readonly name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // Undefined if nothing is stored under the key
+  get(key: string): Promise<Buffer | undefined>;
+  delete(key: string): Promise<void>;
+}
+
+export function newBlobKey(prefix: string): string {
+  return `${prefix}/${crypto.randomUUID()}`;
+}
+
+// Files under a directory on the local disk
+export class LocalBlobStore implements BlobStore {
+  readonly name = "local";
+
+  constructor(private readonly root: string) {}
+
+  private pathFor(key: string): string {
+    // Keys never contain anything that could point outside the root
+    if (!/^[A-Za-z0-9_-]+(\/[A-Za-z0-9_-]+)*$/.test(key)) {
+      throw new Error(`Invalid blob key "${key}"`);
+    }
+    return path.join(this.root, key);
+  }
+
+  async put(key: string, data: Buffer, _contentType: string): Promise<void> {
+    const file = this.pathFor(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, data);
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.readFile(this.pathFor(key));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw e;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.pathFor(key), { force: true });
+  }
+}
+
+export function createBlobStore(env: NodeJS.ProcessEnv = process.env): BlobStore {
+  const name = env.BLOB_STORE || "local";
+
+  switch (name) {
+    case "local":
+      return new LocalBlobStore(path.resolve(env.BLOB_STORE_DIR || "uploads"));
+
+    default:
+      throw new Error(`Unknown BLOB_STORE "${name}". Expected local`);
+  }
+}
+
+export const blobStore = createBlobStore();
@@ -0,0 +1,39 @@
+import { z } from "zod";
+import type { Booking } from "@shared/schema";
+
+export type BookingStatus = "booked" | "completed" | "canceled";
+
+// Bookings start out booked and end either completed or canceled. Both end states are final.
+const bookingTransitions: Record<BookingStatus, BookingStatus[]> = {
+  booked: ["completed", "canceled"],
+  completed: [],
+  canceled: []
+};
+
+// A paid booking a new session is held for
+export const sessionBookingIdSchema = z.number().int().positive().optional();
+
+export function isBookingStatus(value: unknown): value is BookingStatus {
+  return typeof value === "string" && Object.hasOwn(bookingTransitions, value);
+}
+
+export function canTransitionBooking(from: BookingStatus, to: BookingStatus): boolean {
+  return bookingTransitions[from].includes(to);
+}
+
+// Upcoming bookings are still booked and in the future, soonest first.
+// Everything else is past, most recent first.
+export function filterBookings(bookings: Booking[], when: "upcoming" | "past", now = new Date()): Booking[] {
+  const isUpcoming = (booking: Booking) =>
+    booking.status === "booked" && booking.sessionTime.getTime() >= now.getTime();
+
+  if (when === "upcoming") {
+    return bookings
+      .filter(isUpcoming)
+      .sort((a, b) => a.sessionTime.getTime() - b.sessionTime.getTime());
+  }
+
+  return bookings
+    .filter((booking) => !isUpcoming(booking))
+    .sort((a, b) => b.sessionTime.getTime() - a.sessionTime.getTime());
+}
@@ -0,0 +1,105 @@
+import { z } from "zod";
+import type { InsertMessage, Message, Session } from "@shared/schema";
+import type { Attachment, ChatReadCursor, MessageReceipt } from "./schema";
+import { storage } from "./storage";
+import { sendToUser } from "./websocket";
+import { formatAttachment } from "./attachments";
+
+// Chat delivery over the /ws socket. New messages are pushed to the other
+// participant as `chat_message`. Their client answers with `delivered` and `read`,
+// which are stored and passed back to the sender as receipts; `typing` is relayed
+// without being stored. Pushed messages carry the server id and the sender's
+// clientMessageId so clients can drop copies they already have.
+
+export const clientMessageIdSchema = z.string().trim().min(1).max(100);
+
+export const deliveredEventSchema = z.object({
+  messageIds: z.array(z.number().int()).min(1).max(500)
+});
+
+// Longest last message shown in chat lists
+export const CHAT_PREVIEW_LENGTH = 100;
+
+export function formatMessage(message: Message, receipt?: MessageReceipt, attachments: Attachment[] = []) {
+  return {
+    ...message,
+    clientMessageId: receipt?.clientMessageId ?? null,
+    deliveredAt: receipt?.deliveredAt ?? null,
+    attachments: attachments.map(formatAttachment)
+  };
+}
+
+export function formatChatPreview(message: Message | null) {
+  if (!message) return null;
+
+  const preview = message.content.length > CHAT_PREVIEW_LENGTH
+    ? `${message.content.slice(0, CHAT_PREVIEW_LENGTH - 1)}…`
+    : message.content;
+  return { id: message.id, senderId: message.senderId, preview, timestamp: message.timestamp };
+}
+
+// The user on the other side of a session, or null if userId is not part of it
+export async function getChatCounterpart(session: Pick<Session, "userId" | "expertId">, userId: number): Promise<number | null> {
+  const expert = await storage.getExpert(session.expertId);
+  if (!expert) return null;
+
+  if (userId === session.userId) return expert.userId;
+  if (userId === expert.userId) return session.userId;
+  return null;
+}
+
+// Stores a message with its attachments and pushes it to the other participant.
+// Repeating a send with the same clientMessageId returns the original message
+// without pushing it again. Undefined if the attachments cannot be used.
+export async function sendChatMessage(
+  session: Session,
+  insertMessage: InsertMessage,
+  clientMessageId: string | null,
+  attachmentIds: number[] = []
+) {
+  const result = await storage.createChatMessage(insertMessage, clientMessageId, attachmentIds);
+  if (!result) return undefined;
+
+  const { message, receipt, attachments, created } = result;
+  const formatted = formatMessage(message, receipt, attachments);
+
+  if (created) {
+    const recipientId = await getChatCounterpart(session, message.senderId);
+    if (recipientId !== null) {
+      sendToUser(recipientId, { type: "chat_message", sessionId: session.id, message: formatted });
+    }
+  }
+
+  return { message: formatted, created };
+}
+
+// Records that userId received messages of a session and tells the sender
+export async function acknowledgeDelivery(sessionId: number, userId: number, senderId: number, messageIds?: number[]): Promise<MessageReceipt[]> {
+  const delivered = await storage.markMessagesDelivered(sessionId, userId, messageIds);
+  if (delivered.length > 0) {
+    sendToUser(senderId, {
+      type: "delivered",
+      sessionId,
+      messageIds: delivered.map((receipt) => receipt.messageId),
+      deliveredAt: delivered[0].deliveredAt
+    });
+  }
+  return delivered;
+}
+
+// Marks everything userId received in a session as read, which implies delivered,
+// and tells the sender how far they have read
+export async function acknowledgeRead(sessionId: number, userId: number, senderId: number): Promise<ChatReadCursor | undefined> {
+  await acknowledgeDelivery(sessionId, userId, senderId);
+  const cursor = await storage.markMessagesAsRead(sessionId, userId);
+  if (!cursor) return undefined;
+
+  sendToUser(senderId, {
+    type: "read",
+    sessionId,
+    readerId: userId,
+    lastReadMessageId: cursor.lastReadMessageId,
+    readAt: cursor.updatedAt
+  });
+  return cursor;
+}
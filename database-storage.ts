@@ -1,23 +1,199 @@
 import { IStorage } from "./storage";
-import { db } from "./db";
+import { type Database } from "./db";
 import { 
   users, experts, categories, advices, sessions, messages, bookings, payments, inspirations, feedback,
   User, Expert, Category, Advice, Session, Message, Booking, Payment, Inspiration, Feedback,
   InsertUser, InsertExpert, InsertCategory, InsertAdvice, InsertSession, InsertMessage, InsertBooking, InsertPayment, InsertInspiration, InsertFeedback
 } from "@shared/schema";
-import { eq, and, desc, asc, sql } from "drizzle-orm";
+import {
+  authSessions, expertSchedules, expertAvailabilityRules, expertAvailabilityExceptions, sessionStates,
+  sessionCharges, paymentLineItems, wallets, walletTransactions, walletHolds, paymentOrders, webhookEvents,
+  bookingLengths, bookingPayments, refunds, disputes, commissionRates, payoutBatches, payouts, payoutItems, invoices, messageReceipts,
+  chatReadCursors, attachments, searchDocuments, reviews, reviewReports, expertRatings,
+  expertApplications, expertApplicationDocuments, expertApprovals, expertCategories, expertPriceChanges,
+  userRestrictions, adviceDeactivations, auditEvents, dataMigrations,
+  AuthSession, ExpertSchedule, AvailabilityRule, AvailabilityException, SessionState, SessionStatus,
+  SessionCharge, PaymentLineItem, Wallet, WalletTransaction, WalletHold, PaymentOrder, WebhookEvent,
+  Refund, Dispute, DisputeStatus, CommissionRate, PayoutBatch, Payout, PayoutStatus, PayoutItem, Invoice, MessageReceipt,
+  ChatReadCursor, Attachment, SearchKind, Review, ReviewStatus, ReviewReport, ReviewReportStatus, ExpertRating,
+  ExpertApplication, ExpertApplicationStatus, ExpertApplicationDocument, ExpertPriceChange,
+  UserRestriction, AuditEvent,
+  InsertAuthSession, InsertExpertSchedule, InsertAvailabilityRule, InsertAvailabilityException, InsertSessionState,
+  InsertSessionCharge, InsertPaymentLineItem, InsertWalletTransaction, InsertPaymentOrder, InsertWebhookEvent,
+  InsertRefund, InsertDispute, InsertCommissionRate, InsertPayoutBatch, InsertPayout, InsertPayoutItem, InsertInvoice,
+  InsertAttachment, InsertReviewReport, InsertExpertApplication, InsertExpertApplicationDocument,
+  InsertUserRestriction, InsertAuditEvent
+} from "./schema";
+import { eq, ne, and, or, desc, asc, sql, isNull, gt, gte, lt, lte, inArray } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import { fetchesAscending, toPage, type Page, type PageRequest } from "./pagination";
+import { EXPERT_SORT_ORDERS, type ExpertFilters, type ExpertSort, type ExpertProfileUpdate } from "./experts";
+import type { ReviewedFeedback } from "./reviews";
+import type { PaymentFilters } from "./admin";
+import type { AuditEventFilters } from "./audit";
+import { DEFAULT_SLOT_MINUTES, type ScheduledBooking } from "./availability";
+import {
+  expertSearchText, adviceSearchText, categorySearchText,
+  type SearchHit, type SearchRequest, type SearchText
+} from "./search";
 import crypto from "crypto";
 import bcrypt from "bcryptjs";
 
+// First keys of the advisory locks taken while booking an expert's time, billing a
+// session, refunding or disputing a payment, numbering invoices, storing chat messages
+// changing an expert's reviews, applying to become an expert and creating payout batches
+const BOOKING_LOCK_NAMESPACE = 1;
+const BILLING_LOCK_NAMESPACE = 2;
+const REFUND_LOCK_NAMESPACE = 3;
+const INVOICE_LOCK_NAMESPACE = 4;
+const MESSAGE_LOCK_NAMESPACE = 5;
+const REVIEW_LOCK_NAMESPACE = 6;
+const APPLICATION_LOCK_NAMESPACE = 7;
+const PAYOUT_LOCK_NAMESPACE = 8;
+
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+// Condition, ordering and row count for reading one page of a list ordered by id
+function pageQuery(id: AnyPgColumn, order: "asc" | "desc", page: PageRequest) {
+  const ascending = fetchesAscending(order, page);
+  return {
+    where: page.cursor === undefined ? undefined : ascending ? gt(id, page.cursor) : lt(id, page.cursor),
+    orderBy: ascending ? asc(id) : desc(id),
+    limit: page.limit + 1
+  };
+}
+
+// Experts that may be listed
+function isApprovedExpert(expertId: AnyPgColumn) {
+  return sql`exists (select 1 from ${expertApprovals} where ${expertApprovals.expertId} = ${expertId})`;
+}
+
+// How long a booking holds the expert's time, and when it stops. Needs booking_lengths left joined.
+const bookingDuration = sql<number>`coalesce(${bookingLengths.minutes}, ${DEFAULT_SLOT_MINUTES})::int`;
+const bookingEnd = sql`${bookings.sessionTime} + make_interval(mins => ${bookingDuration})`;
+
+// Advice that has not been taken down by an admin
+function isActiveAdvice(adviceId: AnyPgColumn) {
+  return sql`not exists (select 1 from ${adviceDeactivations} where ${adviceDeactivations.adviceId} = ${adviceId})`;
+}
+
+// Experts in a category, as their primary one or one of the others
+function inExpertCategory(categoryId: number) {
+  return or(
+    eq(experts.categoryId, categoryId),
+    sql`exists (select 1 from ${expertCategories} where ${expertCategories.expertId} = ${experts.id} and ${expertCategories.categoryId} = ${categoryId})`
+  );
+}
+
+// Value expert listings are sorted by
+function expertSortKey(sort: ExpertSort) {
+  switch (sort) {
+    case "rating":
+      return sql`coalesce(${experts.rating}, 0)`;
+    case "price_asc":
+    case "price_desc":
+      return sql`${experts.hourlyRate}`;
+    case "popularity":
+      return sql`(select count(*) from ${sessions} where ${sessions.expertId} = ${experts.id})`;
+  }
+}
+
+// A balance movement: the deltas are applied to the wallet and the entry is written to the ledger
+type WalletEntry = Omit<InsertWalletTransaction, "userId" | "balanceAfter" | "heldAfter"> & {
+  balanceDelta: number;
+  heldDelta: number;
+};
+
 export class DatabaseStorage implements IStorage {
+  constructor(private readonly db: Database) {}
+
+  // Data fixes for rows written before a feature existed, applied once each in order.
+  // Names are stored in data_migrations, so they must never be changed or reused.
+  private readonly dataMigrations: { name: string; apply: (tx: Transaction) => Promise<void> }[] = [
+    {
+      // Experts created before approvals existed were listed, so they stay listed
+      name: "approve-existing-experts",
+      apply: async (tx) => {
+        const unapproved = await tx.select({ expertId: experts.id })
+          .from(experts)
+          .where(sql`not ${isApprovedExpert(experts.id)}`);
+        if (unapproved.length > 0) {
+          await tx.insert(expertApprovals).values(unapproved).onConflictDoNothing();
+        }
+      }
+    },
+    {
+      // Feedback left before reviews existed becomes the review of its session (the
+      // earliest one, if a session has several) and counts towards the expert's rating
+      name: "review-existing-feedback",
+      apply: async (tx) => {
+        const unreviewed = await tx.select({ feedbackId: feedback.id, sessionId: feedback.sessionId, expertId: feedback.expertId })
+          .from(feedback)
+          .where(and(
+            sql`${feedback.sessionId} is not null`,
+            sql`${feedback.expertId} is not null`,
+            sql`not exists (select 1 from ${reviews} where ${reviews.sessionId} = ${feedback.sessionId})`
+          ))
+          .orderBy(asc(feedback.id));
+
+        const firstPerSession = new Map<number, { feedbackId: number; sessionId: number; expertId: number }>();
+        for (const row of unreviewed) {
+          if (row.sessionId === null || row.expertId === null || firstPerSession.has(row.sessionId)) continue;
+          firstPerSession.set(row.sessionId, { feedbackId: row.feedbackId, sessionId: row.sessionId, expertId: row.expertId });
+        }
+        if (firstPerSession.size === 0) return;
+
+        await tx.insert(reviews).values(Array.from(firstPerSession.values())).onConflictDoNothing();
+
+        const expertIds = new Set(Array.from(firstPerSession.values(), (review) => review.expertId));
+        for (const expertId of Array.from(expertIds)) {
+          await tx.execute(sql`SELECT pg_advisory_xact_lock(${REVIEW_LOCK_NAMESPACE}::int, ${expertId}::int)`);
+          await this.refreshExpertRating(tx, expertId);
+        }
+      }
+    },
+    {
+      // Bookings made before their length was recorded last one slot of the expert's current schedule
+      name: "record-booking-lengths",
+      apply: async (tx) => {
+        const unrecorded = await tx.select({ bookingId: bookings.id, minutes: expertSchedules.slotMinutes })
+          .from(bookings)
+          .leftJoin(bookingLengths, eq(bookingLengths.bookingId, bookings.id))
+          .leftJoin(expertSchedules, eq(expertSchedules.expertId, bookings.expertId))
+          .where(isNull(bookingLengths.bookingId));
+        if (unrecorded.length > 0) {
+          await tx.insert(bookingLengths)
+            .values(unrecorded.map((row) => ({ bookingId: row.bookingId, minutes: row.minutes ?? DEFAULT_SLOT_MINUTES })))
+            .onConflictDoNothing();
+        }
+      }
+    }
+  ];
+
+  // Applies the data migrations this database has not had yet. Called once on startup.
+  async applyDataMigrations(): Promise<void> {
+    for (const migration of this.dataMigrations) {
+      await this.db.transaction(async (tx) => {
+        const [claimed] = await tx.insert(dataMigrations)
+          .values({ name: migration.name })
+          .onConflictDoNothing()
+          .returning();
+        // Already applied, or another instance is applying it right now
+        if (!claimed) return;
+
+        await migration.apply(tx);
+      });
+    }
+  }
+
   // User operations
   async getUser(id: number): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
     return user || undefined;
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.username, username));
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
     return user || undefined;
   }
 
@@ -35,28 +211,123 @@ export class DatabaseStorage implements IStorage {
       role: insertUser.role || "user"
     };
 
-    const [user] = await db.insert(users).values(userData).returning();
+    const [user] = await this.db.insert(users).values(userData).returning();
     return user;
   }
 
+  async listUsers(role: string | undefined, page: PageRequest): Promise<Page<User>> {
+    const query = pageQuery(users.id, "asc", page);
+    const rows = await this.db.select()
+      .from(users)
+      .where(and(role === undefined ? undefined : eq(users.role, role), query.where))
+      .orderBy(query.orderBy)
+      .limit(query.limit);
+    return toPage(rows, page);
+  }
+
+  // Account restriction operations
+  async getUserRestriction(userId: number): Promise<UserRestriction | undefined> {
+    const [restriction] = await this.db.select()
+      .from(userRestrictions)
+      .where(and(
+        eq(userRestrictions.userId, userId),
+        or(isNull(userRestrictions.until), gt(userRestrictions.until, new Date()))
+      ));
+    return restriction || undefined;
+  }
+
+  async restrictUser(insertRestriction: InsertUserRestriction): Promise<UserRestriction> {
+    return this.db.transaction(async (tx) => {
+      const { userId, ...changes } = insertRestriction;
+      const [restriction] = await tx.insert(userRestrictions)
+        .values(insertRestriction)
+        .onConflictDoUpdate({
+          target: userRestrictions.userId,
+          set: { until: null, ...changes, createdAt: new Date() }
+        })
+        .returning();
+
+      await tx.update(authSessions)
+        .set({ revokedAt: new Date() })
+        .where(and(eq(authSessions.userId, userId), isNull(authSessions.revokedAt)));
+      return restriction;
+    });
+  }
+
+  async liftUserRestriction(userId: number): Promise<UserRestriction | undefined> {
+    const [restriction] = await this.db.delete(userRestrictions)
+      .where(eq(userRestrictions.userId, userId))
+      .returning();
+    return restriction || undefined;
+  }
+
+  // Auth session operations
+  async createAuthSession(insertAuthSession: InsertAuthSession): Promise<AuthSession> {
+    const [authSession] = await this.db.insert(authSessions).values(insertAuthSession).returning();
+    return authSession;
+  }
+
+  async getAuthSession(id: number): Promise<AuthSession | undefined> {
+    const [authSession] = await this.db.select().from(authSessions).where(eq(authSessions.id, id));
+    return authSession || undefined;
+  }
+
+  async getAuthSessionByRefreshTokenHash(refreshTokenHash: string): Promise<AuthSession | undefined> {
+    const [authSession] = await this.db.select()
+      .from(authSessions)
+      .where(eq(authSessions.refreshTokenHash, refreshTokenHash));
+    return authSession || undefined;
+  }
+
+  async rotateAuthSessionToken(
+    id: number,
+    previousHash: string,
+    refreshTokenHash: string,
+    expiresAt: Date
+  ): Promise<AuthSession | undefined> {
+    const [authSession] = await this.db.update(authSessions)
+      .set({ refreshTokenHash, expiresAt })
+      .where(and(
+        eq(authSessions.id, id),
+        eq(authSessions.refreshTokenHash, previousHash),
+        isNull(authSessions.revokedAt)
+      ))
+      .returning();
+    
+    return authSession || undefined;
+  }
+
+  async revokeAuthSession(id: number): Promise<void> {
+    await this.db.update(authSessions)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(authSessions.id, id), isNull(authSessions.revokedAt)));
+  }
+
   // Expert operations
   async getExpert(id: number): Promise<Expert | undefined> {
-    const [expert] = await db.select().from(experts).where(eq(experts.id, id));
+    const [expert] = await this.db.select().from(experts).where(eq(experts.id, id));
     return expert || undefined;
   }
 
   async getExpertByUserId(userId: number): Promise<Expert | undefined> {
-    const [expert] = await db.select().from(experts).where(eq(experts.userId, userId));
+    const [expert] = await this.db.select().from(experts).where(eq(experts.userId, userId));
     return expert || undefined;
   }
 
-  async createExpert(insertExpert: InsertExpert): Promise<Expert> {
-    const [expert] = await db.insert(experts).values(insertExpert).returning();
+  async createExpert(insertExpert: InsertExpert, approvedBy: number): Promise<Expert> {
+    const expert = await this.db.transaction(async (tx) => {
+      const [created] = await tx.insert(experts).values(insertExpert).returning();
+      await tx.insert(expertApprovals).values({ expertId: created.id, approvedBy });
+      return created;
+    });
+
+    const user = await this.getUser(expert.userId);
+    await this.indexSearchDocument("expert", expert.id, expertSearchText(expert, user?.name));
     return expert;
   }
 
   async updateExpertAvailability(id: number, availability: boolean): Promise<Expert | undefined> {
-    const [expert] = await db
+    const [expert] = await this.db
       .update(experts)
       .set({ availability, updatedAt: new Date() })
       .where(eq(experts.id, id))
@@ -65,60 +336,469 @@ export class DatabaseStorage implements IStorage {
     return expert || undefined;
   }
 
-  async getAllExperts(): Promise<Expert[]> {
-    return db.select().from(experts);
+  async updateExpertProfile(id: number, changes: ExpertProfileUpdate, changedBy: number): Promise<Expert | undefined> {
+    const { categoryIds, ...profile } = changes;
+
+    const expert = await this.db.transaction(async (tx) => {
+      const [current] = await tx.select().from(experts).where(eq(experts.id, id)).for("update");
+      if (!current) return undefined;
+
+      if (profile.hourlyRate !== undefined && profile.hourlyRate !== current.hourlyRate) {
+        await tx.insert(expertPriceChanges).values({
+          expertId: id,
+          previousRate: current.hourlyRate,
+          newRate: profile.hourlyRate,
+          changedBy
+        });
+      }
+
+      if (categoryIds) {
+        await tx.delete(expertCategories).where(eq(expertCategories.expertId, id));
+        await tx.insert(expertCategories).values(categoryIds.map((categoryId) => ({ expertId: id, categoryId })));
+      }
+
+      const [updated] = await tx.update(experts)
+        .set({ ...profile, ...(categoryIds ? { categoryId: categoryIds[0] } : {}), updatedAt: new Date() })
+        .where(eq(experts.id, id))
+        .returning();
+      return updated;
+    });
+
+    if (expert) {
+      const user = await this.getUser(expert.userId);
+      await this.indexSearchDocument("expert", expert.id, expertSearchText(expert, user?.name));
+    }
+    return expert;
+  }
+
+  async getExpertCategoryIds(expertId: number): Promise<number[]> {
+    const expert = await this.getExpert(expertId);
+    if (!expert) return [];
+
+    const rows = await this.db.select({ categoryId: expertCategories.categoryId })
+      .from(expertCategories)
+      .where(eq(expertCategories.expertId, expertId))
+      .orderBy(asc(expertCategories.categoryId));
+    const others = rows.map((row) => row.categoryId).filter((categoryId) => categoryId !== expert.categoryId);
+    return [expert.categoryId, ...others];
+  }
+
+  async getExpertPriceChanges(expertId: number): Promise<ExpertPriceChange[]> {
+    return this.db.select()
+      .from(expertPriceChanges)
+      .where(eq(expertPriceChanges.expertId, expertId))
+      .orderBy(desc(expertPriceChanges.id));
+  }
+
+  async isExpertApproved(expertId: number): Promise<boolean> {
+    const [approval] = await this.db.select().from(expertApprovals).where(eq(expertApprovals.expertId, expertId));
+    return approval !== undefined;
+  }
+
+  async setExpertApproval(expertId: number, approved: boolean, adminId: number): Promise<void> {
+    if (approved) {
+      await this.db.insert(expertApprovals)
+        .values({ expertId, approvedBy: adminId })
+        .onConflictDoNothing();
+    } else {
+      await this.db.delete(expertApprovals).where(eq(expertApprovals.expertId, expertId));
+    }
+  }
+
+  async getAllExperts(options: { includeUnapproved?: boolean } = {}): Promise<Expert[]> {
+    return this.db.select()
+      .from(experts)
+      .where(options.includeUnapproved ? undefined : isApprovedExpert(experts.id));
   }
 
   async getExpertsByCategory(categoryId: number): Promise<Expert[]> {
-    return db.select().from(experts).where(eq(experts.categoryId, categoryId));
+    return this.db.select()
+      .from(experts)
+      .where(and(inExpertCategory(categoryId), isApprovedExpert(experts.id)));
+  }
+
+  async listExperts(filters: ExpertFilters, sort: ExpertSort | undefined, page: PageRequest): Promise<Page<Expert>> {
+    const conditions = and(
+      isApprovedExpert(experts.id),
+      filters.categoryId === undefined ? undefined : inExpertCategory(filters.categoryId),
+      filters.language === undefined ? undefined
+        : sql`exists (select 1 from unnest(${experts.languages}) as language where lower(language) = lower(${filters.language}))`,
+      filters.minPrice === undefined ? undefined : gte(experts.hourlyRate, filters.minPrice),
+      filters.maxPrice === undefined ? undefined : lte(experts.hourlyRate, filters.maxPrice),
+      filters.minRating === undefined ? undefined : gte(sql`coalesce(${experts.rating}, 0)`, filters.minRating),
+      filters.minExperience === undefined ? undefined : gte(experts.experience, filters.minExperience),
+      filters.availableNow ? eq(experts.availability, true) : undefined
+    );
+
+    if (!sort) {
+      const query = pageQuery(experts.id, "asc", page);
+      const rows = await this.db.select()
+        .from(experts)
+        .where(and(conditions, query.where))
+        .orderBy(query.orderBy)
+        .limit(query.limit);
+      return toPage(rows, page);
+    }
+
+    const key = expertSortKey(sort);
+    const ascending = fetchesAscending(EXPERT_SORT_ORDERS[sort], page);
+    // The cursor row's key is read afresh, so it still works if the row no longer
+    // matches the filters. Inside the subquery "experts" is the cursor row.
+    const after = page.cursor === undefined ? undefined
+      : sql`(${key}, ${experts.id}) ${sql.raw(ascending ? ">" : "<")} (select ${key}, ${experts.id} from ${experts} where ${experts.id} = ${page.cursor})`;
+
+    const rows = await this.db.select()
+      .from(experts)
+      .where(and(conditions, after))
+      .orderBy(...(ascending ? [asc(key), asc(experts.id)] : [desc(key), desc(experts.id)]))
+      .limit(page.limit + 1);
+    return toPage(rows, page);
+  }
+
+  // Expert application operations
+  async createExpertApplication(insertApplication: InsertExpertApplication): Promise<ExpertApplication | undefined> {
+    return this.db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${APPLICATION_LOCK_NAMESPACE}::int, ${insertApplication.userId}::int)`);
+
+      const [pending] = await tx.select()
+        .from(expertApplications)
+        .where(and(eq(expertApplications.userId, insertApplication.userId), eq(expertApplications.status, "pending")));
+      if (pending) return undefined;
+
+      const [application] = await tx.insert(expertApplications).values(insertApplication).returning();
+      return application;
+    });
+  }
+
+  async getExpertApplication(id: number): Promise<ExpertApplication | undefined> {
+    const [application] = await this.db.select().from(expertApplications).where(eq(expertApplications.id, id));
+    return application || undefined;
+  }
+
+  async getExpertApplicationsByUser(userId: number): Promise<ExpertApplication[]> {
+    return this.db.select()
+      .from(expertApplications)
+      .where(eq(expertApplications.userId, userId))
+      .orderBy(desc(expertApplications.id));
+  }
+
+  async listExpertApplications(status: ExpertApplicationStatus | undefined, page: PageRequest): Promise<Page<ExpertApplication>> {
+    const query = pageQuery(expertApplications.id, "asc", page);
+    const rows = await this.db.select()
+      .from(expertApplications)
+      .where(and(status === undefined ? undefined : eq(expertApplications.status, status), query.where))
+      .orderBy(query.orderBy)
+      .limit(query.limit);
+    return toPage(rows, page);
+  }
+
+  async addExpertApplicationDocument(insertDocument: InsertExpertApplicationDocument): Promise<ExpertApplicationDocument> {
+    const [document] = await this.db.insert(expertApplicationDocuments).values(insertDocument).returning();
+    return document;
+  }
+
+  async getExpertApplicationDocument(id: number): Promise<ExpertApplicationDocument | undefined> {
+    const [document] = await this.db.select().from(expertApplicationDocuments).where(eq(expertApplicationDocuments.id, id));
+    return document || undefined;
+  }
+
+  async getExpertApplicationDocuments(applicationId: number): Promise<ExpertApplicationDocument[]> {
+    return this.db.select()
+      .from(expertApplicationDocuments)
+      .where(eq(expertApplicationDocuments.applicationId, applicationId))
+      .orderBy(asc(expertApplicationDocuments.id));
+  }
+
+  async reviewExpertApplication(
+    id: number,
+    decision: "approved" | "rejected",
+    reviewerId: number,
+    notes: string | null
+  ): Promise<{ application: ExpertApplication; expert?: Expert } | undefined> {
+    const result = await this.db.transaction(async (tx) => {
+      const [current] = await tx.select()
+        .from(expertApplications)
+        .where(eq(expertApplications.id, id))
+        .for("update");
+      if (!current || current.status !== "pending") return undefined;
+
+      let expert: Expert | undefined;
+      if (decision === "approved") {
+        const [existing] = await tx.select().from(experts).where(eq(experts.userId, current.userId));
+        [expert] = existing
+          ? await tx.update(experts)
+            .set({ ...current.profile, updatedAt: new Date() })
+            .where(eq(experts.id, existing.id))
+            .returning()
+          : await tx.insert(experts)
+            .values({ ...current.profile, userId: current.userId, rating: 0, availability: false })
+            .returning();
+
+        await tx.insert(expertApprovals)
+          .values({ expertId: expert.id, applicationId: id, approvedBy: reviewerId })
+          .onConflictDoUpdate({
+            target: expertApprovals.expertId,
+            set: { applicationId: id, approvedBy: reviewerId, approvedAt: new Date() }
+          });
+
+        // Admins keep their role; they can act as any expert anyway
+        await tx.update(users)
+          .set({ role: "expert" })
+          .where(and(eq(users.id, current.userId), ne(users.role, "admin")));
+      }
+
+      const [application] = await tx.update(expertApplications)
+        .set({
+          status: decision,
+          reviewNotes: notes,
+          reviewedBy: reviewerId,
+          reviewedAt: new Date(),
+          expertId: expert?.id ?? null,
+          updatedAt: new Date()
+        })
+        .where(eq(expertApplications.id, id))
+        .returning();
+
+      return { application, expert };
+    });
+
+    if (result?.expert) {
+      const user = await this.getUser(result.expert.userId);
+      await this.indexSearchDocument("expert", result.expert.id, expertSearchText(result.expert, user?.name));
+    }
+    return result;
+  }
+
+  // Availability operations
+  async getExpertSchedule(expertId: number): Promise<ExpertSchedule | undefined> {
+    const [schedule] = await this.db.select().from(expertSchedules).where(eq(expertSchedules.expertId, expertId));
+    return schedule || undefined;
+  }
+
+  async getAvailabilityRules(expertId: number): Promise<AvailabilityRule[]> {
+    return this.db.select()
+      .from(expertAvailabilityRules)
+      .where(eq(expertAvailabilityRules.expertId, expertId))
+      .orderBy(asc(expertAvailabilityRules.dayOfWeek), asc(expertAvailabilityRules.startMinute));
+  }
+
+  async saveExpertSchedule(
+    insertSchedule: InsertExpertSchedule,
+    insertRules: Omit<InsertAvailabilityRule, "expertId">[]
+  ): Promise<{ schedule: ExpertSchedule; rules: AvailabilityRule[] }> {
+    return this.db.transaction(async (tx) => {
+      const [schedule] = await tx.insert(expertSchedules)
+        .values({ ...insertSchedule, updatedAt: new Date() })
+        .onConflictDoUpdate({
+          target: expertSchedules.expertId,
+          set: {
+            timezone: insertSchedule.timezone,
+            slotMinutes: insertSchedule.slotMinutes,
+            updatedAt: new Date()
+          }
+        })
+        .returning();
+
+      // The weekly rules are always replaced as a whole
+      await tx.delete(expertAvailabilityRules)
+        .where(eq(expertAvailabilityRules.expertId, insertSchedule.expertId));
+
+      const rules = insertRules.length === 0 ? [] : await tx.insert(expertAvailabilityRules)
+        .values(insertRules.map((rule) => ({ ...rule, expertId: insertSchedule.expertId })))
+        .returning();
+
+      return { schedule, rules };
+    });
+  }
+
+  async getAvailabilityExceptions(expertId: number, fromDate: string, toDate: string): Promise<AvailabilityException[]> {
+    return this.db.select()
+      .from(expertAvailabilityExceptions)
+      .where(and(
+        eq(expertAvailabilityExceptions.expertId, expertId),
+        gte(expertAvailabilityExceptions.date, fromDate),
+        lte(expertAvailabilityExceptions.date, toDate)
+      ))
+      .orderBy(asc(expertAvailabilityExceptions.date));
+  }
+
+  async createAvailabilityException(insertException: InsertAvailabilityException): Promise<AvailabilityException> {
+    const [exception] = await this.db.insert(expertAvailabilityExceptions)
+      .values(insertException)
+      .returning();
+    
+    return exception;
+  }
+
+  async deleteAvailabilityException(expertId: number, id: number): Promise<AvailabilityException | undefined> {
+    const [deleted] = await this.db.delete(expertAvailabilityExceptions)
+      .where(and(
+        eq(expertAvailabilityExceptions.id, id),
+        eq(expertAvailabilityExceptions.expertId, expertId)
+      ))
+      .returning();
+    
+    return deleted || undefined;
   }
 
   // Category operations
   async getCategory(id: number): Promise<Category | undefined> {
-    const [category] = await db.select().from(categories).where(eq(categories.id, id));
+    const [category] = await this.db.select().from(categories).where(eq(categories.id, id));
     return category || undefined;
   }
 
   async getAllCategories(): Promise<Category[]> {
-    return db.select().from(categories);
+    return this.db.select().from(categories);
   }
 
   async createCategory(insertCategory: InsertCategory): Promise<Category> {
-    const [category] = await db.insert(categories).values(insertCategory).returning();
+    const [category] = await this.db.insert(categories).values(insertCategory).returning();
+    await this.indexSearchDocument("category", category.id, categorySearchText(category));
+    return category;
+  }
+
+  async updateCategory(id: number, changes: Partial<InsertCategory>): Promise<Category | undefined> {
+    const [category] = await this.db.update(categories)
+      .set(changes)
+      .where(eq(categories.id, id))
+      .returning();
+    if (!category) return undefined;
+
+    await this.indexSearchDocument("category", category.id, categorySearchText(category));
     return category;
   }
 
   // Advice operations
   async getAdvice(id: number): Promise<Advice | undefined> {
-    const [advice] = await db.select().from(advices).where(eq(advices.id, id));
+    const [advice] = await this.db.select().from(advices).where(eq(advices.id, id));
     return advice || undefined;
   }
 
   async getAllAdvices(): Promise<Advice[]> {
-    return db.select().from(advices);
+    return this.db.select().from(advices);
   }
 
   async getAdvicesByExpert(expertId: number): Promise<Advice[]> {
-    return db.select().from(advices).where(eq(advices.expertId, expertId));
+    return this.db.select().from(advices).where(eq(advices.expertId, expertId));
   }
 
   async getAdvicesByCategory(categoryId: number): Promise<Advice[]> {
-    return db.select().from(advices).where(eq(advices.categoryId, categoryId));
+    return this.db.select().from(advices).where(eq(advices.categoryId, categoryId));
+  }
+
+  async listAdvices(page: PageRequest): Promise<Page<Advice>> {
+    const query = pageQuery(advices.id, "asc", page);
+    const rows = await this.db.select()
+      .from(advices)
+      .where(and(isActiveAdvice(advices.id), query.where))
+      .orderBy(query.orderBy)
+      .limit(query.limit);
+    return toPage(rows, page);
+  }
+
+  async listAdvicesByExpert(expertId: number, page: PageRequest): Promise<Page<Advice>> {
+    const query = pageQuery(advices.id, "asc", page);
+    const rows = await this.db.select()
+      .from(advices)
+      .where(and(eq(advices.expertId, expertId), isActiveAdvice(advices.id), query.where))
+      .orderBy(query.orderBy)
+      .limit(query.limit);
+    return toPage(rows, page);
+  }
+
+  async listAdvicesByCategory(categoryId: number, page: PageRequest): Promise<Page<Advice>> {
+    const query = pageQuery(advices.id, "asc", page);
+    const rows = await this.db.select()
+      .from(advices)
+      .where(and(eq(advices.categoryId, categoryId), isActiveAdvice(advices.id), query.where))
+      .orderBy(query.orderBy)
+      .limit(query.limit);
+    return toPage(rows, page);
   }
 
   async createAdvice(insertAdvice: InsertAdvice): Promise<Advice> {
-    const [advice] = await db.insert(advices).values(insertAdvice).returning();
+    const [advice] = await this.db.insert(advices).values(insertAdvice).returning();
+    await this.indexSearchDocument("advice", advice.id, adviceSearchText(advice));
     return advice;
   }
 
+  async isAdviceActive(id: number): Promise<boolean> {
+    const [deactivation] = await this.db.select().from(adviceDeactivations).where(eq(adviceDeactivations.adviceId, id));
+    return deactivation === undefined;
+  }
+
+  async setAdviceActive(id: number, isActive: boolean, adminId: number, reason: string | null): Promise<void> {
+    if (isActive) {
+      await this.db.delete(adviceDeactivations).where(eq(adviceDeactivations.adviceId, id));
+    } else {
+      await this.db.insert(adviceDeactivations)
+        .values({ adviceId: id, reason, deactivatedBy: adminId })
+        .onConflictDoNothing();
+    }
+  }
+
+  // Search operations
+  async search(request: SearchRequest): Promise<SearchHit[]> {
+    const { query } = request;
+    // Words as typed or as English stems; misspellings are caught by the trigram match
+    const tsQuery = sql`(websearch_to_tsquery('simple', ${query}) || websearch_to_tsquery('english', ${query}))`;
+    const score = sql<number>`ts_rank(${searchDocuments.document}, ${tsQuery}) + greatest(
+      word_similarity(${query}, ${searchDocuments.title}),
+      word_similarity(${query}, ${searchDocuments.body}) * 0.5
+    )`;
+
+    const rows = await this.db.select({ kind: searchDocuments.kind, refId: searchDocuments.refId, score })
+      .from(searchDocuments)
+      .where(and(
+        inArray(searchDocuments.kind, request.kinds),
+        or(ne(searchDocuments.kind, "expert"), isApprovedExpert(searchDocuments.refId)),
+        or(ne(searchDocuments.kind, "advice"), isActiveAdvice(searchDocuments.refId)),
+        or(
+          sql`${searchDocuments.document} @@ ${tsQuery}`,
+          sql`${query} <% ${searchDocuments.title}`,
+          sql`${query} <% ${searchDocuments.body}`
+        )
+      ))
+      .orderBy(desc(score), asc(searchDocuments.id))
+      .limit(request.limit);
+
+    return rows.map((row) => ({ ...row, score: Number(row.score) }));
+  }
+
+  async rebuildSearchIndex(): Promise<void> {
+    const expertRows = await this.db.select({ expert: experts, name: users.name })
+      .from(experts)
+      .innerJoin(users, eq(users.id, experts.userId));
+    for (const { expert, name } of expertRows) {
+      await this.indexSearchDocument("expert", expert.id, expertSearchText(expert, name));
+    }
+
+    for (const advice of await this.getAllAdvices()) {
+      await this.indexSearchDocument("advice", advice.id, adviceSearchText(advice));
+    }
+
+    for (const category of await this.getAllCategories()) {
+      await this.indexSearchDocument("category", category.id, categorySearchText(category));
+    }
+  }
+
+  private async indexSearchDocument(kind: SearchKind, refId: number, text: SearchText): Promise<void> {
+    await this.db.insert(searchDocuments)
+      .values({ kind, refId, ...text, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: [searchDocuments.kind, searchDocuments.refId],
+        set: { ...text, updatedAt: new Date() }
+      });
+  }
+
   // Session operations (replaces chat operations)
   async getSession(id: number): Promise<Session | undefined> {
-    const [session] = await db.select().from(sessions).where(eq(sessions.id, id));
+    const [session] = await this.db.select().from(sessions).where(eq(sessions.id, id));
     return session || undefined;
   }
 
   async getSessionByUserAndExpert(userId: number, expertId: number): Promise<Session | undefined> {
-    const [session] = await db.select()
+    const [session] = await this.db.select()
       .from(sessions)
       .where(and(
         eq(sessions.userId, userId),
@@ -131,144 +811,1189 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getSessionsByUser(userId: number): Promise<Session[]> {
-    return db.select()
+    return this.db.select()
       .from(sessions)
       .where(eq(sessions.userId, userId))
       .orderBy(desc(sessions.startTime));
   }
 
   async getSessionsByExpert(expertId: number): Promise<Session[]> {
-    return db.select()
+    return this.db.select()
       .from(sessions)
       .where(eq(sessions.expertId, expertId))
       .orderBy(desc(sessions.startTime));
   }
 
-  async createSession(insertSession: InsertSession): Promise<Session> {
-    const [session] = await db.insert(sessions)
-      .values(insertSession)
-      .returning();
+  async createSession(insertSession: InsertSession, bookingId?: number): Promise<Session> {
+    return this.db.transaction(async (tx) => {
+      const [session] = await tx.insert(sessions)
+        .values(insertSession)
+        .returning();
+      
+      await tx.insert(sessionStates).values({ sessionId: session.id, status: "requested", bookingId: bookingId ?? null });
+      return session;
+    });
+  }
+
+  async getSessionByBooking(bookingId: number): Promise<Session | undefined> {
+    const [row] = await this.db.select({ session: sessions })
+      .from(sessionStates)
+      .innerJoin(sessions, eq(sessions.id, sessionStates.sessionId))
+      .where(eq(sessionStates.bookingId, bookingId));
+    return row?.session;
+  }
+
+  async getSessionState(sessionId: number): Promise<SessionState | undefined> {
+    const [state] = await this.db.select().from(sessionStates).where(eq(sessionStates.sessionId, sessionId));
+    return state || undefined;
+  }
+
+  async transitionSessionState(
+    sessionId: number,
+    from: SessionStatus[],
+    changes: Partial<Omit<InsertSessionState, "sessionId">>
+  ): Promise<SessionState | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [session] = await tx.select().from(sessions).where(eq(sessions.id, sessionId));
+      if (!session) return undefined;
+
+      // Older sessions have no state row yet; they were in use, so record them as active
+      await tx.insert(sessionStates)
+        .values({ sessionId, status: "active", startedAt: session.startTime })
+        .onConflictDoNothing();
+
+      const [state] = await tx.update(sessionStates)
+        .set({ ...changes, updatedAt: new Date() })
+        .where(and(
+          eq(sessionStates.sessionId, sessionId),
+          inArray(sessionStates.status, from)
+        ))
+        .returning();
+      
+      return state || undefined;
+    });
+  }
+
+  async getOpenSessionByUserAndExpert(userId: number, expertId: number, type: Session["type"]): Promise<Session | undefined> {
+    const [row] = await this.db.select({ session: sessions })
+      .from(sessions)
+      .leftJoin(sessionStates, eq(sessionStates.sessionId, sessions.id))
+      .where(and(
+        eq(sessions.userId, userId),
+        eq(sessions.expertId, expertId),
+        eq(sessions.type, type),
+        or(isNull(sessionStates.status), inArray(sessionStates.status, ["requested", "active"]))
+      ))
+      .orderBy(desc(sessions.startTime))
+      .limit(1);
     
-    return session;
+    return row?.session;
   }
 
   // Message operations
   async getMessage(id: number): Promise<Message | undefined> {
-    const [message] = await db.select().from(messages).where(eq(messages.id, id));
+    const [message] = await this.db.select().from(messages).where(eq(messages.id, id));
     return message || undefined;
   }
 
   async getMessagesBySession(sessionId: number): Promise<Message[]> {
-    return db.select()
+    return this.db.select()
       .from(messages)
       .where(eq(messages.sessionId, sessionId))
       .orderBy(asc(messages.timestamp));
   }
 
+  async listMessagesBySession(sessionId: number, page: PageRequest): Promise<Page<Message>> {
+    const query = pageQuery(messages.id, "asc", page);
+    const rows = await this.db.select()
+      .from(messages)
+      .where(and(eq(messages.sessionId, sessionId), query.where))
+      .orderBy(query.orderBy)
+      .limit(query.limit);
+    return toPage(rows, page);
+  }
+
   async createMessage(insertMessage: InsertMessage): Promise<Message> {
-    const [message] = await db.insert(messages)
+    const [message] = await this.db.insert(messages)
       .values(insertMessage)
       .returning();
     
     return message;
   }
 
-  async markMessagesAsRead(sessionId: number, userId: number): Promise<void> {
-    await db.update(messages)
-      .set({ isRead: true })
+  async markMessagesAsRead(sessionId: number, userId: number): Promise<ChatReadCursor | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Only what the other participant sent is read, never the reader's own messages
+      const [latest] = await tx.select({ id: messages.id })
+        .from(messages)
+        .where(and(eq(messages.sessionId, sessionId), ne(messages.senderId, userId)))
+        .orderBy(desc(messages.id))
+        .limit(1);
+      if (!latest) return undefined;
+
+      await tx.update(messages)
+        .set({ isRead: true })
+        .where(
+          and(
+            eq(messages.sessionId, sessionId),
+            ne(messages.senderId, userId),
+            lte(messages.id, latest.id),
+            eq(messages.isRead, false)
+          )
+        );
+
+      // A cursor never moves backwards
+      const [cursor] = await tx.insert(chatReadCursors)
+        .values({ sessionId, userId, lastReadMessageId: latest.id, updatedAt: new Date() })
+        .onConflictDoUpdate({
+          target: [chatReadCursors.sessionId, chatReadCursors.userId],
+          set: {
+            lastReadMessageId: sql`greatest(${chatReadCursors.lastReadMessageId}, ${latest.id})`,
+            updatedAt: new Date()
+          }
+        })
+        .returning();
+
+      return cursor;
+    });
+  }
+
+  async getReadCursor(sessionId: number, userId: number): Promise<ChatReadCursor | undefined> {
+    const [cursor] = await this.db.select()
+      .from(chatReadCursors)
+      .where(and(eq(chatReadCursors.sessionId, sessionId), eq(chatReadCursors.userId, userId)));
+    return cursor || undefined;
+  }
+
+  async createChatMessage(
+    insertMessage: InsertMessage,
+    clientMessageId: string | null,
+    attachmentIds: number[]
+  ): Promise<{ message: Message; receipt: MessageReceipt; attachments: Attachment[]; created: boolean } | undefined> {
+    return this.db.transaction(async (tx) => {
+      if (clientMessageId !== null) {
+        // Retries of the same send may arrive together; only one of them is stored
+        await tx.execute(sql`SELECT pg_advisory_xact_lock(${MESSAGE_LOCK_NAMESPACE}::int, ${insertMessage.senderId}::int)`);
+
+        const [existing] = await tx.select({ message: messages, receipt: messageReceipts })
+          .from(messageReceipts)
+          .innerJoin(messages, eq(messages.id, messageReceipts.messageId))
+          .where(
+            and(
+              eq(messageReceipts.senderId, insertMessage.senderId),
+              eq(messageReceipts.clientMessageId, clientMessageId)
+            )
+          );
+        if (existing) {
+          const existingAttachments = await tx.select()
+            .from(attachments)
+            .where(eq(attachments.messageId, existing.message.id))
+            .orderBy(asc(attachments.id));
+          return { ...existing, attachments: existingAttachments, created: false };
+        }
+      }
+
+      const uploads = attachmentIds.length === 0 ? [] : await tx.select()
+        .from(attachments)
+        .where(inArray(attachments.id, attachmentIds))
+        .orderBy(asc(attachments.id))
+        .for("update");
+      const claimable = uploads.every((upload) => upload.sessionId === insertMessage.sessionId
+        && upload.uploaderId === insertMessage.senderId
+        && upload.messageId === null);
+      if (uploads.length !== new Set(attachmentIds).size || !claimable) return undefined;
+
+      const [message] = await tx.insert(messages)
+        .values(insertMessage)
+        .returning();
+      const [receipt] = await tx.insert(messageReceipts)
+        .values({
+          messageId: message.id,
+          sessionId: message.sessionId,
+          senderId: message.senderId,
+          clientMessageId
+        })
+        .returning();
+
+      const attached = uploads.length === 0 ? [] : await tx.update(attachments)
+        .set({ messageId: message.id })
+        .where(inArray(attachments.id, uploads.map((upload) => upload.id)))
+        .returning();
+
+      return { message, receipt, attachments: attached.sort((a, b) => a.id - b.id), created: true };
+    });
+  }
+
+  async getMessageReceipts(sessionId: number): Promise<MessageReceipt[]> {
+    return this.db.select()
+      .from(messageReceipts)
+      .where(eq(messageReceipts.sessionId, sessionId));
+  }
+
+  async markMessagesDelivered(sessionId: number, userId: number, messageIds?: number[]): Promise<MessageReceipt[]> {
+    if (messageIds && messageIds.length === 0) return [];
+
+    return this.db.update(messageReceipts)
+      .set({ deliveredAt: new Date() })
       .where(
         and(
-          eq(messages.sessionId, sessionId),
-          eq(messages.senderId, userId)
+          eq(messageReceipts.sessionId, sessionId),
+          ne(messageReceipts.senderId, userId),
+          isNull(messageReceipts.deliveredAt),
+          messageIds ? inArray(messageReceipts.messageId, messageIds) : undefined
         )
-      );
+      )
+      .returning();
+  }
+
+  // Attachment operations
+  async getAttachment(id: number): Promise<Attachment | undefined> {
+    const [attachment] = await this.db.select().from(attachments).where(eq(attachments.id, id));
+    return attachment || undefined;
+  }
+
+  async getAttachmentsByMessages(messageIds: number[]): Promise<Attachment[]> {
+    if (messageIds.length === 0) return [];
+
+    return this.db.select()
+      .from(attachments)
+      .where(inArray(attachments.messageId, messageIds))
+      .orderBy(asc(attachments.id));
+  }
+
+  async createAttachment(insertAttachment: InsertAttachment): Promise<Attachment> {
+    const [attachment] = await this.db.insert(attachments)
+      .values(insertAttachment)
+      .returning();
+    
+    return attachment;
+  }
+
+  async setAttachmentThumbnail(id: number, thumbnailKey: string, contentType: string): Promise<Attachment | undefined> {
+    const [attachment] = await this.db.update(attachments)
+      .set({ thumbnailKey, thumbnailContentType: contentType })
+      .where(eq(attachments.id, id))
+      .returning();
+    
+    return attachment || undefined;
   }
 
   // Payment operations
   async getPayment(id: number): Promise<Payment | undefined> {
-    const [payment] = await db.select().from(payments).where(eq(payments.id, id));
+    const [payment] = await this.db.select().from(payments).where(eq(payments.id, id));
     return payment || undefined;
   }
 
   async getPaymentsByUser(userId: number): Promise<Payment[]> {
-    return db.select()
+    return this.db.select()
       .from(payments)
       .where(eq(payments.userId, userId))
       .orderBy(desc(payments.timestamp));
   }
 
   async getPaymentsByExpert(expertId: number): Promise<Payment[]> {
-    return db.select()
+    return this.db.select()
       .from(payments)
       .where(eq(payments.expertId, expertId))
       .orderBy(desc(payments.timestamp));
   }
 
+  async listPaymentsByUser(userId: number, page: PageRequest): Promise<Page<Payment>> {
+    const query = pageQuery(payments.id, "desc", page);
+    const rows = await this.db.select()
+      .from(payments)
+      .where(and(eq(payments.userId, userId), query.where))
+      .orderBy(query.orderBy)
+      .limit(query.limit);
+    return toPage(rows, page);
+  }
+
+  async listPaymentsByExpert(expertId: number, page: PageRequest): Promise<Page<Payment>> {
+    const query = pageQuery(payments.id, "desc", page);
+    const rows = await this.db.select()
+      .from(payments)
+      .where(and(eq(payments.expertId, expertId), query.where))
+      .orderBy(query.orderBy)
+      .limit(query.limit);
+    return toPage(rows, page);
+  }
+
+  async listPayments(filters: PaymentFilters, page: PageRequest): Promise<Page<Payment>> {
+    const query = pageQuery(payments.id, "desc", page);
+    const rows = await this.db.select()
+      .from(payments)
+      .where(and(
+        filters.userId === undefined ? undefined : eq(payments.userId, filters.userId),
+        filters.expertId === undefined ? undefined : eq(payments.expertId, filters.expertId),
+        filters.status === undefined ? undefined : eq(payments.status, filters.status),
+        filters.transactionId === undefined ? undefined : eq(payments.transactionId, filters.transactionId),
+        query.where
+      ))
+      .orderBy(query.orderBy)
+      .limit(query.limit);
+    return toPage(rows, page);
+  }
+
   async createPayment(insertPayment: InsertPayment): Promise<Payment> {
     // Generate a transaction ID if not provided
     if (!insertPayment.transactionId) {
       insertPayment.transactionId = `txn_${crypto.randomBytes(8).toString('hex')}`;
     }
 
-    const [payment] = await db.insert(payments)
+    const [payment] = await this.db.insert(payments)
       .values(insertPayment)
       .returning();
     
     return payment;
   }
 
+  async getPaymentLineItems(paymentId: number): Promise<PaymentLineItem[]> {
+    return this.db.select()
+      .from(paymentLineItems)
+      .where(eq(paymentLineItems.paymentId, paymentId))
+      .orderBy(asc(paymentLineItems.id));
+  }
+
+  async updatePaymentStatus(id: number, status: string, from?: string[]): Promise<Payment | undefined> {
+    const [payment] = await this.db.update(payments)
+      .set({ status })
+      .where(and(eq(payments.id, id), from ? inArray(payments.status, from) : undefined))
+      .returning();
+    
+    return payment || undefined;
+  }
+
+  // Session billing operations
+  async getSessionCharge(sessionId: number): Promise<SessionCharge | undefined> {
+    const [charge] = await this.db.select().from(sessionCharges).where(eq(sessionCharges.sessionId, sessionId));
+    return charge || undefined;
+  }
+
+  async getSessionChargeByPayment(paymentId: number): Promise<SessionCharge | undefined> {
+    const [charge] = await this.db.select().from(sessionCharges).where(eq(sessionCharges.paymentId, paymentId));
+    return charge || undefined;
+  }
+
+  async createSessionCharge(
+    insertPayment: InsertPayment,
+    insertCharge: Omit<InsertSessionCharge, "paymentId">,
+    insertLineItems: Omit<InsertPaymentLineItem, "paymentId">[]
+  ): Promise<{ payment: Payment; charge: SessionCharge; lineItems: PaymentLineItem[] }> {
+    return this.db.transaction(async (tx) => {
+      // One charge per session, even if the end is reported twice at the same moment
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${BILLING_LOCK_NAMESPACE}::int, ${insertCharge.sessionId}::int)`);
+
+      const [existing] = await tx.select().from(sessionCharges).where(eq(sessionCharges.sessionId, insertCharge.sessionId));
+      if (existing) {
+        const [payment] = await tx.select().from(payments).where(eq(payments.id, existing.paymentId));
+        const lineItems = await tx.select().from(paymentLineItems).where(eq(paymentLineItems.paymentId, payment.id));
+        return { payment, charge: existing, lineItems };
+      }
+
+      const [payment] = await tx.insert(payments)
+        .values({
+          ...insertPayment,
+          transactionId: insertPayment.transactionId || `txn_${crypto.randomBytes(8).toString('hex')}`
+        })
+        .returning();
+
+      const [charge] = await tx.insert(sessionCharges)
+        .values({ ...insertCharge, paymentId: payment.id })
+        .returning();
+
+      const lineItems = insertLineItems.length === 0 ? [] : await tx.insert(paymentLineItems)
+        .values(insertLineItems.map((item) => ({ ...item, paymentId: payment.id })))
+        .returning();
+
+      return { payment, charge, lineItems };
+    });
+  }
+
+  // Invoice operations
+  async getInvoice(id: number): Promise<Invoice | undefined> {
+    const [invoice] = await this.db.select().from(invoices).where(eq(invoices.id, id));
+    return invoice || undefined;
+  }
+
+  async getInvoiceByPayment(paymentId: number): Promise<Invoice | undefined> {
+    const [invoice] = await this.db.select().from(invoices).where(eq(invoices.paymentId, paymentId));
+    return invoice || undefined;
+  }
+
+  async getInvoicesByUser(userId: number): Promise<Invoice[]> {
+    return this.db.select()
+      .from(invoices)
+      .where(eq(invoices.userId, userId))
+      .orderBy(desc(invoices.issuedAt), desc(invoices.id));
+  }
+
+  async getUninvoicedPayments(statuses: string[]): Promise<Payment[]> {
+    const rows = await this.db.select({ payment: payments })
+      .from(payments)
+      .leftJoin(invoices, eq(invoices.paymentId, payments.id))
+      .where(and(inArray(payments.status, statuses), isNull(invoices.id)))
+      .orderBy(asc(payments.id));
+    return rows.map((row) => row.payment);
+  }
+
+  async createInvoice(
+    insertInvoice: Omit<InsertInvoice, "sequence" | "number">,
+    formatNumber: (sequence: number) => string
+  ): Promise<Invoice> {
+    return this.db.transaction(async (tx) => {
+      // Invoice numbers must have no gaps or duplicates, so numbering is serialised
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${INVOICE_LOCK_NAMESPACE}::int, 0)`);
+
+      const [existing] = await tx.select().from(invoices).where(eq(invoices.paymentId, insertInvoice.paymentId));
+      if (existing) return existing;
+
+      const [{ last }] = await tx.select({
+        last: sql<number>`coalesce(max(${invoices.sequence}), 0)`.mapWith(Number)
+      })
+        .from(invoices)
+        .where(eq(invoices.financialYear, insertInvoice.financialYear));
+
+      const [invoice] = await tx.insert(invoices)
+        .values({ ...insertInvoice, sequence: last + 1, number: formatNumber(last + 1) })
+        .returning();
+      
+      return invoice;
+    });
+  }
+
+  // Refund operations
+  async getRefund(id: number): Promise<Refund | undefined> {
+    const [refund] = await this.db.select().from(refunds).where(eq(refunds.id, id));
+    return refund || undefined;
+  }
+
+  async getRefundsByPayment(paymentId: number): Promise<Refund[]> {
+    return this.db.select()
+      .from(refunds)
+      .where(eq(refunds.paymentId, paymentId))
+      .orderBy(asc(refunds.createdAt), asc(refunds.id));
+  }
+
+  async createRefund(insertRefund: InsertRefund): Promise<Refund | undefined> {
+    return this.db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${REFUND_LOCK_NAMESPACE}::int, ${insertRefund.paymentId}::int)`);
+
+      const [payment] = await tx.select().from(payments).where(eq(payments.id, insertRefund.paymentId));
+      if (!payment) return undefined;
+
+      const [{ committed }] = await tx.select({
+        committed: sql<number>`coalesce(sum(${refunds.amount}), 0)`.mapWith(Number)
+      })
+        .from(refunds)
+        .where(and(
+          eq(refunds.paymentId, insertRefund.paymentId),
+          inArray(refunds.status, ["pending", "processed"])
+        ));
+
+      if (committed + insertRefund.amount > Math.round(payment.amount * 100)) return undefined;
+
+      const [refund] = await tx.insert(refunds)
+        .values(insertRefund)
+        .returning();
+      
+      return refund;
+    });
+  }
+
+  async completeRefund(
+    id: number,
+    status: "processed" | "failed",
+    details: { providerRefundId?: string | null; failureReason?: string | null }
+  ): Promise<Refund | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [current] = await tx.select().from(refunds).where(eq(refunds.id, id)).for("update");
+      if (!current || current.status !== "pending") return current || undefined;
+
+      const [refund] = await tx.update(refunds)
+        .set({
+          status,
+          providerRefundId: details.providerRefundId ?? null,
+          failureReason: status === "failed" ? details.failureReason ?? null : null,
+          processedAt: new Date()
+        })
+        .where(eq(refunds.id, id))
+        .returning();
+
+      if (status === "failed") return refund;
+
+      const [payment] = await tx.select().from(payments).where(eq(payments.id, refund.paymentId));
+      const [{ refunded }] = await tx.select({
+        refunded: sql<number>`coalesce(sum(${refunds.amount}), 0)`.mapWith(Number)
+      })
+        .from(refunds)
+        .where(and(eq(refunds.paymentId, refund.paymentId), eq(refunds.status, "processed")));
+
+      await tx.update(payments)
+        .set({ status: refunded >= Math.round(payment.amount * 100) ? "refunded" : "partially_refunded" })
+        .where(eq(payments.id, payment.id));
+
+      if (refund.destination === "wallet") {
+        const wallet = await this.lockWallet(tx, payment.userId);
+        await this.applyWalletEntry(tx, wallet, {
+          type: "credit",
+          amount: refund.amount,
+          balanceDelta: refund.amount,
+          heldDelta: 0,
+          paymentId: payment.id,
+          description: `Refund #${refund.id} for payment #${payment.id}`
+        });
+      }
+
+      return refund;
+    });
+  }
+
+  async getRefundsByExpert(expertId: number): Promise<Refund[]> {
+    const rows = await this.db.select({ refund: refunds })
+      .from(refunds)
+      .innerJoin(payments, eq(payments.id, refunds.paymentId))
+      .where(eq(payments.expertId, expertId))
+      .orderBy(asc(refunds.createdAt), asc(refunds.id));
+    
+    return rows.map((row) => row.refund);
+  }
+
+  // Earnings and payout operations
+  async getCommissionRates(): Promise<CommissionRate[]> {
+    return this.db.select()
+      .from(commissionRates)
+      .orderBy(asc(commissionRates.effectiveFrom), asc(commissionRates.id));
+  }
+
+  async createCommissionRate(insertRate: InsertCommissionRate): Promise<CommissionRate> {
+    const [rate] = await this.db.insert(commissionRates)
+      .values(insertRate)
+      .returning();
+    
+    return rate;
+  }
+
+  async getPayoutBatches(): Promise<PayoutBatch[]> {
+    return this.db.select()
+      .from(payoutBatches)
+      .orderBy(desc(payoutBatches.periodEnd));
+  }
+
+  async getPayoutBatch(id: number): Promise<PayoutBatch | undefined> {
+    const [batch] = await this.db.select().from(payoutBatches).where(eq(payoutBatches.id, id));
+    return batch || undefined;
+  }
+
+  async createPayoutBatch(
+    insertBatch: InsertPayoutBatch,
+    insertPayouts: { payout: Omit<InsertPayout, "batchId">; items: Omit<InsertPayoutItem, "payoutId">[] }[],
+    lastBatchId: number
+  ): Promise<{ batch: PayoutBatch; payouts: Payout[] } | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Batches are created one at a time, so the check below sees every earlier one
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${PAYOUT_LOCK_NAMESPACE}::int, 0)`);
+
+      const [newer] = await tx.select({ id: payoutBatches.id })
+        .from(payoutBatches)
+        .where(gt(payoutBatches.id, lastBatchId))
+        .limit(1);
+      if (newer) return undefined;
+
+      const [batch] = await tx.insert(payoutBatches)
+        .values(insertBatch)
+        .onConflictDoNothing()
+        .returning();
+      if (!batch) return undefined;
+
+      const created: Payout[] = [];
+      for (const { payout: insertPayout, items } of insertPayouts) {
+        const [payout] = await tx.insert(payouts)
+          .values({ ...insertPayout, batchId: batch.id })
+          .returning();
+
+        if (items.length > 0) {
+          await tx.insert(payoutItems).values(items.map((item) => ({ ...item, payoutId: payout.id })));
+        }
+        created.push(payout);
+      }
+
+      return { batch, payouts: created };
+    });
+  }
+
+  async getPayout(id: number): Promise<Payout | undefined> {
+    const [payout] = await this.db.select().from(payouts).where(eq(payouts.id, id));
+    return payout || undefined;
+  }
+
+  async getPayoutsByBatch(batchId: number): Promise<Payout[]> {
+    return this.db.select()
+      .from(payouts)
+      .where(eq(payouts.batchId, batchId))
+      .orderBy(asc(payouts.expertId));
+  }
+
+  async getPayoutsByExpert(expertId: number): Promise<Payout[]> {
+    return this.db.select()
+      .from(payouts)
+      .where(eq(payouts.expertId, expertId))
+      .orderBy(desc(payouts.createdAt));
+  }
+
+  async getCommittedPayoutItems(expertId: number): Promise<PayoutItem[]> {
+    const rows = await this.db.select({ item: payoutItems })
+      .from(payoutItems)
+      .innerJoin(payouts, eq(payouts.id, payoutItems.payoutId))
+      .where(and(
+        eq(payouts.expertId, expertId),
+        inArray(payouts.status, ["pending", "processing", "paid"])
+      ));
+    
+    return rows.map((row) => row.item);
+  }
+
+  async transitionPayout(
+    id: number,
+    from: PayoutStatus[],
+    changes: Partial<Pick<InsertPayout, "status" | "reference" | "failureReason" | "paidAt">>
+  ): Promise<Payout | undefined> {
+    const [payout] = await this.db.update(payouts)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(and(eq(payouts.id, id), inArray(payouts.status, from)))
+      .returning();
+    
+    return payout || undefined;
+  }
+
+  // Dispute operations
+  async getDispute(id: number): Promise<Dispute | undefined> {
+    const [dispute] = await this.db.select().from(disputes).where(eq(disputes.id, id));
+    return dispute || undefined;
+  }
+
+  async getDisputesByUser(userId: number): Promise<Dispute[]> {
+    return this.db.select()
+      .from(disputes)
+      .where(eq(disputes.userId, userId))
+      .orderBy(desc(disputes.createdAt));
+  }
+
+  async getDisputes(status?: DisputeStatus): Promise<Dispute[]> {
+    return this.db.select()
+      .from(disputes)
+      .where(status ? eq(disputes.status, status) : undefined)
+      .orderBy(desc(disputes.createdAt));
+  }
+
+  async createDispute(insertDispute: InsertDispute): Promise<Dispute | undefined> {
+    return this.db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${REFUND_LOCK_NAMESPACE}::int, ${insertDispute.paymentId}::int)`);
+
+      const [unresolved] = await tx.select()
+        .from(disputes)
+        .where(and(
+          eq(disputes.paymentId, insertDispute.paymentId),
+          inArray(disputes.status, ["open", "under_review"])
+        ));
+      if (unresolved) return undefined;
+
+      const [dispute] = await tx.insert(disputes)
+        .values(insertDispute)
+        .returning();
+      
+      return dispute;
+    });
+  }
+
+  async transitionDispute(
+    id: number,
+    from: DisputeStatus[],
+    changes: Partial<Omit<InsertDispute, "id" | "paymentId" | "userId">>
+  ): Promise<Dispute | undefined> {
+    const [dispute] = await this.db.update(disputes)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(and(eq(disputes.id, id), inArray(disputes.status, from)))
+      .returning();
+    
+    return dispute || undefined;
+  }
+
+  // Payment order operations
+  async createPaymentOrder(insertOrder: InsertPaymentOrder): Promise<PaymentOrder> {
+    const [order] = await this.db.insert(paymentOrders)
+      .values(insertOrder)
+      .returning();
+    
+    return order;
+  }
+
+  async getPaymentOrder(id: number): Promise<PaymentOrder | undefined> {
+    const [order] = await this.db.select().from(paymentOrders).where(eq(paymentOrders.id, id));
+    return order || undefined;
+  }
+
+  async getPaymentOrderByProviderOrderId(provider: string, providerOrderId: string): Promise<PaymentOrder | undefined> {
+    const [order] = await this.db.select()
+      .from(paymentOrders)
+      .where(and(
+        eq(paymentOrders.provider, provider),
+        eq(paymentOrders.providerOrderId, providerOrderId)
+      ));
+    return order || undefined;
+  }
+
+  async getPaymentOrdersByPayment(paymentId: number): Promise<PaymentOrder[]> {
+    return this.db.select()
+      .from(paymentOrders)
+      .where(eq(paymentOrders.paymentId, paymentId))
+      .orderBy(desc(paymentOrders.createdAt));
+  }
+
+  async completePaymentOrder(
+    id: number,
+    status: "succeeded" | "failed",
+    details: { providerPaymentId?: string | null; failureReason?: string | null }
+  ): Promise<{ order: PaymentOrder; completed: boolean; applied: boolean } | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [current] = await tx.select().from(paymentOrders).where(eq(paymentOrders.id, id)).for("update");
+      if (!current) return undefined;
+      // A failed attempt can still be followed by a successful one on the same order
+      if (current.status === "succeeded" || current.status === status) {
+        return { order: current, completed: false, applied: false };
+      }
+
+      const [order] = await tx.update(paymentOrders)
+        .set({
+          status,
+          providerPaymentId: details.providerPaymentId ?? current.providerPaymentId,
+          failureReason: status === "failed" ? details.failureReason ?? null : null,
+          updatedAt: new Date()
+        })
+        .where(eq(paymentOrders.id, id))
+        .returning();
+
+      let applied = true;
+      if (order.purpose === "payment" && order.paymentId !== null) {
+        const [payment] = await tx.select().from(payments).where(eq(payments.id, order.paymentId)).for("update");
+        applied = payment?.status === "pending" || payment?.status === "failed";
+        if (applied) {
+          await tx.update(payments)
+            .set(status === "succeeded" && order.providerPaymentId
+              ? { status, transactionId: order.providerPaymentId }
+              : { status })
+            .where(eq(payments.id, order.paymentId));
+        } else if (status === "succeeded") {
+          const wallet = await this.lockWallet(tx, order.userId);
+          await this.applyWalletEntry(tx, wallet, {
+            type: "credit",
+            amount: order.amount,
+            balanceDelta: order.amount,
+            heldDelta: 0,
+            paymentId: order.paymentId,
+            description: `Order #${order.id} paid after payment #${order.paymentId} was settled`
+          });
+        }
+      }
+
+      if (order.purpose === "wallet_top_up" && status === "succeeded") {
+        const wallet = await this.lockWallet(tx, order.userId);
+        await this.applyWalletEntry(tx, wallet, {
+          type: "credit",
+          amount: order.amount,
+          balanceDelta: order.amount,
+          heldDelta: 0,
+          description: `Wallet top-up (order #${order.id})`
+        });
+      }
+
+      return { order, completed: true, applied };
+    });
+  }
+
+  async recordWebhookEvent(insertEvent: InsertWebhookEvent): Promise<WebhookEvent> {
+    await this.db.insert(webhookEvents)
+      .values(insertEvent)
+      .onConflictDoNothing();
+
+    const [event] = await this.db.select()
+      .from(webhookEvents)
+      .where(and(
+        eq(webhookEvents.provider, insertEvent.provider),
+        eq(webhookEvents.eventId, insertEvent.eventId)
+      ));
+    return event;
+  }
+
+  async markWebhookEventProcessed(id: number): Promise<void> {
+    await this.db.update(webhookEvents)
+      .set({ processedAt: new Date() })
+      .where(eq(webhookEvents.id, id));
+  }
+
+  // Wallet operations
+  async getWallet(userId: number): Promise<Wallet | undefined> {
+    const [wallet] = await this.db.select().from(wallets).where(eq(wallets.userId, userId));
+    return wallet || undefined;
+  }
+
+  async getWalletTransactions(userId: number): Promise<WalletTransaction[]> {
+    return this.db.select()
+      .from(walletTransactions)
+      .where(eq(walletTransactions.userId, userId))
+      .orderBy(desc(walletTransactions.createdAt), desc(walletTransactions.id));
+  }
+
+  async listWalletTransactions(userId: number, page: PageRequest): Promise<Page<WalletTransaction>> {
+    const query = pageQuery(walletTransactions.id, "desc", page);
+    const rows = await this.db.select()
+      .from(walletTransactions)
+      .where(and(eq(walletTransactions.userId, userId), query.where))
+      .orderBy(query.orderBy)
+      .limit(query.limit);
+    return toPage(rows, page);
+  }
+
+  // Creates the wallet on first use and locks its row for the rest of the transaction
+  private async lockWallet(tx: Transaction, userId: number): Promise<Wallet> {
+    await tx.insert(wallets).values({ userId }).onConflictDoNothing();
+    const [wallet] = await tx.select().from(wallets).where(eq(wallets.userId, userId)).for("update");
+    return wallet;
+  }
+
+  private async applyWalletEntry(tx: Transaction, wallet: Wallet, entry: WalletEntry): Promise<{ wallet: Wallet; transaction: WalletTransaction }> {
+    const { balanceDelta, heldDelta, ...rest } = entry;
+    const [updated] = await tx.update(wallets)
+      .set({
+        balance: wallet.balance + balanceDelta,
+        held: wallet.held + heldDelta,
+        updatedAt: new Date()
+      })
+      .where(eq(wallets.userId, wallet.userId))
+      .returning();
+
+    const [transaction] = await tx.insert(walletTransactions)
+      .values({
+        ...rest,
+        userId: wallet.userId,
+        balanceAfter: updated.balance,
+        heldAfter: updated.held
+      })
+      .returning();
+
+    return { wallet: updated, transaction };
+  }
+
+  async creditWallet(
+    userId: number,
+    amount: number,
+    details: { description: string; paymentId?: number }
+  ): Promise<{ wallet: Wallet; transaction: WalletTransaction }> {
+    return this.db.transaction(async (tx) => {
+      const wallet = await this.lockWallet(tx, userId);
+      return this.applyWalletEntry(tx, wallet, {
+        type: "credit",
+        amount,
+        balanceDelta: amount,
+        heldDelta: 0,
+        paymentId: details.paymentId,
+        description: details.description
+      });
+    });
+  }
+
+  async getWalletHold(sessionId: number): Promise<WalletHold | undefined> {
+    const [hold] = await this.db.select().from(walletHolds).where(eq(walletHolds.sessionId, sessionId));
+    return hold || undefined;
+  }
+
+  async getActiveWalletHolds(): Promise<WalletHold[]> {
+    return this.db.select()
+      .from(walletHolds)
+      .where(eq(walletHolds.status, "active"))
+      .orderBy(asc(walletHolds.id));
+  }
+
+  async placeWalletHold(userId: number, sessionId: number, ratePerMinute: number, minimumAmount: number): Promise<WalletHold | undefined> {
+    return this.db.transaction(async (tx) => {
+      const wallet = await this.lockWallet(tx, userId);
+
+      const [existing] = await tx.select().from(walletHolds).where(eq(walletHolds.sessionId, sessionId));
+      if (existing) return existing;
+
+      const available = wallet.balance - wallet.held;
+      if (available < minimumAmount || available <= 0) return undefined;
+
+      const [hold] = await tx.insert(walletHolds)
+        .values({ userId, sessionId, amount: available, ratePerMinute })
+        .returning();
+
+      await this.applyWalletEntry(tx, wallet, {
+        type: "hold",
+        amount: available,
+        balanceDelta: 0,
+        heldDelta: available,
+        sessionId,
+        description: `Hold for session #${sessionId}`
+      });
+
+      return hold;
+    });
+  }
+
+  async drawDownWalletHold(sessionId: number, consumedTarget: number): Promise<WalletHold | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [current] = await tx.select().from(walletHolds).where(eq(walletHolds.sessionId, sessionId));
+      if (!current) return undefined;
+
+      const wallet = await this.lockWallet(tx, current.userId);
+      const [hold] = await tx.select().from(walletHolds).where(eq(walletHolds.id, current.id));
+      if (hold.status !== "active") return undefined;
+
+      const drawn = Math.min(consumedTarget, hold.amount) - hold.consumed;
+      if (drawn <= 0) return hold;
+
+      await this.applyWalletEntry(tx, wallet, {
+        type: "debit",
+        amount: drawn,
+        balanceDelta: -drawn,
+        heldDelta: -drawn,
+        sessionId,
+        description: `Usage for session #${sessionId}`
+      });
+
+      const [updated] = await tx.update(walletHolds)
+        .set({ consumed: hold.consumed + drawn, updatedAt: new Date() })
+        .where(eq(walletHolds.id, hold.id))
+        .returning();
+      
+      return updated;
+    });
+  }
+
+  async settleWalletHold(sessionId: number, total: number, paymentId?: number): Promise<WalletHold | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [current] = await tx.select().from(walletHolds).where(eq(walletHolds.sessionId, sessionId));
+      if (!current) return undefined;
+
+      let wallet = await this.lockWallet(tx, current.userId);
+      const [hold] = await tx.select().from(walletHolds).where(eq(walletHolds.id, current.id));
+      if (hold.status !== "active") return undefined;
+
+      // The final charge can never take more than was reserved
+      const final = Math.min(Math.max(total, 0), hold.amount);
+      const difference = final - hold.consumed;
+
+      if (difference > 0) {
+        ({ wallet } = await this.applyWalletEntry(tx, wallet, {
+          type: "debit",
+          amount: difference,
+          balanceDelta: -difference,
+          heldDelta: -difference,
+          sessionId,
+          paymentId,
+          description: `Charge for session #${sessionId}`
+        }));
+      } else if (difference < 0) {
+        ({ wallet } = await this.applyWalletEntry(tx, wallet, {
+          type: "credit",
+          amount: -difference,
+          balanceDelta: -difference,
+          heldDelta: 0,
+          sessionId,
+          paymentId,
+          description: `Refund of unused time for session #${sessionId}`
+        }));
+      }
+
+      const unused = hold.amount - Math.max(final, hold.consumed);
+      if (unused > 0) {
+        await this.applyWalletEntry(tx, wallet, {
+          type: "release",
+          amount: unused,
+          balanceDelta: 0,
+          heldDelta: -unused,
+          sessionId,
+          description: `Release of hold for session #${sessionId}`
+        });
+      }
+
+      const [updated] = await tx.update(walletHolds)
+        .set({ consumed: final, status: "settled", updatedAt: new Date() })
+        .where(eq(walletHolds.id, hold.id))
+        .returning();
+      
+      return updated;
+    });
+  }
+
   // Booking operations
   async getBooking(id: number): Promise<Booking | undefined> {
-    const [booking] = await db.select().from(bookings).where(eq(bookings.id, id));
+    const [booking] = await this.db.select().from(bookings).where(eq(bookings.id, id));
     return booking || undefined;
   }
 
   async getBookingsByUser(userId: number): Promise<Booking[]> {
-    return db.select()
+    return this.db.select()
       .from(bookings)
       .where(eq(bookings.userId, userId))
       .orderBy(desc(bookings.sessionTime));
   }
 
   async getBookingsByExpert(expertId: number): Promise<Booking[]> {
-    return db.select()
+    return this.db.select()
       .from(bookings)
       .where(eq(bookings.expertId, expertId))
       .orderBy(desc(bookings.sessionTime));
   }
 
   async createBooking(insertBooking: InsertBooking): Promise<Booking> {
-    const [booking] = await db.insert(bookings)
+    const [booking] = await this.db.insert(bookings)
       .values(insertBooking)
       .returning();
     
     return booking;
   }
 
-  async updateBookingStatus(id: number, status: "booked" | "completed" | "canceled"): Promise<Booking | undefined> {
-    const [booking] = await db.update(bookings)
+  async createBookingIfSlotFree(insertBooking: InsertBooking, durationMinutes: number): Promise<Booking | undefined> {
+    const start = insertBooking.sessionTime;
+    const end = new Date(start.getTime() + durationMinutes * 60 * 1000);
+
+    return this.db.transaction(async (tx) => {
+      // Serialize bookings per expert so concurrent requests cannot both see the slot as free
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${BOOKING_LOCK_NAMESPACE}::int, ${insertBooking.expertId}::int)`);
+
+      const [conflict] = await tx.select({ id: bookings.id })
+        .from(bookings)
+        .leftJoin(bookingLengths, eq(bookingLengths.bookingId, bookings.id))
+        .where(and(
+          eq(bookings.expertId, insertBooking.expertId),
+          eq(bookings.status, "booked"),
+          lt(bookings.sessionTime, end),
+          sql`${bookingEnd} > ${start}`
+        ))
+        .limit(1);
+      
+      if (conflict) return undefined;
+
+      const [booking] = await tx.insert(bookings)
+        .values(insertBooking)
+        .returning();
+      await tx.insert(bookingLengths).values({ bookingId: booking.id, minutes: durationMinutes });
+      
+      return booking;
+    });
+  }
+
+  async getBookedBookingsForExpert(expertId: number, from: Date, to: Date): Promise<ScheduledBooking[]> {
+    const rows = await this.db.select({ booking: bookings, durationMinutes: bookingDuration })
+      .from(bookings)
+      .leftJoin(bookingLengths, eq(bookingLengths.bookingId, bookings.id))
+      .where(and(
+        eq(bookings.expertId, expertId),
+        eq(bookings.status, "booked"),
+        lt(bookings.sessionTime, to),
+        sql`${bookingEnd} > ${from}`
+      ))
+      .orderBy(asc(bookings.sessionTime));
+    return rows.map((row) => ({ ...row.booking, durationMinutes: row.durationMinutes }));
+  }
+
+  async getBookingDuration(bookingId: number): Promise<number> {
+    const [length] = await this.db.select().from(bookingLengths).where(eq(bookingLengths.bookingId, bookingId));
+    return length?.minutes ?? DEFAULT_SLOT_MINUTES;
+  }
+
+  async getBookingPayment(bookingId: number): Promise<Payment | undefined> {
+    const [row] = await this.db.select({ payment: payments })
+      .from(bookingPayments)
+      .innerJoin(payments, eq(payments.id, bookingPayments.paymentId))
+      .where(eq(bookingPayments.bookingId, bookingId));
+    return row?.payment;
+  }
+
+  async getBookingByPayment(paymentId: number): Promise<Booking | undefined> {
+    const [row] = await this.db.select({ booking: bookings })
+      .from(bookingPayments)
+      .innerJoin(bookings, eq(bookings.id, bookingPayments.bookingId))
+      .where(eq(bookingPayments.paymentId, paymentId));
+    return row?.booking;
+  }
+
+  async createBookingPayment(bookingId: number, insertPayment: InsertPayment): Promise<Payment> {
+    return this.db.transaction(async (tx) => {
+      // Serialise on the booking row so a booking never gets two payments
+      await tx.select().from(bookings).where(eq(bookings.id, bookingId)).for("update");
+
+      const [existing] = await tx.select({ payment: payments })
+        .from(bookingPayments)
+        .innerJoin(payments, eq(payments.id, bookingPayments.paymentId))
+        .where(eq(bookingPayments.bookingId, bookingId));
+      if (existing) return existing.payment;
+
+      const [payment] = await tx.insert(payments)
+        .values({
+          ...insertPayment,
+          transactionId: insertPayment.transactionId || `txn_${crypto.randomBytes(8).toString('hex')}`
+        })
+        .returning();
+
+      await tx.insert(bookingPayments).values({ bookingId, paymentId: payment.id });
+      return payment;
+    });
+  }
+
+  async updateBookingStatus(
+    id: number,
+    status: "booked" | "completed" | "canceled",
+    expectedStatus?: "booked" | "completed" | "canceled"
+  ): Promise<Booking | undefined> {
+    // When an expected status is given the update only applies if nobody changed it in between
+    const [booking] = await this.db.update(bookings)
       .set({ status, updatedAt: new Date() })
-      .where(eq(bookings.id, id))
+      .where(expectedStatus
+        ? and(eq(bookings.id, id), eq(bookings.status, expectedStatus))
+        : eq(bookings.id, id))
       .returning();
     
     return booking || undefined;
   }
 
   // Inspiration operations
+  async getInspiration(id: number): Promise<Inspiration | undefined> {
+    const [inspiration] = await this.db.select().from(inspirations).where(eq(inspirations.id, id));
+    return inspiration || undefined;
+  }
+
   async getRandomInspiration(): Promise<Inspiration | undefined> {
-    // Get a random active inspiration
-    const inspirationsList = await db.select()
+    // Let the database pick a random active inspiration
+    const [inspiration] = await this.db.select()
+      .from(inspirations)
+      .where(eq(inspirations.isActive, true))
+      .orderBy(sql`random()`)
+      .limit(1);
+    
+    return inspiration || undefined;
+  }
+
+  async getDailyInspiration(seed: number): Promise<Inspiration | undefined> {
+    const [{ count }] = await this.db.select({ count: sql<number>`count(*)::int` })
       .from(inspirations)
       .where(eq(inspirations.isActive, true));
     
-    if (inspirationsList.length === 0) return undefined;
+    if (count === 0) return undefined;
+    
+    const [inspiration] = await this.db.select()
+      .from(inspirations)
+      .where(eq(inspirations.isActive, true))
+      .orderBy(asc(inspirations.id))
+      .offset(seed % count)
+      .limit(1);
     
-    const randomIndex = Math.floor(Math.random() * inspirationsList.length);
-    return inspirationsList[randomIndex];
+    return inspiration || undefined;
   }
 
   async getInspirationsByCategory(categoryId: number): Promise<Inspiration[]> {
-    return db.select()
+    return this.db.select()
       .from(inspirations)
       .where(
         and(
@@ -278,14 +2003,27 @@ export class DatabaseStorage implements IStorage {
       );
   }
 
+  async getAllInspirations(): Promise<Inspiration[]> {
+    return this.db.select().from(inspirations).orderBy(asc(inspirations.id));
+  }
+
   async createInspiration(insertInspiration: InsertInspiration): Promise<Inspiration> {
-    const [inspiration] = await db.insert(inspirations)
+    const [inspiration] = await this.db.insert(inspirations)
       .values(insertInspiration)
       .returning();
     
     return inspiration;
   }
 
+  async setInspirationActive(id: number, isActive: boolean): Promise<Inspiration | undefined> {
+    const [inspiration] = await this.db.update(inspirations)
+      .set({ isActive })
+      .where(eq(inspirations.id, id))
+      .returning();
+    
+    return inspiration || undefined;
+  }
+
   // For compatibility with existing code (chats methods)
   async getChat(id: number): Promise<any> {
     const session = await this.getSession(id);
@@ -315,26 +2053,59 @@ export class DatabaseStorage implements IStorage {
 
   async getChatsByUser(userId: number): Promise<any[]> {
     const userSessions = await this.getSessionsByUser(userId);
-    
-    // Convert sessions to chat format for compatibility
-    return userSessions.map(session => ({
-      id: session.id,
-      userId: session.userId,
-      expertId: session.expertId,
-      lastMessageTime: session.startTime
-    }));
+    return this.toChatSummaries(userSessions, userId);
   }
 
   async getChatsByExpert(expertId: number): Promise<any[]> {
-    const expertSessions = await this.getSessionsByExpert(expertId);
-    
-    // Convert sessions to chat format for compatibility
-    return expertSessions.map(session => ({
-      id: session.id,
-      userId: session.userId,
-      expertId: session.expertId,
-      lastMessageTime: session.startTime
-    }));
+    const [expertSessions, expert] = await Promise.all([
+      this.getSessionsByExpert(expertId),
+      this.getExpert(expertId)
+    ]);
+    return this.toChatSummaries(expertSessions, expert?.userId);
+  }
+
+  // Chat format with the last message of each session and what the viewer has not read
+  private async toChatSummaries(chatSessions: Session[], viewerId: number | undefined): Promise<any[]> {
+    if (chatSessions.length === 0) return [];
+    const sessionIds = chatSessions.map((session) => session.id);
+
+    const lastMessages = await this.db.selectDistinctOn([messages.sessionId])
+      .from(messages)
+      .where(inArray(messages.sessionId, sessionIds))
+      .orderBy(messages.sessionId, desc(messages.id));
+
+    const unreadCounts = viewerId === undefined ? [] : await this.db.select({
+      sessionId: messages.sessionId,
+      count: sql<number>`count(*)`.mapWith(Number)
+    })
+      .from(messages)
+      .leftJoin(chatReadCursors, and(
+        eq(chatReadCursors.sessionId, messages.sessionId),
+        eq(chatReadCursors.userId, viewerId)
+      ))
+      .where(
+        and(
+          inArray(messages.sessionId, sessionIds),
+          ne(messages.senderId, viewerId),
+          gt(messages.id, sql`coalesce(${chatReadCursors.lastReadMessageId}, 0)`)
+        )
+      )
+      .groupBy(messages.sessionId);
+
+    const lastBySession = new Map(lastMessages.map((message) => [message.sessionId, message]));
+    const unreadBySession = new Map(unreadCounts.map((row) => [row.sessionId, row.count]));
+
+    return chatSessions.map((session) => {
+      const lastMessage = lastBySession.get(session.id) ?? null;
+      return {
+        id: session.id,
+        userId: session.userId,
+        expertId: session.expertId,
+        lastMessageTime: lastMessage?.timestamp ?? session.startTime,
+        lastMessage,
+        unreadCount: unreadBySession.get(session.id) ?? 0
+      };
+    });
   }
 
   async createChat(insertChat: any): Promise<any> {
@@ -364,46 +2135,180 @@ export class DatabaseStorage implements IStorage {
 
   // Feedback operations
   async getFeedback(id: number): Promise<Feedback | undefined> {
-    const [feedbackItem] = await db.select().from(feedback).where(eq(feedback.id, id));
+    const [feedbackItem] = await this.db.select().from(feedback).where(eq(feedback.id, id));
     return feedbackItem || undefined;
   }
 
   async getFeedbacksByUser(userId: number): Promise<Feedback[]> {
-    return db.select()
+    return this.db.select()
       .from(feedback)
       .where(eq(feedback.userId, userId))
       .orderBy(desc(feedback.createdAt));
   }
 
   async getFeedbacksByExpert(expertId: number): Promise<Feedback[]> {
-    return db.select()
+    return this.db.select()
       .from(feedback)
       .where(eq(feedback.expertId, expertId))
       .orderBy(desc(feedback.createdAt));
   }
 
   async getFeedbacksBySession(sessionId: number): Promise<Feedback[]> {
-    return db.select()
+    return this.db.select()
       .from(feedback)
       .where(eq(feedback.sessionId, sessionId))
       .orderBy(desc(feedback.createdAt));
   }
 
   async createFeedback(insertFeedback: InsertFeedback): Promise<Feedback> {
-    const [feedbackItem] = await db.insert(feedback)
+    const [feedbackItem] = await this.db.insert(feedback)
       .values(insertFeedback)
       .returning();
     
     return feedbackItem;
   }
 
-  async getAverageRatingForExpert(expertId: number): Promise<number> {
-    const results = await db.select({
-      averageRating: sql`COALESCE(AVG(${feedback.rating})::numeric(10,1), 0)`
+  // Review operations
+  async createReview(
+    insertFeedback: InsertFeedback & { sessionId: number; expertId: number }
+  ): Promise<{ feedback: Feedback; review: Review } | undefined> {
+    return this.db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${REVIEW_LOCK_NAMESPACE}::int, ${insertFeedback.expertId}::int)`);
+
+      const [existing] = await tx.select().from(reviews).where(eq(reviews.sessionId, insertFeedback.sessionId));
+      if (existing) return undefined;
+
+      const [feedbackItem] = await tx.insert(feedback).values(insertFeedback).returning();
+      const [review] = await tx.insert(reviews)
+        .values({ feedbackId: feedbackItem.id, sessionId: insertFeedback.sessionId, expertId: insertFeedback.expertId })
+        .returning();
+
+      await this.refreshExpertRating(tx, insertFeedback.expertId);
+      return { feedback: feedbackItem, review };
+    });
+  }
+
+  async getReview(feedbackId: number): Promise<Review | undefined> {
+    const [review] = await this.db.select().from(reviews).where(eq(reviews.feedbackId, feedbackId));
+    return review || undefined;
+  }
+
+  async listReviewsByExpert(expertId: number, page: PageRequest): Promise<Page<ReviewedFeedback>> {
+    const query = pageQuery(feedback.id, "desc", page);
+    const rows = await this.db.select({ feedback, review: reviews })
+      .from(feedback)
+      .innerJoin(reviews, eq(reviews.feedbackId, feedback.id))
+      .where(and(eq(reviews.expertId, expertId), eq(reviews.status, "published"), query.where))
+      .orderBy(query.orderBy)
+      .limit(query.limit);
+    return toPage(rows.map((row) => ({ ...row.feedback, review: row.review })), page);
+  }
+
+  async setReviewReply(feedbackId: number, reply: string | null): Promise<Review | undefined> {
+    const [review] = await this.db.update(reviews)
+      .set({ reply, repliedAt: reply === null ? null : new Date() })
+      .where(eq(reviews.feedbackId, feedbackId))
+      .returning();
+    return review || undefined;
+  }
+
+  async moderateReview(
+    feedbackId: number,
+    status: ReviewStatus,
+    moderatorId: number,
+    reason: string | null
+  ): Promise<Review | undefined> {
+    const current = await this.getReview(feedbackId);
+    if (!current) return undefined;
+
+    return this.db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${REVIEW_LOCK_NAMESPACE}::int, ${current.expertId}::int)`);
+
+      const [review] = await tx.update(reviews)
+        .set({ status, moderatedBy: moderatorId, moderationReason: reason, moderatedAt: new Date() })
+        .where(eq(reviews.feedbackId, feedbackId))
+        .returning();
+
+      await tx.update(reviewReports)
+        .set({ status: status === "hidden" ? "upheld" : "dismissed", resolvedBy: moderatorId, resolvedAt: new Date() })
+        .where(and(eq(reviewReports.feedbackId, feedbackId), eq(reviewReports.status, "open")));
+
+      await this.refreshExpertRating(tx, review.expertId);
+      return review;
+    });
+  }
+
+  async getExpertRating(expertId: number): Promise<ExpertRating | undefined> {
+    const [rating] = await this.db.select().from(expertRatings).where(eq(expertRatings.expertId, expertId));
+    return rating || undefined;
+  }
+
+  async createReviewReport(insertReport: InsertReviewReport): Promise<ReviewReport | undefined> {
+    const [report] = await this.db.insert(reviewReports)
+      .values(insertReport)
+      .onConflictDoNothing({ target: [reviewReports.feedbackId, reviewReports.reporterId] })
+      .returning();
+    return report || undefined;
+  }
+
+  async listReviewReports(status: ReviewReportStatus | undefined, page: PageRequest): Promise<Page<ReviewReport>> {
+    const query = pageQuery(reviewReports.id, "desc", page);
+    const rows = await this.db.select()
+      .from(reviewReports)
+      .where(and(status === undefined ? undefined : eq(reviewReports.status, status), query.where))
+      .orderBy(query.orderBy)
+      .limit(query.limit);
+    return toPage(rows, page);
+  }
+
+  // Recounts an expert's published reviews. Callers hold the expert's review lock.
+  private async refreshExpertRating(tx: Transaction, expertId: number): Promise<void> {
+    const [totals] = await tx.select({
+      reviewCount: sql<number>`count(*)::int`,
+      ratingTotal: sql<number>`coalesce(sum(${feedback.rating}), 0)::int`
     })
-    .from(feedback)
-    .where(eq(feedback.expertId, expertId));
-    
-    return Number(results[0]?.averageRating || 0);
+      .from(reviews)
+      .innerJoin(feedback, eq(feedback.id, reviews.feedbackId))
+      .where(and(eq(reviews.expertId, expertId), eq(reviews.status, "published")));
+
+    await tx.insert(expertRatings)
+      .values({ expertId, ...totals, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: expertRatings.expertId,
+        set: { ...totals, updatedAt: new Date() }
+      });
+
+    // Listings filter and sort on experts.rating, so it follows the reviews too
+    await tx.update(experts)
+      .set({
+        rating: totals.reviewCount === 0 ? 0 : sql`round(${totals.ratingTotal}::numeric / ${totals.reviewCount}, 1)`,
+        updatedAt: new Date()
+      })
+      .where(eq(experts.id, expertId));
+  }
+
+  // Audit log operations
+  async createAuditEvent(insertEvent: InsertAuditEvent): Promise<AuditEvent> {
+    const [event] = await this.db.insert(auditEvents).values(insertEvent).returning();
+    return event;
+  }
+
+  async listAuditEvents(filters: AuditEventFilters, page: PageRequest): Promise<Page<AuditEvent>> {
+    const query = pageQuery(auditEvents.id, "desc", page);
+    const rows = await this.db.select()
+      .from(auditEvents)
+      .where(and(
+        filters.actorId === undefined ? undefined : eq(auditEvents.actorId, filters.actorId),
+        filters.action === undefined ? undefined : eq(auditEvents.action, filters.action),
+        filters.targetType === undefined ? undefined : eq(auditEvents.targetType, filters.targetType),
+        filters.targetId === undefined ? undefined : eq(auditEvents.targetId, filters.targetId),
+        filters.ip === undefined ? undefined : eq(auditEvents.ip, filters.ip),
+        filters.from === undefined ? undefined : gte(auditEvents.createdAt, filters.from),
+        filters.to === undefined ? undefined : lte(auditEvents.createdAt, filters.to),
+        query.where
+      ))
+      .orderBy(query.orderBy)
+      .limit(query.limit);
+    return toPage(rows, page);
   }
 }
\ No newline at end of file
@@ -1,20 +1,100 @@
-import { Pool, neonConfig } from '@neondatabase/serverless';
-import { drizzle } from 'drizzle-orm/neon-serverless';
-import ws from "ws";
-import * as schema from "@shared/schema";
-
-// Configure neon to use websockets
-neonConfig.webSocketConstructor = ws;
-
-// Check for database URL
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?"
-  );
+import fs from "fs";
+import path from "path";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import * as sharedSchema from "@shared/schema";
+import * as serverSchema from "./schema";
+
+// Shared tables plus the server-only ones
+const schema = { ...sharedSchema, ...serverSchema };
+
+// Every driver produces the same Postgres dialect, so DatabaseStorage works with any of them
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export type DatabaseDriver = "neon" | "pg" | "pglite";
+
+export interface DatabaseConfig {
+  driver: DatabaseDriver;
+  // Connection string for neon and pg
+  url?: string;
+  // Directory for an on-disk PGlite database. Omit for a throwaway in-memory one.
+  dataDir?: string;
+  // Migrations generated by drizzle-kit, applied to PGlite on startup
+  migrationsFolder?: string;
+}
+
+const drivers: DatabaseDriver[] = ["neon", "pg", "pglite"];
+
+// Reads DATABASE_DRIVER, DATABASE_URL, PGLITE_DATA_DIR and DATABASE_MIGRATIONS_DIR.
+// Neon stays the default so existing deployments keep working unchanged.
+export function getDatabaseConfig(env: NodeJS.ProcessEnv = process.env): DatabaseConfig {
+  const driver = (env.DATABASE_DRIVER || "neon") as DatabaseDriver;
+  if (!drivers.includes(driver)) {
+    throw new Error(`Unknown DATABASE_DRIVER "${env.DATABASE_DRIVER}". Expected one of: ${drivers.join(", ")}`);
+  }
+
+  const defaultMigrations = path.resolve(import.meta.dirname, "..", "migrations");
+
+  return {
+    driver,
+    url: env.DATABASE_URL,
+    dataDir: env.PGLITE_DATA_DIR,
+    migrationsFolder: env.DATABASE_MIGRATIONS_DIR
+      || (fs.existsSync(defaultMigrations) ? defaultMigrations : undefined)
+  };
+}
+
+function requireUrl(config: DatabaseConfig): string {
+  // Check for database URL
+  if (!config.url) {
+    throw new Error(
+      "DATABASE_URL must be set. Did you forget to provision a database?"
+    );
+  }
+  return config.url;
 }
 
-// Create the database connection pool
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+// Drivers are imported lazily so only the one in use has to be installed
+export async function createDatabase(config: DatabaseConfig = getDatabaseConfig()): Promise<Database> {
+  switch (config.driver) {
+    case "neon": {
+      const { Pool, neonConfig } = await import("@neondatabase/serverless");
+      const { drizzle } = await import("drizzle-orm/neon-serverless");
+      const { default: ws } = await import("ws");
+
+      // Configure neon to use websockets
+      neonConfig.webSocketConstructor = ws;
+
+      return drizzle(new Pool({ connectionString: requireUrl(config) }), { schema });
+    }
+
+    case "pg": {
+      const { default: pg } = await import("pg");
+      const { drizzle } = await import("drizzle-orm/node-postgres");
+
+      return drizzle(new pg.Pool({ connectionString: requireUrl(config) }), { schema });
+    }
 
-// Create the drizzle ORM instance
-export const db = drizzle(pool, { schema });
\ No newline at end of file
+    case "pglite": {
+      const { PGlite } = await import("@electric-sql/pglite");
+      const { pg_trgm } = await import("@electric-sql/pglite/contrib/pg_trgm");
+      const { drizzle } = await import("drizzle-orm/pglite");
+
+      // An embedded database starts empty, so it can only be used with migrations to build it
+      if (!config.migrationsFolder) {
+        throw new Error(
+          "The pglite driver needs migrations. Run `drizzle-kit generate` or set DATABASE_MIGRATIONS_DIR."
+        );
+      }
+
+      // Search uses trigram indexes, which migrations do not create the extension for
+      const client = new PGlite(config.dataDir, { extensions: { pg_trgm } });
+      await client.exec("CREATE EXTENSION IF NOT EXISTS pg_trgm");
+      const db = drizzle(client, { schema });
+
+      const { migrate } = await import("drizzle-orm/pglite/migrator");
+      await migrate(db, { migrationsFolder: config.migrationsFolder });
+
+      return db;
+    }
+  }
+}
@@ -0,0 +1,226 @@
+import { z } from "zod";
+import type { Payment } from "@shared/schema";
+import type { CommissionRate, Payout, PayoutItem, PayoutStatus, Refund } from "./schema";
+import { storage } from "./storage";
+import { toRupees } from "./billing";
+
+// Expert earnings are derived from payments: what the user paid, less processed
+// refunds, less the platform commission in effect when the payment was made.
+// Amounts are in paise.
+
+export const EARNING_PAYMENT_STATUSES = ["succeeded", "partially_refunded", "refunded"];
+
+// PLATFORM_COMMISSION_PERCENT applies until an admin sets a rate. Without a valid
+// percentage (or with a blank one) the platform takes 20%.
+const configuredCommissionPercent = Number(process.env.PLATFORM_COMMISSION_PERCENT?.trim() || 20);
+export const DEFAULT_COMMISSION_BPS = Number.isFinite(configuredCommissionPercent)
+  && configuredCommissionPercent >= 0
+  && configuredCommissionPercent <= 100
+  ? Math.round(configuredCommissionPercent * 100)
+  : 2000;
+
+// Payouts are marked processing when sent and paid or failed once the transfer
+// settles. The payments of a failed payout are picked up again by the next batch.
+export const PAYOUT_TRANSITIONS: Record<PayoutStatus, PayoutStatus[]> = {
+  pending: ["processing", "failed"],
+  processing: ["paid", "failed"],
+  paid: [],
+  failed: []
+};
+
+export const commissionRateInputSchema = z.object({
+  // Omit for the platform-wide rate
+  expertId: z.number().int().optional(),
+  percent: z.number().min(0).max(100),
+  effectiveFrom: z.coerce.date().optional()
+});
+
+export const payoutBatchInputSchema = z.object({
+  periodEnd: z.coerce.date()
+});
+
+export const payoutUpdateSchema = z.object({
+  status: z.enum(["processing", "paid", "failed"]),
+  reference: z.string().trim().min(1).max(200).optional(),
+  failureReason: z.string().trim().min(1).max(500).optional()
+});
+
+export interface EarningEntry {
+  paymentId: number;
+  expertId: number;
+  date: Date;
+  gross: number;
+  refunded: number;
+  net: number;
+  commissionBps: number;
+  commission: number;
+  earnings: number;
+}
+
+export interface EarningsSummary {
+  gross: number;
+  refunded: number;
+  net: number;
+  commission: number;
+  earnings: number;
+  // Included in payouts that have not failed, whether or not they have been paid yet
+  paidOut: number;
+  unpaid: number;
+}
+
+// Expert-specific rates win over the platform-wide one; among those, the latest
+// that had taken effect at `at` applies
+export function commissionBpsAt(rates: CommissionRate[], expertId: number, at: Date): number {
+  const inEffect = rates.filter((rate) => rate.effectiveFrom.getTime() <= at.getTime());
+  const latest = (candidates: CommissionRate[]) => candidates.reduce<CommissionRate | undefined>((found, rate) =>
+    !found || rate.effectiveFrom.getTime() >= found.effectiveFrom.getTime() ? rate : found, undefined);
+
+  return latest(inEffect.filter((rate) => rate.expertId === expertId))?.rateBps
+    ?? latest(inEffect.filter((rate) => rate.expertId === null))?.rateBps
+    ?? DEFAULT_COMMISSION_BPS;
+}
+
+export function computeEarningEntries(payments: Payment[], refunds: Refund[], rates: CommissionRate[]): EarningEntry[] {
+  return payments
+    .filter((payment) => EARNING_PAYMENT_STATUSES.includes(payment.status))
+    .map((payment) => {
+      const gross = Math.round(payment.amount * 100);
+      const refunded = refunds
+        .filter((refund) => refund.paymentId === payment.id && refund.status === "processed")
+        .reduce((sum, refund) => sum + refund.amount, 0);
+      const net = Math.max(0, gross - refunded);
+      const commissionBps = commissionBpsAt(rates, payment.expertId, payment.timestamp);
+      const commission = Math.round(net * commissionBps / 10_000);
+
+      return {
+        paymentId: payment.id,
+        expertId: payment.expertId,
+        date: payment.timestamp,
+        gross,
+        refunded,
+        net,
+        commissionBps,
+        commission,
+        earnings: net - commission
+      };
+    })
+    .sort((a, b) => a.date.getTime() - b.date.getTime() || a.paymentId - b.paymentId);
+}
+
+export function summarizeEarnings(entries: EarningEntry[], payoutItems: PayoutItem[]): EarningsSummary {
+  const total = (pick: (entry: EarningEntry) => number) => entries.reduce((sum, entry) => sum + pick(entry), 0);
+  const paymentIds = new Set(entries.map((entry) => entry.paymentId));
+  const paidOut = payoutItems
+    .filter((item) => paymentIds.has(item.paymentId))
+    .reduce((sum, item) => sum + item.amount, 0);
+  const earnings = total((entry) => entry.earnings);
+
+  return {
+    gross: total((entry) => entry.gross),
+    refunded: total((entry) => entry.refunded),
+    net: total((entry) => entry.net),
+    commission: total((entry) => entry.commission),
+    earnings,
+    paidOut,
+    unpaid: earnings - paidOut
+  };
+}
+
+export async function getExpertEarnings(expertId: number): Promise<EarningEntry[]> {
+  const [payments, refunds, rates] = await Promise.all([
+    storage.getPaymentsByExpert(expertId),
+    storage.getRefundsByExpert(expertId),
+    storage.getCommissionRates()
+  ]);
+
+  return computeEarningEntries(payments, refunds, rates);
+}
+
+// What is still owed for each payment made up to `until`. Refunds after a payout
+// show up as negative amounts that are deducted from the next one.
+export async function getUnpaidEarnings(expertId: number, until: Date): Promise<{ paymentId: number; amount: number }[]> {
+  const [entries, items] = await Promise.all([
+    getExpertEarnings(expertId),
+    storage.getCommittedPayoutItems(expertId)
+  ]);
+
+  return entries
+    .filter((entry) => entry.date.getTime() <= until.getTime())
+    .map((entry) => ({
+      paymentId: entry.paymentId,
+      amount: entry.earnings - items
+        .filter((item) => item.paymentId === entry.paymentId)
+        .reduce((sum, item) => sum + item.amount, 0)
+    }))
+    .filter((item) => item.amount !== 0);
+}
+
+// How often a batch is worked out again when another one was created meanwhile
+const PAYOUT_BATCH_ATTEMPTS = 3;
+
+// Creates a payout for every expert owed a positive amount for payments up to
+// periodEnd. Experts whose balance is negative carry it into the next batch.
+// Returns undefined if a batch for this period already exists.
+export async function runPayoutBatch(periodEnd: Date, createdBy: number) {
+  for (let attempt = 0; attempt < PAYOUT_BATCH_ATTEMPTS; attempt++) {
+    const batches = await storage.getPayoutBatches();
+    if (batches.some((batch) => batch.periodEnd.getTime() === periodEnd.getTime())) return undefined;
+    const lastBatchId = batches.reduce((last, batch) => Math.max(last, batch.id), 0);
+
+    const payouts = [];
+    // Experts who are no longer listed are still paid what they earned
+    for (const expert of await storage.getAllExperts({ includeUnapproved: true })) {
+      const items = await getUnpaidEarnings(expert.id, periodEnd);
+      const amount = items.reduce((sum, item) => sum + item.amount, 0);
+      if (amount > 0) {
+        payouts.push({ payout: { expertId: expert.id, amount }, items });
+      }
+    }
+
+    const result = await storage.createPayoutBatch({ periodEnd, createdBy }, payouts, lastBatchId);
+    if (result) return result;
+  }
+
+  return undefined;
+}
+
+// Overall status of a batch, derived from its payouts. "attention" means one failed.
+export function getBatchStatus(payouts: Payout[]): string {
+  if (payouts.length === 0) return "empty";
+  if (payouts.every((payout) => payout.status === "paid")) return "paid";
+  if (payouts.some((payout) => payout.status === "failed")) return "attention";
+  if (payouts.every((payout) => payout.status === "pending")) return "pending";
+  return "processing";
+}
+
+export function formatEarningEntry(entry: EarningEntry) {
+  return {
+    ...entry,
+    gross: toRupees(entry.gross),
+    refunded: toRupees(entry.refunded),
+    net: toRupees(entry.net),
+    commissionPercent: entry.commissionBps / 100,
+    commission: toRupees(entry.commission),
+    earnings: toRupees(entry.earnings)
+  };
+}
+
+export function formatEarningsSummary(summary: EarningsSummary) {
+  return {
+    gross: toRupees(summary.gross),
+    refunded: toRupees(summary.refunded),
+    net: toRupees(summary.net),
+    commission: toRupees(summary.commission),
+    earnings: toRupees(summary.earnings),
+    paidOut: toRupees(summary.paidOut),
+    unpaid: toRupees(summary.unpaid)
+  };
+}
+
+export function formatPayout(payout: Payout) {
+  return { ...payout, amount: toRupees(payout.amount) };
+}
+
+export function formatCommissionRate(rate: CommissionRate) {
+  return { ...rate, percent: rate.rateBps / 100 };
+}
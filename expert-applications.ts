@@ -0,0 +1,112 @@
+import { z } from "zod";
+import type { Expert } from "@shared/schema";
+import type { ExpertApplication, ExpertApplicationDocument, ExpertDocumentKind } from "./schema";
+import { storage } from "./storage";
+import { sendToUser } from "./websocket";
+import { blobStore, newBlobKey } from "./blob-store";
+import { matchesContentType, sanitizeFileName } from "./attachments";
+import { expertProfileSchema } from "./experts";
+
+// Becoming an expert. A user applies with the profile they want, uploads credentials
+// and an identity document, and an admin approves or rejects the application with
+// notes. Only approval creates a listed expert profile.
+
+export const APPLICATION_DOCUMENT_TYPES = ["application/pdf", "image/jpeg", "image/png"];
+export const MAX_APPLICATION_DOCUMENT_SIZE = 10 * 1024 * 1024;
+export const MAX_APPLICATION_DOCUMENTS = 10;
+export const EXPERT_DOCUMENT_KINDS: ExpertDocumentKind[] = ["credential", "id_document"];
+
+export const expertApplicationInputSchema = expertProfileSchema.extend({
+  categoryId: z.number().int()
+});
+
+export const applicationReviewSchema = z.object({
+  decision: z.enum(["approved", "rejected"]),
+  notes: z.string().trim().min(1).max(2000).optional()
+}).refine((input) => input.decision !== "rejected" || input.notes, {
+  message: "Notes are required when rejecting an application",
+  path: ["notes"]
+});
+
+// Stores a document for a pending application. Returns an error message and status
+// when the file is refused.
+export async function uploadApplicationDocument(
+  application: ExpertApplication,
+  upload: { data: Buffer; contentType: string; kind: ExpertDocumentKind; fileName?: string }
+): Promise<{ document: ExpertApplicationDocument } | { error: string; status: number }> {
+  if (application.status !== "pending") {
+    return { error: "Documents can only be added while the application is pending", status: 409 };
+  }
+
+  const contentType = upload.contentType.split(";")[0].trim().toLowerCase();
+  if (!APPLICATION_DOCUMENT_TYPES.includes(contentType)) {
+    return { error: `Documents must be one of ${APPLICATION_DOCUMENT_TYPES.join(", ")}`, status: 415 };
+  }
+  if (upload.data.length === 0 || upload.data.length > MAX_APPLICATION_DOCUMENT_SIZE) {
+    return { error: `Documents can be at most ${MAX_APPLICATION_DOCUMENT_SIZE / (1024 * 1024)} MB`, status: 413 };
+  }
+  if (!matchesContentType(upload.data, contentType)) {
+    return { error: `File content is not ${contentType}`, status: 400 };
+  }
+
+  const existing = await storage.getExpertApplicationDocuments(application.id);
+  if (existing.length >= MAX_APPLICATION_DOCUMENTS) {
+    return { error: `An application can have at most ${MAX_APPLICATION_DOCUMENTS} documents`, status: 409 };
+  }
+
+  const storageKey = newBlobKey("expert-applications");
+  await blobStore.put(storageKey, upload.data, contentType);
+
+  const document = await storage.addExpertApplicationDocument({
+    applicationId: application.id,
+    kind: upload.kind,
+    contentType,
+    fileName: sanitizeFileName(upload.fileName),
+    size: upload.data.length,
+    storageKey
+  });
+  return { document };
+}
+
+// Approves or rejects a pending application and tells the applicant. An application
+// needs an identity document before it can be approved.
+export async function decideApplication(
+  application: ExpertApplication,
+  input: z.infer<typeof applicationReviewSchema>,
+  reviewerId: number
+): Promise<{ application: ExpertApplication; expert?: Expert } | { error: string }> {
+  if (input.decision === "approved") {
+    const documents = await storage.getExpertApplicationDocuments(application.id);
+    if (!documents.some((document) => document.kind === "id_document")) {
+      return { error: "An identity document is required before approval" };
+    }
+  }
+
+  const result = await storage.reviewExpertApplication(application.id, input.decision, reviewerId, input.notes ?? null);
+  if (!result) return { error: "Application has already been reviewed" };
+
+  sendToUser(application.userId, {
+    type: "expert_application",
+    applicationId: application.id,
+    status: result.application.status,
+    notes: result.application.reviewNotes,
+    expertId: result.expert?.id ?? null
+  });
+  return result;
+}
+
+export function formatApplicationDocument(document: ExpertApplicationDocument) {
+  return {
+    id: document.id,
+    kind: document.kind,
+    contentType: document.contentType,
+    fileName: document.fileName,
+    size: document.size,
+    url: `/api/expert-applications/${document.applicationId}/documents/${document.id}`,
+    createdAt: document.createdAt
+  };
+}
+
+export function formatApplication(application: ExpertApplication, documents: ExpertApplicationDocument[]) {
+  return { ...application, documents: documents.map(formatApplicationDocument) };
+}
@@ -0,0 +1,83 @@
+import { z } from "zod";
+import type { Expert } from "@shared/schema";
+
+// Expert profiles and listings. Prices are hourlyRate in rupees and "available
+// now" means the expert has switched their availability on. An expert belongs to
+// their primary experts.categoryId and to any further categories in expert_categories.
+
+export const MAX_EXPERT_CATEGORIES = 5;
+
+// Fields an expert describes themselves with, when applying and when editing
+export const expertProfileSchema = z.object({
+  specialization: z.string().trim().min(2).max(200),
+  bio: z.string().trim().min(20).max(5000),
+  experience: z.number().int().min(0).max(80),
+  hourlyRate: z.number().int().positive().max(100000),
+  languages: z.array(z.string().trim().min(1).max(50)).min(1).max(20)
+});
+
+// Any subset of the profile. categoryIds replaces the expert's categories; the first
+// one becomes the primary category.
+export const expertProfileUpdateSchema = expertProfileSchema.partial().extend({
+  categoryIds: z.array(z.number().int()).min(1).max(MAX_EXPERT_CATEGORIES)
+    .refine((ids) => new Set(ids).size === ids.length, "categoryIds must not repeat")
+    .optional()
+}).refine((update) => Object.values(update).some((value) => value !== undefined), {
+  message: "Nothing to update"
+});
+
+export type ExpertProfileUpdate = z.infer<typeof expertProfileUpdateSchema>;
+
+export interface ExpertFilters {
+  categoryId?: number;
+  // Matched case-insensitively against experts.languages
+  language?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  minRating?: number;
+  minExperience?: number;
+  availableNow?: boolean;
+}
+
+// Listings are ordered by the sort key and then by id in the same direction.
+// Popularity is the number of sessions an expert has had.
+export const EXPERT_SORT_ORDERS = {
+  rating: "desc",
+  price_asc: "asc",
+  price_desc: "desc",
+  popularity: "desc"
+} as const;
+
+export type ExpertSort = keyof typeof EXPERT_SORT_ORDERS;
+
+export const expertListingQuerySchema = z.object({
+  category: z.coerce.number().int().positive().optional(),
+  language: z.string().trim().min(1).max(50).optional(),
+  minPrice: z.coerce.number().min(0).optional(),
+  maxPrice: z.coerce.number().min(0).optional(),
+  minRating: z.coerce.number().min(0).max(5).optional(),
+  minExperience: z.coerce.number().int().min(0).optional(),
+  availableNow: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  sort: z.enum(["rating", "price_asc", "price_desc", "popularity"]).optional()
+}).refine(
+  (query) => query.minPrice === undefined || query.maxPrice === undefined || query.minPrice <= query.maxPrice,
+  { message: "minPrice cannot be above maxPrice", path: ["maxPrice"] }
+).transform(({ category, sort, ...filters }) => ({
+  filters: { ...filters, categoryId: category } as ExpertFilters,
+  sort: sort as ExpertSort | undefined
+}));
+
+// categoryIds are all of the expert's categories, the primary one included
+export function matchesExpertFilters(expert: Expert, categoryIds: number[], filters: ExpertFilters): boolean {
+  if (filters.categoryId !== undefined && !categoryIds.includes(filters.categoryId)) return false;
+  if (filters.language !== undefined) {
+    const language = filters.language.toLowerCase();
+    if (!(expert.languages ?? []).some((known) => known.toLowerCase() === language)) return false;
+  }
+  if (filters.minPrice !== undefined && expert.hourlyRate < filters.minPrice) return false;
+  if (filters.maxPrice !== undefined && expert.hourlyRate > filters.maxPrice) return false;
+  if (filters.minRating !== undefined && (expert.rating ?? 0) < filters.minRating) return false;
+  if (filters.minExperience !== undefined && expert.experience < filters.minExperience) return false;
+  if (filters.availableNow && !expert.availability) return false;
+  return true;
+}
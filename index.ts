@@ -3,9 +3,20 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  // Payment webhooks are signed over the exact bytes received
+  verify: (req, _res, buf) => {
+    (req as Request).rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 
+// Audit events record the client's address. Behind a reverse proxy, set TRUST_PROXY
+// to the number of proxies in front of the app so it is read from X-Forwarded-For.
+if (process.env.TRUST_PROXY) {
+  app.set("trust proxy", Number(process.env.TRUST_PROXY));
+}
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -0,0 +1,25 @@
+import crypto from "crypto";
+import type { Request } from "express";
+
+// Key that decides whose "quote of the day" is shown: the signed-in user,
+// otherwise the requested locale, otherwise the browser's preferred language.
+export function getInspirationAudienceKey(req: Request): string {
+  if (req.auth) {
+    return `user:${req.auth.userId}`;
+  }
+
+  const locale = typeof req.query.locale === "string" && req.query.locale
+    ? req.query.locale
+    : req.acceptsLanguages()[0];
+
+  return `locale:${(locale && locale !== "*" ? locale : "en").toLowerCase()}`;
+}
+
+// Stable seed for a calendar day (YYYY-MM-DD, UTC) and audience
+export function getDailySeed(date: string, audienceKey: string): number {
+  return crypto.createHash("sha256").update(`${date}:${audienceKey}`).digest().readUInt32BE(0);
+}
+
+export function todayUtc(now = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
@@ -0,0 +1,246 @@
+import type { Payment } from "@shared/schema";
+import type { Invoice, PaymentLineItem } from "./schema";
+import { storage } from "./storage";
+import { toRupees } from "./billing";
+import { DEFAULT_TIMEZONE, toLocalDate } from "./availability";
+import { renderPdf, type PdfLine } from "./pdf";
+
+// Invoices for paid payments. With PLATFORM_GSTIN set they are GST tax invoices;
+// otherwise plain receipts without a tax breakdown. Prices are tax inclusive.
+//
+// - PLATFORM_NAME, PLATFORM_ADDRESS: seller details printed on every invoice
+// - GST_RATE_PERCENT: defaults to 18
+// - GST_TAX_TYPE: "igst" (default) or "cgst_sgst" for intra-state supplies
+// - INVOICE_PREFIX: defaults to "INV"; numbers look like INV/2526/000042
+
+export const INVOICEABLE_PAYMENT_STATUSES = ["succeeded", "partially_refunded", "refunded"];
+
+const platformName = process.env.PLATFORM_NAME || "Uttra";
+const platformAddress = process.env.PLATFORM_ADDRESS || "";
+const invoicePrefix = process.env.INVOICE_PREFIX || "INV";
+
+// The April to March financial year of a date in India, e.g. "2526" for FY 2025-26
+export function financialYearOf(date: Date): string {
+  const [year, month] = toLocalDate(date, DEFAULT_TIMEZONE).split("-").map(Number);
+  const start = month >= 4 ? year : year - 1;
+  return `${String(start % 100).padStart(2, "0")}${String((start + 1) % 100).padStart(2, "0")}`;
+}
+
+export function splitInclusiveTax(total: number, rateBps: number): { taxableAmount: number; taxAmount: number } {
+  const taxableAmount = Math.round(total * 10_000 / (10_000 + rateBps));
+  return { taxableAmount, taxAmount: total - taxableAmount };
+}
+
+// Issues the invoice for a paid payment. Calling it again returns the same invoice;
+// undefined means the payment is not paid.
+export async function issueInvoice(payment: Payment): Promise<Invoice | undefined> {
+  if (!INVOICEABLE_PAYMENT_STATUSES.includes(payment.status)) return undefined;
+
+  const existing = await storage.getInvoiceByPayment(payment.id);
+  if (existing) return existing;
+
+  const [customer, expert, charge] = await Promise.all([
+    storage.getUser(payment.userId),
+    storage.getExpert(payment.expertId),
+    storage.getSessionChargeByPayment(payment.id)
+  ]);
+  const expertUser = expert ? await storage.getUser(expert.userId) : undefined;
+  const session = charge ? await storage.getSession(charge.sessionId) : undefined;
+
+  const gstin = process.env.PLATFORM_GSTIN || null;
+  const taxRateBps = gstin ? Math.round(Number(process.env.GST_RATE_PERCENT ?? 18) * 100) : 0;
+  const total = Math.round(payment.amount * 100);
+  const issuedAt = new Date();
+  const financialYear = financialYearOf(issuedAt);
+
+  return storage.createInvoice({
+    financialYear,
+    paymentId: payment.id,
+    userId: payment.userId,
+    expertId: payment.expertId,
+    sessionId: session?.id ?? null,
+    kind: gstin ? "tax_invoice" : "receipt",
+    issuedAt,
+    customerName: customer?.name ?? `User #${payment.userId}`,
+    expertName: expertUser?.name ?? `Expert #${payment.expertId}`,
+    sessionType: session?.type ?? null,
+    durationSeconds: charge?.durationSeconds ?? null,
+    ratePerMinute: charge?.ratePerMinute ?? null,
+    transactionId: payment.transactionId ?? null,
+    gstin,
+    taxType: gstin ? (process.env.GST_TAX_TYPE === "cgst_sgst" ? "cgst_sgst" : "igst") : null,
+    taxRateBps,
+    ...splitInclusiveTax(total, taxRateBps),
+    total
+  }, (sequence) => `${invoicePrefix}/${financialYear}/${String(sequence).padStart(6, "0")}`);
+}
+
+// Issues the invoices that were missed when their payments went through, e.g. for
+// payments made before invoices existed or when issuing failed. Run at startup.
+export async function issueMissingInvoices(): Promise<void> {
+  for (const payment of await storage.getUninvoicedPayments(INVOICEABLE_PAYMENT_STATUSES)) {
+    try {
+      await issueInvoice(payment);
+    } catch (e) {
+      console.error(`Failed to issue invoice for payment ${payment.id}:`, e);
+    }
+  }
+}
+
+export function formatInvoice(invoice: Invoice) {
+  return {
+    ...invoice,
+    ratePerMinute: invoice.ratePerMinute === null ? null : toRupees(invoice.ratePerMinute),
+    taxRatePercent: invoice.taxRateBps / 100,
+    taxableAmount: toRupees(invoice.taxableAmount),
+    taxAmount: toRupees(invoice.taxAmount),
+    total: toRupees(invoice.total)
+  };
+}
+
+function amount(paise: number): string {
+  return (paise / 100).toFixed(2);
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes} min ${seconds % 60} s`;
+}
+
+// The tax lines of an invoice, split into CGST and SGST for intra-state supplies
+function taxLines(invoice: Invoice): { label: string; amount: number }[] {
+  if (invoice.kind !== "tax_invoice") return [];
+
+  const percent = invoice.taxRateBps / 100;
+  if (invoice.taxType === "cgst_sgst") {
+    const cgst = Math.round(invoice.taxAmount / 2);
+    return [
+      { label: `CGST @ ${percent / 2}%`, amount: cgst },
+      { label: `SGST @ ${percent / 2}%`, amount: invoice.taxAmount - cgst }
+    ];
+  }
+  return [{ label: `IGST @ ${percent}%`, amount: invoice.taxAmount }];
+}
+
+function invoiceTitle(invoice: Invoice): string {
+  return invoice.kind === "tax_invoice" ? "Tax Invoice" : "Receipt";
+}
+
+// Label and value pairs shown in the header of both formats
+function invoiceDetails(invoice: Invoice): [string, string][] {
+  const details: [string, string][] = [
+    ["Invoice number", invoice.number],
+    ["Date", toLocalDate(invoice.issuedAt, DEFAULT_TIMEZONE)],
+    ["Billed to", invoice.customerName],
+    ["Expert", invoice.expertName]
+  ];
+
+  if (invoice.sessionType) details.push(["Session type", invoice.sessionType]);
+  if (invoice.durationSeconds !== null) details.push(["Duration", formatDuration(invoice.durationSeconds)]);
+  if (invoice.ratePerMinute !== null) details.push(["Rate", `INR ${amount(invoice.ratePerMinute)} per minute`]);
+  details.push(["Transaction ID", invoice.transactionId ?? "-"]);
+  if (invoice.gstin) details.push(["GSTIN", invoice.gstin]);
+
+  return details;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function renderInvoiceHtml(invoice: Invoice, lineItems: PaymentLineItem[]): string {
+  const rows = lineItems.length > 0
+    ? lineItems.map((item) => `<tr><td>${escapeHtml(item.description)}</td><td class="num">${item.quantity}</td>`
+      + `<td class="num">${amount(item.unitAmount)}</td><td class="num">${amount(item.amount)}</td></tr>`)
+    : [`<tr><td>Consultation with ${escapeHtml(invoice.expertName)}</td><td class="num">1</td>`
+      + `<td class="num">${amount(invoice.total)}</td><td class="num">${amount(invoice.total)}</td></tr>`];
+
+  const totals = [
+    ...(invoice.kind === "tax_invoice" ? [{ label: "Taxable value", amount: invoice.taxableAmount }] : []),
+    ...taxLines(invoice),
+    { label: "Total (INR)", amount: invoice.total }
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${invoiceTitle(invoice)} ${escapeHtml(invoice.number)}</title>
+<style>
+  body { font-family: Helvetica, Arial, sans-serif; margin: 40px; color: #222; }
+  table { border-collapse: collapse; width: 100%; margin-top: 16px; }
+  th, td { padding: 6px 8px; border-bottom: 1px solid #ddd; text-align: left; }
+  .num { text-align: right; }
+  .details td:first-child { color: #666; width: 160px; }
+  .totals td { border: none; }
+</style>
+</head>
+<body>
+<h1>${invoiceTitle(invoice)}</h1>
+<p><strong>${escapeHtml(platformName)}</strong>${platformAddress ? `<br>${escapeHtml(platformAddress)}` : ""}</p>
+<table class="details">
+${invoiceDetails(invoice).map(([label, value]) => `<tr><td>${label}</td><td>${escapeHtml(value)}</td></tr>`).join("\n")}
+</table>
+<table>
+<tr><th>Description</th><th class="num">Qty</th><th class="num">Rate</th><th class="num">Amount</th></tr>
+${rows.join("\n")}
+</table>
+<table class="totals">
+${totals.map((line) => `<tr><td class="num">${line.label}</td><td class="num" style="width:120px">${amount(line.amount)}</td></tr>`).join("\n")}
+</table>
+${invoice.kind === "tax_invoice" ? "<p>Amounts are inclusive of GST.</p>" : ""}
+</body>
+</html>
+`;
+}
+
+export function renderInvoicePdf(invoice: Invoice, lineItems: PaymentLineItem[]): Buffer {
+  const row = (cells: string[], bold = false): PdfLine => ({
+    text: cells[0],
+    cells: [
+      { text: cells[1], x: 300 },
+      { text: cells[2], x: 350 },
+      { text: cells[3], x: 430 }
+    ],
+    bold
+  });
+
+  const items = lineItems.length > 0
+    ? lineItems.map((item) => row([item.description, String(item.quantity), amount(item.unitAmount), amount(item.amount)]))
+    : [row([`Consultation with ${invoice.expertName}`, "1", amount(invoice.total), amount(invoice.total)])];
+
+  const lines: PdfLine[] = [
+    { text: invoiceTitle(invoice), size: 18, bold: true },
+    { text: platformName, bold: true, spaceBefore: 6 },
+    ...(platformAddress ? [{ text: platformAddress }] : []),
+    ...invoiceDetails(invoice).map(([label, value], i): PdfLine => ({
+      text: label,
+      cells: [{ text: value, x: 120 }],
+      spaceBefore: i === 0 ? 12 : 0
+    })),
+    { ...row(["Description", "Qty", "Rate", "Amount"], true), spaceBefore: 16 },
+    ...items
+  ];
+
+  if (invoice.kind === "tax_invoice") {
+    lines.push({ text: "", cells: [{ text: "Taxable value", x: 300 }, { text: amount(invoice.taxableAmount), x: 430 }], spaceBefore: 8 });
+  }
+  for (const tax of taxLines(invoice)) {
+    lines.push({ text: "", cells: [{ text: tax.label, x: 300 }, { text: amount(tax.amount), x: 430 }] });
+  }
+  lines.push({
+    text: "",
+    cells: [{ text: "Total (INR)", x: 300 }, { text: amount(invoice.total), x: 430 }],
+    bold: true,
+    spaceBefore: invoice.kind === "tax_invoice" ? 0 : 8
+  });
+  if (invoice.kind === "tax_invoice") {
+    lines.push({ text: "Amounts are inclusive of GST.", size: 8, spaceBefore: 16 });
+  }
+
+  return renderPdf(lines);
+}
@@ -0,0 +1,1958 @@
+import { IStorage } from "./storage";
+import {
+  User, Expert, Category, Advice, Session, Message, Booking, Payment, Inspiration, Feedback,
+  InsertUser, InsertExpert, InsertCategory, InsertAdvice, InsertSession, InsertMessage, InsertBooking, InsertPayment, InsertInspiration, InsertFeedback
+} from "@shared/schema";
+import {
+  AuthSession, ExpertSchedule, AvailabilityRule, AvailabilityException, SessionState, SessionStatus,
+  SessionCharge, PaymentLineItem, Wallet, WalletTransaction, WalletHold, PaymentOrder, WebhookEvent,
+  BookingPayment, Refund, Dispute, DisputeStatus, CommissionRate, PayoutBatch, Payout, PayoutStatus, PayoutItem, Invoice,
+  MessageReceipt, ChatReadCursor, Attachment, Review, ReviewStatus, ReviewReport, ReviewReportStatus, ExpertRating,
+  ExpertApplication, ExpertApplicationStatus, ExpertApplicationDocument, ExpertApproval, ExpertCategory, ExpertPriceChange,
+  UserRestriction, AdviceDeactivation, AuditEvent,
+  InsertAuthSession, InsertExpertSchedule, InsertAvailabilityRule, InsertAvailabilityException, InsertSessionState,
+  InsertSessionCharge, InsertPaymentLineItem, InsertWalletTransaction, InsertPaymentOrder, InsertWebhookEvent,
+  InsertRefund, InsertDispute, InsertCommissionRate, InsertPayoutBatch, InsertPayout, InsertPayoutItem, InsertInvoice,
+  InsertAttachment, InsertReviewReport, InsertExpertApplication, InsertExpertApplicationDocument,
+  InsertUserRestriction, InsertAuditEvent
+} from "./schema";
+import { paginateRows, paginateRowsByKey, type Page, type PageRequest } from "./pagination";
+import { EXPERT_SORT_ORDERS, matchesExpertFilters, type ExpertFilters, type ExpertSort, type ExpertProfileUpdate } from "./experts";
+import type { ReviewedFeedback } from "./reviews";
+import type { PaymentFilters } from "./admin";
+import type { AuditEventFilters } from "./audit";
+import { DEFAULT_SLOT_MINUTES, type ScheduledBooking } from "./availability";
+import {
+  expertSearchText, adviceSearchText, categorySearchText, matchScore,
+  type SearchHit, type SearchRequest, type SearchText
+} from "./search";
+import crypto from "crypto";
+import bcrypt from "bcryptjs";
+
+// Auto-incrementing in-memory table keyed by id
+class MemTable<T extends { id: number }> {
+  private rows = new Map<number, T>();
+  private nextId = 1;
+
+  insert(row: Omit<T, "id">): T {
+    const record = { ...row, id: this.nextId++ } as T;
+    this.rows.set(record.id, record);
+    return record;
+  }
+
+  get(id: number): T | undefined {
+    return this.rows.get(id);
+  }
+
+  update(id: number, changes: Partial<T>): T | undefined {
+    const row = this.rows.get(id);
+    if (!row) return undefined;
+
+    const updated = { ...row, ...changes, id };
+    this.rows.set(id, updated);
+    return updated;
+  }
+
+  delete(id: number): boolean {
+    return this.rows.delete(id);
+  }
+
+  all(): T[] {
+    return Array.from(this.rows.values());
+  }
+
+  filter(predicate: (row: T) => boolean): T[] {
+    return this.all().filter(predicate);
+  }
+
+  find(predicate: (row: T) => boolean): T | undefined {
+    return this.all().find(predicate);
+  }
+}
+
+const byTimeDesc = <T>(getTime: (row: T) => Date) => (a: T, b: T) => getTime(b).getTime() - getTime(a).getTime();
+const byTimeAsc = <T>(getTime: (row: T) => Date) => (a: T, b: T) => getTime(a).getTime() - getTime(b).getTime();
+
+// A balance movement: the deltas are applied to the wallet and the entry is written to the ledger
+type WalletEntry = Omit<InsertWalletTransaction, "userId" | "balanceAfter" | "heldAfter"> & {
+  balanceDelta: number;
+  heldDelta: number;
+};
+
+// Complete IStorage implementation kept in process memory. Used for tests and
+// for running the server locally without a database.
+export class MemStorage implements IStorage {
+  private users = new MemTable<User>();
+  private userRestrictions = new Map<number, UserRestriction>();
+  private authSessions = new MemTable<AuthSession>();
+  private experts = new MemTable<Expert>();
+  private expertApprovals = new Map<number, ExpertApproval>();
+  private expertCategories = new MemTable<ExpertCategory>();
+  private expertPriceChanges = new MemTable<ExpertPriceChange>();
+  private expertApplications = new MemTable<ExpertApplication>();
+  private expertApplicationDocuments = new MemTable<ExpertApplicationDocument>();
+  private expertSchedules = new Map<number, ExpertSchedule>();
+  private availabilityRules = new MemTable<AvailabilityRule>();
+  private availabilityExceptions = new MemTable<AvailabilityException>();
+  private categories = new MemTable<Category>();
+  private advices = new MemTable<Advice>();
+  private adviceDeactivations = new Map<number, AdviceDeactivation>();
+  private sessions = new MemTable<Session>();
+  private sessionStates = new Map<number, SessionState>();
+  private messages = new MemTable<Message>();
+  private messageReceipts = new Map<number, MessageReceipt>();
+  private chatReadCursors = new MemTable<ChatReadCursor>();
+  private attachments = new MemTable<Attachment>();
+  private payments = new MemTable<Payment>();
+  private paymentLineItems = new MemTable<PaymentLineItem>();
+  private sessionCharges = new MemTable<SessionCharge>();
+  private wallets = new Map<number, Wallet>();
+  private walletTransactions = new MemTable<WalletTransaction>();
+  private walletHolds = new MemTable<WalletHold>();
+  private paymentOrders = new MemTable<PaymentOrder>();
+  private webhookEvents = new MemTable<WebhookEvent>();
+  private refunds = new MemTable<Refund>();
+  private disputes = new MemTable<Dispute>();
+  private commissionRates = new MemTable<CommissionRate>();
+  private payoutBatches = new MemTable<PayoutBatch>();
+  private payouts = new MemTable<Payout>();
+  private payoutItems = new MemTable<PayoutItem>();
+  private invoices = new MemTable<Invoice>();
+  private bookings = new MemTable<Booking>();
+  // Minutes each booking holds the expert's time, by booking id
+  private bookingLengths = new Map<number, number>();
+  private bookingPayments = new Map<number, BookingPayment>();
+  private inspirations = new MemTable<Inspiration>();
+  private feedback = new MemTable<Feedback>();
+  private reviews = new Map<number, Review>();
+  private reviewReports = new MemTable<ReviewReport>();
+  private expertRatings = new Map<number, ExpertRating>();
+  private auditEvents = new MemTable<AuditEvent>();
+
+  constructor(options: { seed?: boolean } = {}) {
+    if (options.seed !== false) {
+      this.seedSampleData();
+    }
+  }
+
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return this.users.find((user) => user.username === username);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    // Hash the password if it's not already hashed
+    let hashedPassword = insertUser.password;
+    if (!hashedPassword.startsWith("$2a$")) {
+      const salt = await bcrypt.genSalt(10);
+      hashedPassword = await bcrypt.hash(insertUser.password, salt);
+    }
+
+    return this.users.insert({
+      ...insertUser,
+      password: hashedPassword,
+      role: insertUser.role || "user"
+    });
+  }
+
+  async listUsers(role: string | undefined, page: PageRequest): Promise<Page<User>> {
+    return paginateRows(this.users.filter((user) => role === undefined || user.role === role), "asc", page);
+  }
+
+  // Account restriction operations
+  async getUserRestriction(userId: number): Promise<UserRestriction | undefined> {
+    const restriction = this.userRestrictions.get(userId);
+    if (!restriction || (restriction.until && restriction.until.getTime() <= Date.now())) return undefined;
+    return restriction;
+  }
+
+  async restrictUser(insertRestriction: InsertUserRestriction): Promise<UserRestriction> {
+    const restriction: UserRestriction = { until: null, createdAt: new Date(), ...insertRestriction };
+    this.userRestrictions.set(restriction.userId, restriction);
+
+    for (const authSession of this.authSessions.filter((row) => row.userId === restriction.userId && !row.revokedAt)) {
+      this.authSessions.update(authSession.id, { revokedAt: new Date() });
+    }
+    return restriction;
+  }
+
+  async liftUserRestriction(userId: number): Promise<UserRestriction | undefined> {
+    const restriction = this.userRestrictions.get(userId);
+    this.userRestrictions.delete(userId);
+    return restriction;
+  }
+
+  // Auth session operations
+  async createAuthSession(insertAuthSession: InsertAuthSession): Promise<AuthSession> {
+    return this.authSessions.insert({
+      userAgent: null,
+      revokedAt: null,
+      createdAt: new Date(),
+      ...insertAuthSession
+    });
+  }
+
+  async getAuthSession(id: number): Promise<AuthSession | undefined> {
+    return this.authSessions.get(id);
+  }
+
+  async getAuthSessionByRefreshTokenHash(refreshTokenHash: string): Promise<AuthSession | undefined> {
+    return this.authSessions.find((authSession) => authSession.refreshTokenHash === refreshTokenHash);
+  }
+
+  async rotateAuthSessionToken(
+    id: number,
+    previousHash: string,
+    refreshTokenHash: string,
+    expiresAt: Date
+  ): Promise<AuthSession | undefined> {
+    const authSession = this.authSessions.get(id);
+    if (!authSession || authSession.revokedAt || authSession.refreshTokenHash !== previousHash) return undefined;
+
+    return this.authSessions.update(id, { refreshTokenHash, expiresAt });
+  }
+
+  async revokeAuthSession(id: number): Promise<void> {
+    const authSession = this.authSessions.get(id);
+    if (authSession && !authSession.revokedAt) {
+      this.authSessions.update(id, { revokedAt: new Date() });
+    }
+  }
+
+  // Expert operations
+  async getExpert(id: number): Promise<Expert | undefined> {
+    return this.experts.get(id);
+  }
+
+  async getExpertByUserId(userId: number): Promise<Expert | undefined> {
+    return this.experts.find((expert) => expert.userId === userId);
+  }
+
+  async createExpert(insertExpert: InsertExpert, approvedBy: number): Promise<Expert> {
+    const expert = this.experts.insert({ ...insertExpert, updatedAt: new Date() });
+    this.expertApprovals.set(expert.id, { expertId: expert.id, applicationId: null, approvedBy, approvedAt: new Date() });
+    return expert;
+  }
+
+  async updateExpertAvailability(id: number, availability: boolean): Promise<Expert | undefined> {
+    return this.experts.update(id, { availability, updatedAt: new Date() });
+  }
+
+  async updateExpertProfile(id: number, changes: ExpertProfileUpdate, changedBy: number): Promise<Expert | undefined> {
+    const current = this.experts.get(id);
+    if (!current) return undefined;
+
+    const { categoryIds, ...profile } = changes;
+    if (profile.hourlyRate !== undefined && profile.hourlyRate !== current.hourlyRate) {
+      this.expertPriceChanges.insert({
+        expertId: id,
+        previousRate: current.hourlyRate,
+        newRate: profile.hourlyRate,
+        changedBy,
+        createdAt: new Date()
+      });
+    }
+
+    if (categoryIds) {
+      for (const row of this.expertCategories.filter((row) => row.expertId === id)) {
+        this.expertCategories.delete(row.id);
+      }
+      for (const categoryId of categoryIds) {
+        this.expertCategories.insert({ expertId: id, categoryId });
+      }
+    }
+
+    return this.experts.update(id, {
+      ...profile,
+      ...(categoryIds ? { categoryId: categoryIds[0] } : {}),
+      updatedAt: new Date()
+    });
+  }
+
+  async getExpertCategoryIds(expertId: number): Promise<number[]> {
+    const expert = this.experts.get(expertId);
+    if (!expert) return [];
+
+    return this.categoryIdsFor(expert);
+  }
+
+  async getExpertPriceChanges(expertId: number): Promise<ExpertPriceChange[]> {
+    return this.expertPriceChanges
+      .filter((change) => change.expertId === expertId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  private categoryIdsFor(expert: Expert): number[] {
+    const others = this.expertCategories
+      .filter((row) => row.expertId === expert.id && row.categoryId !== expert.categoryId)
+      .map((row) => row.categoryId)
+      .sort((a, b) => a - b);
+    return [expert.categoryId, ...others];
+  }
+
+  async isExpertApproved(expertId: number): Promise<boolean> {
+    return this.expertApprovals.has(expertId);
+  }
+
+  async setExpertApproval(expertId: number, approved: boolean, adminId: number): Promise<void> {
+    if (!approved) {
+      this.expertApprovals.delete(expertId);
+    } else if (!this.expertApprovals.has(expertId)) {
+      this.expertApprovals.set(expertId, { expertId, applicationId: null, approvedBy: adminId, approvedAt: new Date() });
+    }
+  }
+
+  async getAllExperts(options: { includeUnapproved?: boolean } = {}): Promise<Expert[]> {
+    return this.experts.filter((expert) => options.includeUnapproved || this.expertApprovals.has(expert.id));
+  }
+
+  async getExpertsByCategory(categoryId: number): Promise<Expert[]> {
+    return this.experts.filter((expert) => this.categoryIdsFor(expert).includes(categoryId) && this.expertApprovals.has(expert.id));
+  }
+
+  async listExperts(filters: ExpertFilters, sort: ExpertSort | undefined, page: PageRequest): Promise<Page<Expert>> {
+    const matching = this.experts.filter((expert) =>
+      this.expertApprovals.has(expert.id) && matchesExpertFilters(expert, this.categoryIdsFor(expert), filters)
+    );
+    if (!sort) {
+      return paginateRows(matching, "asc", page);
+    }
+
+    const key = (expert: Expert) => {
+      switch (sort) {
+        case "rating":
+          return expert.rating ?? 0;
+        case "price_asc":
+        case "price_desc":
+          return expert.hourlyRate;
+        case "popularity":
+          return this.sessions.filter((session) => session.expertId === expert.id).length;
+      }
+    };
+    const cursorRow = page.cursor === undefined ? undefined : this.experts.get(page.cursor);
+    return paginateRowsByKey(matching, key, EXPERT_SORT_ORDERS[sort], page, cursorRow);
+  }
+
+  // Expert application operations
+  async createExpertApplication(insertApplication: InsertExpertApplication): Promise<ExpertApplication | undefined> {
+    const pending = this.expertApplications.find(
+      (application) => application.userId === insertApplication.userId && application.status === "pending"
+    );
+    if (pending) return undefined;
+
+    return this.expertApplications.insert({
+      status: "pending",
+      reviewNotes: null,
+      reviewedBy: null,
+      reviewedAt: null,
+      expertId: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...insertApplication
+    });
+  }
+
+  async getExpertApplication(id: number): Promise<ExpertApplication | undefined> {
+    return this.expertApplications.get(id);
+  }
+
+  async getExpertApplicationsByUser(userId: number): Promise<ExpertApplication[]> {
+    return this.expertApplications
+      .filter((application) => application.userId === userId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async listExpertApplications(status: ExpertApplicationStatus | undefined, page: PageRequest): Promise<Page<ExpertApplication>> {
+    return paginateRows(
+      this.expertApplications.filter((application) => status === undefined || application.status === status),
+      "asc",
+      page
+    );
+  }
+
+  async addExpertApplicationDocument(insertDocument: InsertExpertApplicationDocument): Promise<ExpertApplicationDocument> {
+    return this.expertApplicationDocuments.insert({ createdAt: new Date(), ...insertDocument });
+  }
+
+  async getExpertApplicationDocument(id: number): Promise<ExpertApplicationDocument | undefined> {
+    return this.expertApplicationDocuments.get(id);
+  }
+
+  async getExpertApplicationDocuments(applicationId: number): Promise<ExpertApplicationDocument[]> {
+    return this.expertApplicationDocuments.filter((document) => document.applicationId === applicationId);
+  }
+
+  async reviewExpertApplication(
+    id: number,
+    decision: "approved" | "rejected",
+    reviewerId: number,
+    notes: string | null
+  ): Promise<{ application: ExpertApplication; expert?: Expert } | undefined> {
+    const current = this.expertApplications.get(id);
+    if (!current || current.status !== "pending") return undefined;
+
+    let expert: Expert | undefined;
+    if (decision === "approved") {
+      const existing = this.experts.find((candidate) => candidate.userId === current.userId);
+      expert = existing
+        ? this.experts.update(existing.id, { ...current.profile, updatedAt: new Date() })!
+        : this.experts.insert({ ...current.profile, userId: current.userId, rating: 0, availability: false, updatedAt: new Date() });
+      this.expertApprovals.set(expert.id, { expertId: expert.id, applicationId: id, approvedBy: reviewerId, approvedAt: new Date() });
+
+      // Admins keep their role; they can act as any expert anyway
+      const user = this.users.get(current.userId);
+      if (user && user.role !== "admin") {
+        this.users.update(user.id, { role: "expert" });
+      }
+    }
+
+    const application = this.expertApplications.update(id, {
+      status: decision,
+      reviewNotes: notes,
+      reviewedBy: reviewerId,
+      reviewedAt: new Date(),
+      expertId: expert?.id ?? null,
+      updatedAt: new Date()
+    })!;
+    return { application, expert };
+  }
+
+  // Availability operations
+  async getExpertSchedule(expertId: number): Promise<ExpertSchedule | undefined> {
+    return this.expertSchedules.get(expertId);
+  }
+
+  async getAvailabilityRules(expertId: number): Promise<AvailabilityRule[]> {
+    return this.availabilityRules
+      .filter((rule) => rule.expertId === expertId)
+      .sort((a, b) => a.dayOfWeek - b.dayOfWeek || a.startMinute - b.startMinute);
+  }
+
+  async saveExpertSchedule(
+    insertSchedule: InsertExpertSchedule,
+    insertRules: Omit<InsertAvailabilityRule, "expertId">[]
+  ): Promise<{ schedule: ExpertSchedule; rules: AvailabilityRule[] }> {
+    const schedule: ExpertSchedule = {
+      expertId: insertSchedule.expertId,
+      timezone: insertSchedule.timezone ?? "Asia/Kolkata",
+      slotMinutes: insertSchedule.slotMinutes ?? 60,
+      updatedAt: new Date()
+    };
+    this.expertSchedules.set(schedule.expertId, schedule);
+
+    // The weekly rules are always replaced as a whole
+    for (const rule of this.availabilityRules.filter((r) => r.expertId === schedule.expertId)) {
+      this.availabilityRules.delete(rule.id);
+    }
+    insertRules.forEach((rule) => this.availabilityRules.insert({ ...rule, expertId: schedule.expertId }));
+
+    return { schedule, rules: await this.getAvailabilityRules(schedule.expertId) };
+  }
+
+  async getAvailabilityExceptions(expertId: number, fromDate: string, toDate: string): Promise<AvailabilityException[]> {
+    return this.availabilityExceptions
+      .filter((exception) =>
+        exception.expertId === expertId && exception.date >= fromDate && exception.date <= toDate)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async createAvailabilityException(insertException: InsertAvailabilityException): Promise<AvailabilityException> {
+    return this.availabilityExceptions.insert({
+      startMinute: null,
+      endMinute: null,
+      isAvailable: false,
+      reason: null,
+      createdAt: new Date(),
+      ...insertException
+    });
+  }
+
+  async deleteAvailabilityException(expertId: number, id: number): Promise<AvailabilityException | undefined> {
+    const exception = this.availabilityExceptions.get(id);
+    if (!exception || exception.expertId !== expertId) return undefined;
+
+    this.availabilityExceptions.delete(id);
+    return exception;
+  }
+
+  // Category operations
+  async getCategory(id: number): Promise<Category | undefined> {
+    return this.categories.get(id);
+  }
+
+  async getAllCategories(): Promise<Category[]> {
+    return this.categories.all();
+  }
+
+  async createCategory(insertCategory: InsertCategory): Promise<Category> {
+    return this.categories.insert(insertCategory);
+  }
+
+  async updateCategory(id: number, changes: Partial<InsertCategory>): Promise<Category | undefined> {
+    return this.categories.update(id, changes);
+  }
+
+  // Advice operations
+  async getAdvice(id: number): Promise<Advice | undefined> {
+    return this.advices.get(id);
+  }
+
+  async getAllAdvices(): Promise<Advice[]> {
+    return this.advices.all();
+  }
+
+  async getAdvicesByExpert(expertId: number): Promise<Advice[]> {
+    return this.advices.filter((advice) => advice.expertId === expertId);
+  }
+
+  async getAdvicesByCategory(categoryId: number): Promise<Advice[]> {
+    return this.advices.filter((advice) => advice.categoryId === categoryId);
+  }
+
+  private activeAdvices(): Advice[] {
+    return this.advices.filter((advice) => !this.adviceDeactivations.has(advice.id));
+  }
+
+  async listAdvices(page: PageRequest): Promise<Page<Advice>> {
+    return paginateRows(this.activeAdvices(), "asc", page);
+  }
+
+  async listAdvicesByExpert(expertId: number, page: PageRequest): Promise<Page<Advice>> {
+    return paginateRows(this.activeAdvices().filter((advice) => advice.expertId === expertId), "asc", page);
+  }
+
+  async listAdvicesByCategory(categoryId: number, page: PageRequest): Promise<Page<Advice>> {
+    return paginateRows(this.activeAdvices().filter((advice) => advice.categoryId === categoryId), "asc", page);
+  }
+
+  async createAdvice(insertAdvice: InsertAdvice): Promise<Advice> {
+    return this.advices.insert(insertAdvice);
+  }
+
+  async isAdviceActive(id: number): Promise<boolean> {
+    return !this.adviceDeactivations.has(id);
+  }
+
+  async setAdviceActive(id: number, isActive: boolean, adminId: number, reason: string | null): Promise<void> {
+    if (isActive) {
+      this.adviceDeactivations.delete(id);
+    } else if (!this.adviceDeactivations.has(id)) {
+      this.adviceDeactivations.set(id, { adviceId: id, reason, deactivatedBy: adminId, createdAt: new Date() });
+    }
+  }
+
+  // Search operations. Rows are scored directly, so there is no index to keep.
+  async search(request: SearchRequest): Promise<SearchHit[]> {
+    const documents: Array<{ kind: SearchHit["kind"]; refId: number; text: SearchText }> = [];
+    if (request.kinds.includes("expert")) {
+      for (const expert of await this.getAllExperts()) {
+        const text = expertSearchText(expert, this.users.get(expert.userId)?.name);
+        documents.push({ kind: "expert", refId: expert.id, text });
+      }
+    }
+    if (request.kinds.includes("advice")) {
+      for (const advice of this.activeAdvices()) {
+        documents.push({ kind: "advice", refId: advice.id, text: adviceSearchText(advice) });
+      }
+    }
+    if (request.kinds.includes("category")) {
+      for (const category of this.categories.all()) {
+        documents.push({ kind: "category", refId: category.id, text: categorySearchText(category) });
+      }
+    }
+
+    return documents
+      .map(({ kind, refId, text }) => ({ kind, refId, score: matchScore(request.query, text) }))
+      .filter((hit) => hit.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, request.limit);
+  }
+
+  async rebuildSearchIndex(): Promise<void> {
+    // Nothing is indexed in memory
+  }
+
+  // Session operations (replaces chat operations)
+  async getSession(id: number): Promise<Session | undefined> {
+    return this.sessions.get(id);
+  }
+
+  async getSessionByUserAndExpert(userId: number, expertId: number): Promise<Session | undefined> {
+    const [session] = this.sessions
+      .filter((s) => s.userId === userId && s.expertId === expertId)
+      .sort(byTimeDesc((s) => s.startTime));
+    return session;
+  }
+
+  async getSessionsByUser(userId: number): Promise<Session[]> {
+    return this.sessions
+      .filter((session) => session.userId === userId)
+      .sort(byTimeDesc((s) => s.startTime));
+  }
+
+  async getSessionsByExpert(expertId: number): Promise<Session[]> {
+    return this.sessions
+      .filter((session) => session.expertId === expertId)
+      .sort(byTimeDesc((s) => s.startTime));
+  }
+
+  async createSession(insertSession: InsertSession, bookingId?: number): Promise<Session> {
+    const session = this.sessions.insert(insertSession);
+    this.sessionStates.set(session.id, {
+      sessionId: session.id,
+      status: "requested",
+      startedAt: null,
+      endedAt: null,
+      durationSeconds: null,
+      endedBy: null,
+      bookingId: bookingId ?? null,
+      updatedAt: new Date()
+    });
+    return session;
+  }
+
+  async getSessionByBooking(bookingId: number): Promise<Session | undefined> {
+    const state = Array.from(this.sessionStates.values()).find((state) => state.bookingId === bookingId);
+    return state ? this.sessions.get(state.sessionId) : undefined;
+  }
+
+  async getSessionState(sessionId: number): Promise<SessionState | undefined> {
+    return this.sessionStates.get(sessionId);
+  }
+
+  async transitionSessionState(
+    sessionId: number,
+    from: SessionStatus[],
+    changes: Partial<Omit<InsertSessionState, "sessionId">>
+  ): Promise<SessionState | undefined> {
+    const state = this.sessionStates.get(sessionId);
+    if (!state || !from.includes(state.status)) return undefined;
+
+    const updated = { ...state, ...changes, sessionId, updatedAt: new Date() };
+    this.sessionStates.set(sessionId, updated);
+    return updated;
+  }
+
+  async getOpenSessionByUserAndExpert(userId: number, expertId: number, type: Session["type"]): Promise<Session | undefined> {
+    const [session] = this.sessions
+      .filter((s) => {
+        const status = this.sessionStates.get(s.id)?.status;
+        return s.userId === userId && s.expertId === expertId && s.type === type
+          && (status === "requested" || status === "active");
+      })
+      .sort(byTimeDesc((s) => s.startTime));
+    return session;
+  }
+
+  // For compatibility with existing code (chats methods)
+  private toChat(session: Session) {
+    return {
+      id: session.id,
+      userId: session.userId,
+      expertId: session.expertId,
+      lastMessageTime: session.startTime
+    };
+  }
+
+  async getChat(id: number): Promise<any> {
+    const session = await this.getSession(id);
+    return session ? this.toChat(session) : undefined;
+  }
+
+  async getChatByUserAndExpert(userId: number, expertId: number): Promise<any> {
+    const session = await this.getSessionByUserAndExpert(userId, expertId);
+    return session ? this.toChat(session) : undefined;
+  }
+
+  // Chat format with the last message and what the viewer has not read
+  private toChatSummary(session: Session, viewerId: number | undefined) {
+    const sessionMessages = this.messages.filter((message) => message.sessionId === session.id);
+    const lastMessage = sessionMessages.reduce<Message | null>((latest, message) =>
+      !latest || message.id > latest.id ? message : latest, null);
+    const lastReadId = viewerId === undefined ? 0 : this.readCursorFor(session.id, viewerId)?.lastReadMessageId ?? 0;
+
+    return {
+      ...this.toChat(session),
+      lastMessageTime: lastMessage?.timestamp ?? session.startTime,
+      lastMessage,
+      unreadCount: viewerId === undefined ? 0 : sessionMessages
+        .filter((message) => message.senderId !== viewerId && message.id > lastReadId).length
+    };
+  }
+
+  async getChatsByUser(userId: number): Promise<any[]> {
+    return (await this.getSessionsByUser(userId)).map((session) => this.toChatSummary(session, userId));
+  }
+
+  async getChatsByExpert(expertId: number): Promise<any[]> {
+    const expert = this.experts.get(expertId);
+    return (await this.getSessionsByExpert(expertId)).map((session) => this.toChatSummary(session, expert?.userId));
+  }
+
+  async createChat(insertChat: any): Promise<any> {
+    const session = await this.createSession({
+      userId: insertChat.userId,
+      expertId: insertChat.expertId,
+      type: "chat",
+      startTime: new Date()
+    });
+    return this.toChat(session);
+  }
+
+  // Message operations
+  async getMessage(id: number): Promise<Message | undefined> {
+    return this.messages.get(id);
+  }
+
+  async getMessagesByChat(chatId: number): Promise<Message[]> {
+    return this.getMessagesBySession(chatId);
+  }
+
+  async getMessagesBySession(sessionId: number): Promise<Message[]> {
+    return this.messages
+      .filter((message) => message.sessionId === sessionId)
+      .sort(byTimeAsc((m) => m.timestamp));
+  }
+
+  async listMessagesBySession(sessionId: number, page: PageRequest): Promise<Page<Message>> {
+    return paginateRows(this.messages.filter((message) => message.sessionId === sessionId), "asc", page);
+  }
+
+  async createMessage(insertMessage: InsertMessage): Promise<Message> {
+    return this.messages.insert({
+      isRead: false,
+      timestamp: new Date(),
+      ...insertMessage
+    });
+  }
+
+  private readCursorFor(sessionId: number, userId: number): ChatReadCursor | undefined {
+    return this.chatReadCursors.find((cursor) => cursor.sessionId === sessionId && cursor.userId === userId);
+  }
+
+  async markMessagesAsRead(sessionId: number, userId: number): Promise<ChatReadCursor | undefined> {
+    const received = this.messages.filter((m) => m.sessionId === sessionId && m.senderId !== userId);
+    if (received.length === 0) return undefined;
+
+    for (const message of received.filter((m) => !m.isRead)) {
+      this.messages.update(message.id, { isRead: true });
+    }
+
+    const latestId = Math.max(...received.map((m) => m.id));
+    const cursor = this.readCursorFor(sessionId, userId);
+    if (!cursor) {
+      return this.chatReadCursors.insert({ sessionId, userId, lastReadMessageId: latestId, updatedAt: new Date() });
+    }
+    return this.chatReadCursors.update(cursor.id, {
+      lastReadMessageId: Math.max(cursor.lastReadMessageId, latestId),
+      updatedAt: new Date()
+    });
+  }
+
+  async getReadCursor(sessionId: number, userId: number): Promise<ChatReadCursor | undefined> {
+    return this.readCursorFor(sessionId, userId);
+  }
+
+  async createChatMessage(
+    insertMessage: InsertMessage,
+    clientMessageId: string | null,
+    attachmentIds: number[]
+  ): Promise<{ message: Message; receipt: MessageReceipt; attachments: Attachment[]; created: boolean } | undefined> {
+    if (clientMessageId !== null) {
+      const existing = Array.from(this.messageReceipts.values()).find((receipt) =>
+        receipt.senderId === insertMessage.senderId && receipt.clientMessageId === clientMessageId);
+      if (existing) {
+        return {
+          message: this.messages.get(existing.messageId)!,
+          receipt: existing,
+          attachments: this.attachments.filter((attachment) => attachment.messageId === existing.messageId),
+          created: false
+        };
+      }
+    }
+
+    const uploads = this.attachments.filter((attachment) => attachmentIds.includes(attachment.id));
+    const claimable = uploads.every((upload) => upload.sessionId === insertMessage.sessionId
+      && upload.uploaderId === insertMessage.senderId
+      && upload.messageId === null);
+    if (uploads.length !== new Set(attachmentIds).size || !claimable) return undefined;
+
+    const message = this.messages.insert({
+      isRead: false,
+      timestamp: new Date(),
+      ...insertMessage
+    });
+    const receipt: MessageReceipt = {
+      messageId: message.id,
+      sessionId: message.sessionId,
+      senderId: message.senderId,
+      clientMessageId,
+      deliveredAt: null
+    };
+    this.messageReceipts.set(message.id, receipt);
+
+    const attached = uploads.map((upload) => this.attachments.update(upload.id, { messageId: message.id })!);
+    return { message, receipt, attachments: attached, created: true };
+  }
+
+  async getMessageReceipts(sessionId: number): Promise<MessageReceipt[]> {
+    return Array.from(this.messageReceipts.values()).filter((receipt) => receipt.sessionId === sessionId);
+  }
+
+  async markMessagesDelivered(sessionId: number, userId: number, messageIds?: number[]): Promise<MessageReceipt[]> {
+    const delivered: MessageReceipt[] = [];
+    for (const receipt of this.messageReceipts.values()) {
+      if (receipt.sessionId !== sessionId || receipt.senderId === userId || receipt.deliveredAt) continue;
+      if (messageIds && !messageIds.includes(receipt.messageId)) continue;
+
+      const updated = { ...receipt, deliveredAt: new Date() };
+      this.messageReceipts.set(receipt.messageId, updated);
+      delivered.push(updated);
+    }
+    return delivered;
+  }
+
+  // Attachment operations
+  async getAttachment(id: number): Promise<Attachment | undefined> {
+    return this.attachments.get(id);
+  }
+
+  async getAttachmentsByMessages(messageIds: number[]): Promise<Attachment[]> {
+    return this.attachments.filter((attachment) => attachment.messageId !== null && messageIds.includes(attachment.messageId));
+  }
+
+  async createAttachment(insertAttachment: InsertAttachment): Promise<Attachment> {
+    return this.attachments.insert({
+      messageId: null,
+      width: null,
+      height: null,
+      durationSeconds: null,
+      thumbnailKey: null,
+      thumbnailContentType: null,
+      createdAt: new Date(),
+      ...insertAttachment
+    });
+  }
+
+  async setAttachmentThumbnail(id: number, thumbnailKey: string, contentType: string): Promise<Attachment | undefined> {
+    return this.attachments.update(id, { thumbnailKey, thumbnailContentType: contentType });
+  }
+
+  // Payment operations
+  async getPayment(id: number): Promise<Payment | undefined> {
+    return this.payments.get(id);
+  }
+
+  async getPaymentsByUser(userId: number): Promise<Payment[]> {
+    return this.payments
+      .filter((payment) => payment.userId === userId)
+      .sort(byTimeDesc((p) => p.timestamp));
+  }
+
+  async getPaymentsByExpert(expertId: number): Promise<Payment[]> {
+    return this.payments
+      .filter((payment) => payment.expertId === expertId)
+      .sort(byTimeDesc((p) => p.timestamp));
+  }
+
+  async listPaymentsByUser(userId: number, page: PageRequest): Promise<Page<Payment>> {
+    return paginateRows(this.payments.filter((payment) => payment.userId === userId), "desc", page);
+  }
+
+  async listPaymentsByExpert(expertId: number, page: PageRequest): Promise<Page<Payment>> {
+    return paginateRows(this.payments.filter((payment) => payment.expertId === expertId), "desc", page);
+  }
+
+  async listPayments(filters: PaymentFilters, page: PageRequest): Promise<Page<Payment>> {
+    const matching = this.payments.filter((payment) =>
+      (filters.userId === undefined || payment.userId === filters.userId)
+      && (filters.expertId === undefined || payment.expertId === filters.expertId)
+      && (filters.status === undefined || payment.status === filters.status)
+      && (filters.transactionId === undefined || payment.transactionId === filters.transactionId)
+    );
+    return paginateRows(matching, "desc", page);
+  }
+
+  async createPayment(insertPayment: InsertPayment): Promise<Payment> {
+    return this.payments.insert({
+      timestamp: new Date(),
+      ...insertPayment,
+      // Generate a transaction ID if not provided
+      transactionId: insertPayment.transactionId || `txn_${crypto.randomBytes(8).toString('hex')}`
+    });
+  }
+
+  async getPaymentLineItems(paymentId: number): Promise<PaymentLineItem[]> {
+    return this.paymentLineItems
+      .filter((item) => item.paymentId === paymentId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async updatePaymentStatus(id: number, status: string, from?: string[]): Promise<Payment | undefined> {
+    const current = this.payments.get(id);
+    if (!current || (from && !from.includes(current.status))) return undefined;
+    return this.payments.update(id, { status });
+  }
+
+  // Session billing operations
+  async getSessionCharge(sessionId: number): Promise<SessionCharge | undefined> {
+    return this.sessionCharges.find((charge) => charge.sessionId === sessionId);
+  }
+
+  async getSessionChargeByPayment(paymentId: number): Promise<SessionCharge | undefined> {
+    return this.sessionCharges.find((charge) => charge.paymentId === paymentId);
+  }
+
+  async createSessionCharge(
+    insertPayment: InsertPayment,
+    insertCharge: Omit<InsertSessionCharge, "paymentId">,
+    insertLineItems: Omit<InsertPaymentLineItem, "paymentId">[]
+  ): Promise<{ payment: Payment; charge: SessionCharge; lineItems: PaymentLineItem[] }> {
+    // No awaits before the insert, so two concurrent calls cannot both create a charge
+    const existing = this.sessionCharges.find((charge) => charge.sessionId === insertCharge.sessionId);
+    if (existing) {
+      return {
+        payment: this.payments.get(existing.paymentId)!,
+        charge: existing,
+        lineItems: this.paymentLineItems.filter((item) => item.paymentId === existing.paymentId)
+      };
+    }
+
+    const payment = this.payments.insert({
+      timestamp: new Date(),
+      ...insertPayment,
+      transactionId: insertPayment.transactionId || `txn_${crypto.randomBytes(8).toString('hex')}`
+    });
+    const charge = this.sessionCharges.insert({
+      minimumApplied: false,
+      createdAt: new Date(),
+      ...insertCharge,
+      paymentId: payment.id
+    });
+    const lineItems = insertLineItems.map((item) => this.paymentLineItems.insert({ ...item, paymentId: payment.id }));
+
+    return { payment, charge, lineItems };
+  }
+
+  // Invoice operations
+  async getInvoice(id: number): Promise<Invoice | undefined> {
+    return this.invoices.get(id);
+  }
+
+  async getInvoiceByPayment(paymentId: number): Promise<Invoice | undefined> {
+    return this.invoices.find((invoice) => invoice.paymentId === paymentId);
+  }
+
+  async getInvoicesByUser(userId: number): Promise<Invoice[]> {
+    return this.invoices
+      .filter((invoice) => invoice.userId === userId)
+      .sort((a, b) => b.issuedAt.getTime() - a.issuedAt.getTime() || b.id - a.id);
+  }
+
+  async getUninvoicedPayments(statuses: string[]): Promise<Payment[]> {
+    const invoiced = new Set(this.invoices.all().map((invoice) => invoice.paymentId));
+    return this.payments
+      .filter((payment) => statuses.includes(payment.status) && !invoiced.has(payment.id))
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async createInvoice(
+    insertInvoice: Omit<InsertInvoice, "sequence" | "number">,
+    formatNumber: (sequence: number) => string
+  ): Promise<Invoice> {
+    const existing = this.invoices.find((invoice) => invoice.paymentId === insertInvoice.paymentId);
+    if (existing) return existing;
+
+    const sequence = this.invoices
+      .filter((invoice) => invoice.financialYear === insertInvoice.financialYear)
+      .reduce((last, invoice) => Math.max(last, invoice.sequence), 0) + 1;
+
+    return this.invoices.insert({
+      sessionId: null,
+      issuedAt: new Date(),
+      sessionType: null,
+      durationSeconds: null,
+      ratePerMinute: null,
+      transactionId: null,
+      gstin: null,
+      taxType: null,
+      taxRateBps: 0,
+      ...insertInvoice,
+      sequence,
+      number: formatNumber(sequence)
+    });
+  }
+
+  // Refund operations
+  async getRefund(id: number): Promise<Refund | undefined> {
+    return this.refunds.get(id);
+  }
+
+  async getRefundsByPayment(paymentId: number): Promise<Refund[]> {
+    return this.refunds
+      .filter((refund) => refund.paymentId === paymentId)
+      .sort(byTimeAsc((refund) => refund.createdAt));
+  }
+
+  private refundedAmount(paymentId: number, statuses: Refund["status"][]): number {
+    return this.refunds
+      .filter((refund) => refund.paymentId === paymentId && statuses.includes(refund.status))
+      .reduce((sum, refund) => sum + refund.amount, 0);
+  }
+
+  async createRefund(insertRefund: InsertRefund): Promise<Refund | undefined> {
+    const payment = this.payments.get(insertRefund.paymentId);
+    if (!payment) return undefined;
+
+    const committed = this.refundedAmount(payment.id, ["pending", "processed"]);
+    if (committed + insertRefund.amount > Math.round(payment.amount * 100)) return undefined;
+
+    return this.refunds.insert({
+      status: "pending",
+      providerRefundId: null,
+      failureReason: null,
+      createdBy: null,
+      createdAt: new Date(),
+      processedAt: null,
+      ...insertRefund
+    });
+  }
+
+  async completeRefund(
+    id: number,
+    status: "processed" | "failed",
+    details: { providerRefundId?: string | null; failureReason?: string | null }
+  ): Promise<Refund | undefined> {
+    const current = this.refunds.get(id);
+    if (!current || current.status !== "pending") return current;
+
+    const refund = this.refunds.update(id, {
+      status,
+      providerRefundId: details.providerRefundId ?? null,
+      failureReason: status === "failed" ? details.failureReason ?? null : null,
+      processedAt: new Date()
+    })!;
+
+    if (status === "failed") return refund;
+
+    const payment = this.payments.get(refund.paymentId)!;
+    const refunded = this.refundedAmount(payment.id, ["processed"]);
+    this.payments.update(payment.id, {
+      status: refunded >= Math.round(payment.amount * 100) ? "refunded" : "partially_refunded"
+    });
+
+    if (refund.destination === "wallet") {
+      this.applyWalletEntry(payment.userId, {
+        type: "credit",
+        amount: refund.amount,
+        balanceDelta: refund.amount,
+        heldDelta: 0,
+        paymentId: payment.id,
+        description: `Refund #${refund.id} for payment #${payment.id}`
+      });
+    }
+
+    return refund;
+  }
+
+  async getRefundsByExpert(expertId: number): Promise<Refund[]> {
+    return this.refunds
+      .filter((refund) => this.payments.get(refund.paymentId)?.expertId === expertId)
+      .sort(byTimeAsc((refund) => refund.createdAt));
+  }
+
+  // Earnings and payout operations
+  async getCommissionRates(): Promise<CommissionRate[]> {
+    return this.commissionRates.all()
+      .sort((a, b) => a.effectiveFrom.getTime() - b.effectiveFrom.getTime() || a.id - b.id);
+  }
+
+  async createCommissionRate(insertRate: InsertCommissionRate): Promise<CommissionRate> {
+    return this.commissionRates.insert({
+      expertId: null,
+      createdBy: null,
+      createdAt: new Date(),
+      ...insertRate
+    });
+  }
+
+  async getPayoutBatches(): Promise<PayoutBatch[]> {
+    return this.payoutBatches.all().sort(byTimeDesc((batch) => batch.periodEnd));
+  }
+
+  async getPayoutBatch(id: number): Promise<PayoutBatch | undefined> {
+    return this.payoutBatches.get(id);
+  }
+
+  async createPayoutBatch(
+    insertBatch: InsertPayoutBatch,
+    insertPayouts: { payout: Omit<InsertPayout, "batchId">; items: Omit<InsertPayoutItem, "payoutId">[] }[],
+    lastBatchId: number
+  ): Promise<{ batch: PayoutBatch; payouts: Payout[] } | undefined> {
+    const periodEnd = insertBatch.periodEnd.getTime();
+    if (this.payoutBatches.find((batch) => batch.periodEnd.getTime() === periodEnd || batch.id > lastBatchId)) {
+      return undefined;
+    }
+
+    const now = new Date();
+    const batch = this.payoutBatches.insert({ createdBy: null, createdAt: now, ...insertBatch });
+    const created = insertPayouts.map(({ payout: insertPayout, items }) => {
+      const payout = this.payouts.insert({
+        status: "pending",
+        reference: null,
+        failureReason: null,
+        createdAt: now,
+        updatedAt: now,
+        paidAt: null,
+        ...insertPayout,
+        batchId: batch.id
+      });
+      items.forEach((item) => this.payoutItems.insert({ ...item, payoutId: payout.id }));
+      return payout;
+    });
+
+    return { batch, payouts: created };
+  }
+
+  async getPayout(id: number): Promise<Payout | undefined> {
+    return this.payouts.get(id);
+  }
+
+  async getPayoutsByBatch(batchId: number): Promise<Payout[]> {
+    return this.payouts
+      .filter((payout) => payout.batchId === batchId)
+      .sort((a, b) => a.expertId - b.expertId);
+  }
+
+  async getPayoutsByExpert(expertId: number): Promise<Payout[]> {
+    return this.payouts
+      .filter((payout) => payout.expertId === expertId)
+      .sort(byTimeDesc((payout) => payout.createdAt));
+  }
+
+  async getCommittedPayoutItems(expertId: number): Promise<PayoutItem[]> {
+    return this.payoutItems.filter((item) => {
+      const payout = this.payouts.get(item.payoutId);
+      return payout !== undefined && payout.expertId === expertId && payout.status !== "failed";
+    });
+  }
+
+  async transitionPayout(
+    id: number,
+    from: PayoutStatus[],
+    changes: Partial<Pick<InsertPayout, "status" | "reference" | "failureReason" | "paidAt">>
+  ): Promise<Payout | undefined> {
+    const payout = this.payouts.get(id);
+    if (!payout || !from.includes(payout.status)) return undefined;
+
+    return this.payouts.update(id, { ...changes, updatedAt: new Date() });
+  }
+
+  // Dispute operations
+  async getDispute(id: number): Promise<Dispute | undefined> {
+    return this.disputes.get(id);
+  }
+
+  async getDisputesByUser(userId: number): Promise<Dispute[]> {
+    return this.disputes
+      .filter((dispute) => dispute.userId === userId)
+      .sort(byTimeDesc((dispute) => dispute.createdAt));
+  }
+
+  async getDisputes(status?: DisputeStatus): Promise<Dispute[]> {
+    return this.disputes
+      .filter((dispute) => !status || dispute.status === status)
+      .sort(byTimeDesc((dispute) => dispute.createdAt));
+  }
+
+  async createDispute(insertDispute: InsertDispute): Promise<Dispute | undefined> {
+    const unresolved = this.disputes.find((dispute) =>
+      dispute.paymentId === insertDispute.paymentId && (dispute.status === "open" || dispute.status === "under_review"));
+    if (unresolved) return undefined;
+
+    const now = new Date();
+    return this.disputes.insert({
+      status: "open",
+      resolution: null,
+      refundId: null,
+      resolvedBy: null,
+      createdAt: now,
+      updatedAt: now,
+      ...insertDispute
+    });
+  }
+
+  async transitionDispute(
+    id: number,
+    from: DisputeStatus[],
+    changes: Partial<Omit<InsertDispute, "id" | "paymentId" | "userId">>
+  ): Promise<Dispute | undefined> {
+    const dispute = this.disputes.get(id);
+    if (!dispute || !from.includes(dispute.status)) return undefined;
+
+    return this.disputes.update(id, { ...changes, updatedAt: new Date() });
+  }
+
+  // Payment order operations
+  async createPaymentOrder(insertOrder: InsertPaymentOrder): Promise<PaymentOrder> {
+    const now = new Date();
+    return this.paymentOrders.insert({
+      paymentId: null,
+      providerPaymentId: null,
+      currency: "INR",
+      status: "pending",
+      failureReason: null,
+      checkout: null,
+      createdAt: now,
+      updatedAt: now,
+      ...insertOrder
+    });
+  }
+
+  async getPaymentOrder(id: number): Promise<PaymentOrder | undefined> {
+    return this.paymentOrders.get(id);
+  }
+
+  async getPaymentOrderByProviderOrderId(provider: string, providerOrderId: string): Promise<PaymentOrder | undefined> {
+    return this.paymentOrders.find((order) => order.provider === provider && order.providerOrderId === providerOrderId);
+  }
+
+  async getPaymentOrdersByPayment(paymentId: number): Promise<PaymentOrder[]> {
+    return this.paymentOrders
+      .filter((order) => order.paymentId === paymentId)
+      .sort(byTimeDesc((order) => order.createdAt));
+  }
+
+  async completePaymentOrder(
+    id: number,
+    status: "succeeded" | "failed",
+    details: { providerPaymentId?: string | null; failureReason?: string | null }
+  ): Promise<{ order: PaymentOrder; completed: boolean; applied: boolean } | undefined> {
+    const current = this.paymentOrders.get(id);
+    if (!current) return undefined;
+    // A failed attempt can still be followed by a successful one on the same order
+    if (current.status === "succeeded" || current.status === status) {
+      return { order: current, completed: false, applied: false };
+    }
+
+    const order = this.paymentOrders.update(id, {
+      status,
+      providerPaymentId: details.providerPaymentId ?? current.providerPaymentId,
+      failureReason: status === "failed" ? details.failureReason ?? null : null,
+      updatedAt: new Date()
+    })!;
+
+    let applied = true;
+    if (order.purpose === "payment" && order.paymentId !== null) {
+      const payment = this.payments.get(order.paymentId);
+      applied = payment?.status === "pending" || payment?.status === "failed";
+      if (applied) {
+        this.payments.update(order.paymentId, status === "succeeded" && order.providerPaymentId
+          ? { status, transactionId: order.providerPaymentId }
+          : { status });
+      } else if (status === "succeeded") {
+        this.applyWalletEntry(order.userId, {
+          type: "credit",
+          amount: order.amount,
+          balanceDelta: order.amount,
+          heldDelta: 0,
+          paymentId: order.paymentId,
+          description: `Order #${order.id} paid after payment #${order.paymentId} was settled`
+        });
+      }
+    }
+
+    if (order.purpose === "wallet_top_up" && status === "succeeded") {
+      this.applyWalletEntry(order.userId, {
+        type: "credit",
+        amount: order.amount,
+        balanceDelta: order.amount,
+        heldDelta: 0,
+        description: `Wallet top-up (order #${order.id})`
+      });
+    }
+
+    return { order, completed: true, applied };
+  }
+
+  async recordWebhookEvent(insertEvent: InsertWebhookEvent): Promise<WebhookEvent> {
+    const existing = this.webhookEvents.find((event) =>
+      event.provider === insertEvent.provider && event.eventId === insertEvent.eventId);
+    if (existing) return existing;
+
+    return this.webhookEvents.insert({
+      receivedAt: new Date(),
+      processedAt: null,
+      ...insertEvent
+    });
+  }
+
+  async markWebhookEventProcessed(id: number): Promise<void> {
+    this.webhookEvents.update(id, { processedAt: new Date() });
+  }
+
+  // Wallet operations. Each method reads and writes without awaiting in between,
+  // which keeps balance updates atomic within the process.
+  async getWallet(userId: number): Promise<Wallet | undefined> {
+    return this.wallets.get(userId);
+  }
+
+  async getWalletTransactions(userId: number): Promise<WalletTransaction[]> {
+    return this.walletTransactions
+      .filter((transaction) => transaction.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async listWalletTransactions(userId: number, page: PageRequest): Promise<Page<WalletTransaction>> {
+    return paginateRows(this.walletTransactions.filter((transaction) => transaction.userId === userId), "desc", page);
+  }
+
+  private walletFor(userId: number): Wallet {
+    let wallet = this.wallets.get(userId);
+    if (!wallet) {
+      wallet = { userId, balance: 0, held: 0, updatedAt: new Date() };
+      this.wallets.set(userId, wallet);
+    }
+    return wallet;
+  }
+
+  private applyWalletEntry(userId: number, entry: WalletEntry): { wallet: Wallet; transaction: WalletTransaction } {
+    const { balanceDelta, heldDelta, ...rest } = entry;
+    const current = this.walletFor(userId);
+    const wallet = {
+      ...current,
+      balance: current.balance + balanceDelta,
+      held: current.held + heldDelta,
+      updatedAt: new Date()
+    };
+    this.wallets.set(userId, wallet);
+
+    const transaction = this.walletTransactions.insert({
+      createdAt: new Date(),
+      ...rest,
+      sessionId: rest.sessionId ?? null,
+      paymentId: rest.paymentId ?? null,
+      userId,
+      balanceAfter: wallet.balance,
+      heldAfter: wallet.held
+    });
+
+    return { wallet, transaction };
+  }
+
+  async creditWallet(
+    userId: number,
+    amount: number,
+    details: { description: string; paymentId?: number }
+  ): Promise<{ wallet: Wallet; transaction: WalletTransaction }> {
+    return this.applyWalletEntry(userId, {
+      type: "credit",
+      amount,
+      balanceDelta: amount,
+      heldDelta: 0,
+      paymentId: details.paymentId,
+      description: details.description
+    });
+  }
+
+  async getWalletHold(sessionId: number): Promise<WalletHold | undefined> {
+    return this.walletHolds.find((hold) => hold.sessionId === sessionId);
+  }
+
+  async getActiveWalletHolds(): Promise<WalletHold[]> {
+    return this.walletHolds.filter((hold) => hold.status === "active");
+  }
+
+  async placeWalletHold(userId: number, sessionId: number, ratePerMinute: number, minimumAmount: number): Promise<WalletHold | undefined> {
+    const existing = this.walletHolds.find((hold) => hold.sessionId === sessionId);
+    if (existing) return existing;
+
+    const wallet = this.walletFor(userId);
+    const available = wallet.balance - wallet.held;
+    if (available < minimumAmount || available <= 0) return undefined;
+
+    const now = new Date();
+    const hold = this.walletHolds.insert({
+      userId,
+      sessionId,
+      amount: available,
+      consumed: 0,
+      ratePerMinute,
+      status: "active",
+      createdAt: now,
+      updatedAt: now
+    });
+
+    this.applyWalletEntry(userId, {
+      type: "hold",
+      amount: available,
+      balanceDelta: 0,
+      heldDelta: available,
+      sessionId,
+      description: `Hold for session #${sessionId}`
+    });
+
+    return hold;
+  }
+
+  async drawDownWalletHold(sessionId: number, consumedTarget: number): Promise<WalletHold | undefined> {
+    const hold = this.walletHolds.find((hold) => hold.sessionId === sessionId);
+    if (!hold || hold.status !== "active") return undefined;
+
+    const drawn = Math.min(consumedTarget, hold.amount) - hold.consumed;
+    if (drawn <= 0) return hold;
+
+    this.applyWalletEntry(hold.userId, {
+      type: "debit",
+      amount: drawn,
+      balanceDelta: -drawn,
+      heldDelta: -drawn,
+      sessionId,
+      description: `Usage for session #${sessionId}`
+    });
+
+    return this.walletHolds.update(hold.id, { consumed: hold.consumed + drawn, updatedAt: new Date() });
+  }
+
+  async settleWalletHold(sessionId: number, total: number, paymentId?: number): Promise<WalletHold | undefined> {
+    const hold = this.walletHolds.find((hold) => hold.sessionId === sessionId);
+    if (!hold || hold.status !== "active") return undefined;
+
+    // The final charge can never take more than was reserved
+    const final = Math.min(Math.max(total, 0), hold.amount);
+    const difference = final - hold.consumed;
+
+    if (difference > 0) {
+      this.applyWalletEntry(hold.userId, {
+        type: "debit",
+        amount: difference,
+        balanceDelta: -difference,
+        heldDelta: -difference,
+        sessionId,
+        paymentId,
+        description: `Charge for session #${sessionId}`
+      });
+    } else if (difference < 0) {
+      this.applyWalletEntry(hold.userId, {
+        type: "credit",
+        amount: -difference,
+        balanceDelta: -difference,
+        heldDelta: 0,
+        sessionId,
+        paymentId,
+        description: `Refund of unused time for session #${sessionId}`
+      });
+    }
+
+    const unused = hold.amount - Math.max(final, hold.consumed);
+    if (unused > 0) {
+      this.applyWalletEntry(hold.userId, {
+        type: "release",
+        amount: unused,
+        balanceDelta: 0,
+        heldDelta: -unused,
+        sessionId,
+        description: `Release of hold for session #${sessionId}`
+      });
+    }
+
+    return this.walletHolds.update(hold.id, { consumed: final, status: "settled", updatedAt: new Date() });
+  }
+
+  // Booking operations
+  async getBooking(id: number): Promise<Booking | undefined> {
+    return this.bookings.get(id);
+  }
+
+  async getBookingsByUser(userId: number): Promise<Booking[]> {
+    return this.bookings
+      .filter((booking) => booking.userId === userId)
+      .sort(byTimeDesc((b) => b.sessionTime));
+  }
+
+  async getBookingsByExpert(expertId: number): Promise<Booking[]> {
+    return this.bookings
+      .filter((booking) => booking.expertId === expertId)
+      .sort(byTimeDesc((b) => b.sessionTime));
+  }
+
+  async createBooking(insertBooking: InsertBooking): Promise<Booking> {
+    return this.bookings.insert({
+      status: "booked",
+      updatedAt: new Date(),
+      ...insertBooking
+    });
+  }
+
+  async createBookingIfSlotFree(insertBooking: InsertBooking, durationMinutes: number): Promise<Booking | undefined> {
+    // The check and the insert run without yielding, so concurrent requests cannot interleave here
+    const start = insertBooking.sessionTime;
+    const end = new Date(start.getTime() + durationMinutes * 60 * 1000);
+    const conflict = this.bookings.find((booking) =>
+      booking.expertId === insertBooking.expertId &&
+      booking.status === "booked" &&
+      booking.sessionTime < end &&
+      this.bookingEnd(booking) > start
+    );
+    if (conflict) return undefined;
+
+    const booking = this.bookings.insert({ status: "booked", updatedAt: new Date(), ...insertBooking });
+    this.bookingLengths.set(booking.id, durationMinutes);
+    return booking;
+  }
+
+  async getBookedBookingsForExpert(expertId: number, from: Date, to: Date): Promise<ScheduledBooking[]> {
+    return this.bookings
+      .filter((booking) =>
+        booking.expertId === expertId &&
+        booking.status === "booked" &&
+        booking.sessionTime < to &&
+        this.bookingEnd(booking) > from)
+      .sort(byTimeAsc((b) => b.sessionTime))
+      .map((booking) => ({ ...booking, durationMinutes: this.bookingDurationOf(booking.id) }));
+  }
+
+  async getBookingDuration(bookingId: number): Promise<number> {
+    return this.bookingDurationOf(bookingId);
+  }
+
+  private bookingDurationOf(bookingId: number): number {
+    return this.bookingLengths.get(bookingId) ?? DEFAULT_SLOT_MINUTES;
+  }
+
+  private bookingEnd(booking: Booking): Date {
+    return new Date(booking.sessionTime.getTime() + this.bookingDurationOf(booking.id) * 60 * 1000);
+  }
+
+  async getBookingPayment(bookingId: number): Promise<Payment | undefined> {
+    const link = this.bookingPayments.get(bookingId);
+    return link ? this.payments.get(link.paymentId) : undefined;
+  }
+
+  async getBookingByPayment(paymentId: number): Promise<Booking | undefined> {
+    const link = Array.from(this.bookingPayments.values()).find((link) => link.paymentId === paymentId);
+    return link ? this.bookings.get(link.bookingId) : undefined;
+  }
+
+  async createBookingPayment(bookingId: number, insertPayment: InsertPayment): Promise<Payment> {
+    const link = this.bookingPayments.get(bookingId);
+    if (link) return this.payments.get(link.paymentId)!;
+
+    const payment = this.payments.insert({
+      timestamp: new Date(),
+      ...insertPayment,
+      transactionId: insertPayment.transactionId || `txn_${crypto.randomBytes(8).toString('hex')}`
+    });
+    this.bookingPayments.set(bookingId, { bookingId, paymentId: payment.id, createdAt: new Date() });
+    return payment;
+  }
+
+  async updateBookingStatus(
+    id: number,
+    status: "booked" | "completed" | "canceled",
+    expectedStatus?: "booked" | "completed" | "canceled"
+  ): Promise<Booking | undefined> {
+    const booking = this.bookings.get(id);
+    if (!booking || (expectedStatus && booking.status !== expectedStatus)) return undefined;
+
+    return this.bookings.update(id, { status, updatedAt: new Date() });
+  }
+
+  // Inspiration operations
+  private activeInspirations(): Inspiration[] {
+    return this.inspirations
+      .filter((inspiration) => inspiration.isActive)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getInspiration(id: number): Promise<Inspiration | undefined> {
+    return this.inspirations.get(id);
+  }
+
+  async getRandomInspiration(): Promise<Inspiration | undefined> {
+    const active = this.activeInspirations();
+    if (active.length === 0) return undefined;
+
+    return active[Math.floor(Math.random() * active.length)];
+  }
+
+  async getDailyInspiration(seed: number): Promise<Inspiration | undefined> {
+    const active = this.activeInspirations();
+    if (active.length === 0) return undefined;
+
+    return active[seed % active.length];
+  }
+
+  async getInspirationsByCategory(categoryId: number): Promise<Inspiration[]> {
+    return this.activeInspirations().filter((inspiration) => inspiration.categoryId === categoryId);
+  }
+
+  async getAllInspirations(): Promise<Inspiration[]> {
+    return this.inspirations.all().sort((a, b) => a.id - b.id);
+  }
+
+  async createInspiration(insertInspiration: InsertInspiration): Promise<Inspiration> {
+    return this.inspirations.insert({ isActive: true, ...insertInspiration });
+  }
+
+  async setInspirationActive(id: number, isActive: boolean): Promise<Inspiration | undefined> {
+    return this.inspirations.update(id, { isActive });
+  }
+
+  // Feedback operations
+  async getFeedback(id: number): Promise<Feedback | undefined> {
+    return this.feedback.get(id);
+  }
+
+  async getFeedbacksByUser(userId: number): Promise<Feedback[]> {
+    return this.feedback
+      .filter((item) => item.userId === userId)
+      .sort(byTimeDesc((f) => f.createdAt));
+  }
+
+  async getFeedbacksByExpert(expertId: number): Promise<Feedback[]> {
+    return this.feedback
+      .filter((item) => item.expertId === expertId)
+      .sort(byTimeDesc((f) => f.createdAt));
+  }
+
+  async getFeedbacksBySession(sessionId: number): Promise<Feedback[]> {
+    return this.feedback
+      .filter((item) => item.sessionId === sessionId)
+      .sort(byTimeDesc((f) => f.createdAt));
+  }
+
+  async createFeedback(insertFeedback: InsertFeedback): Promise<Feedback> {
+    return this.feedback.insert({ createdAt: new Date(), ...insertFeedback });
+  }
+
+  // Review operations
+  async createReview(
+    insertFeedback: InsertFeedback & { sessionId: number; expertId: number }
+  ): Promise<{ feedback: Feedback; review: Review } | undefined> {
+    const existing = Array.from(this.reviews.values()).find((review) => review.sessionId === insertFeedback.sessionId);
+    if (existing) return undefined;
+
+    const feedbackItem = this.feedback.insert({ createdAt: new Date(), ...insertFeedback });
+    const review: Review = {
+      feedbackId: feedbackItem.id,
+      sessionId: insertFeedback.sessionId,
+      expertId: insertFeedback.expertId,
+      status: "published",
+      reply: null,
+      repliedAt: null,
+      moderatedBy: null,
+      moderationReason: null,
+      moderatedAt: null,
+      createdAt: new Date()
+    };
+    this.reviews.set(review.feedbackId, review);
+
+    this.refreshExpertRating(review.expertId);
+    return { feedback: feedbackItem, review };
+  }
+
+  async getReview(feedbackId: number): Promise<Review | undefined> {
+    return this.reviews.get(feedbackId);
+  }
+
+  async listReviewsByExpert(expertId: number, page: PageRequest): Promise<Page<ReviewedFeedback>> {
+    const published = this.feedback.all().flatMap((item) => {
+      const review = this.reviews.get(item.id);
+      return review && review.expertId === expertId && review.status === "published" ? [{ ...item, review }] : [];
+    });
+    return paginateRows(published, "desc", page);
+  }
+
+  async setReviewReply(feedbackId: number, reply: string | null): Promise<Review | undefined> {
+    const review = this.reviews.get(feedbackId);
+    if (!review) return undefined;
+
+    const updated = { ...review, reply, repliedAt: reply === null ? null : new Date() };
+    this.reviews.set(feedbackId, updated);
+    return updated;
+  }
+
+  async moderateReview(
+    feedbackId: number,
+    status: ReviewStatus,
+    moderatorId: number,
+    reason: string | null
+  ): Promise<Review | undefined> {
+    const review = this.reviews.get(feedbackId);
+    if (!review) return undefined;
+
+    const updated = { ...review, status, moderatedBy: moderatorId, moderationReason: reason, moderatedAt: new Date() };
+    this.reviews.set(feedbackId, updated);
+
+    for (const report of this.reviewReports.filter((r) => r.feedbackId === feedbackId && r.status === "open")) {
+      this.reviewReports.update(report.id, {
+        status: status === "hidden" ? "upheld" : "dismissed",
+        resolvedBy: moderatorId,
+        resolvedAt: new Date()
+      });
+    }
+
+    this.refreshExpertRating(review.expertId);
+    return updated;
+  }
+
+  async getExpertRating(expertId: number): Promise<ExpertRating | undefined> {
+    return this.expertRatings.get(expertId);
+  }
+
+  async createReviewReport(insertReport: InsertReviewReport): Promise<ReviewReport | undefined> {
+    const existing = this.reviewReports.find(
+      (report) => report.feedbackId === insertReport.feedbackId && report.reporterId === insertReport.reporterId
+    );
+    if (existing) return undefined;
+
+    return this.reviewReports.insert({
+      status: "open",
+      resolvedBy: null,
+      resolvedAt: null,
+      createdAt: new Date(),
+      ...insertReport
+    });
+  }
+
+  async listReviewReports(status: ReviewReportStatus | undefined, page: PageRequest): Promise<Page<ReviewReport>> {
+    return paginateRows(this.reviewReports.filter((report) => status === undefined || report.status === status), "desc", page);
+  }
+
+  private refreshExpertRating(expertId: number) {
+    const ratings = Array.from(this.reviews.values())
+      .filter((review) => review.expertId === expertId && review.status === "published")
+      .map((review) => this.feedback.get(review.feedbackId)?.rating ?? 0);
+    const ratingTotal = ratings.reduce((sum, rating) => sum + rating, 0);
+
+    this.expertRatings.set(expertId, { expertId, reviewCount: ratings.length, ratingTotal, updatedAt: new Date() });
+    this.experts.update(expertId, {
+      rating: ratings.length === 0 ? 0 : Math.round((ratingTotal / ratings.length) * 10) / 10,
+      updatedAt: new Date()
+    });
+  }
+
+  // Audit log operations
+  async createAuditEvent(insertEvent: InsertAuditEvent): Promise<AuditEvent> {
+    return this.auditEvents.insert({
+      actorId: null,
+      targetId: null,
+      before: null,
+      after: null,
+      details: null,
+      ip: null,
+      createdAt: new Date(),
+      ...insertEvent
+    });
+  }
+
+  async listAuditEvents(filters: AuditEventFilters, page: PageRequest): Promise<Page<AuditEvent>> {
+    const matching = this.auditEvents.filter((event) =>
+      (filters.actorId === undefined || event.actorId === filters.actorId)
+      && (filters.action === undefined || event.action === filters.action)
+      && (filters.targetType === undefined || event.targetType === filters.targetType)
+      && (filters.targetId === undefined || event.targetId === filters.targetId)
+      && (filters.ip === undefined || event.ip === filters.ip)
+      && (filters.from === undefined || event.createdAt >= filters.from)
+      && (filters.to === undefined || event.createdAt <= filters.to)
+    );
+    return paginateRows(matching, "desc", page);
+  }
+
+  // Sample data. Everything is inserted synchronously in a fixed order, so ids are
+  // the same on every start: users 1-6, experts 1-4, categories 1-6.
+  private seedSampleData() {
+    // All sample accounts use "password123"
+    const password = bcrypt.hashSync("password123", 10);
+
+    const categoryIds: Record<string, number> = {};
+    const sampleCategories: InsertCategory[] = [
+      {
+        name: "Life Advice",
+        description: "Get guidance on personal life decisions and challenges",
+        icon: "heart"
+      },
+      {
+        name: "Career Guidance",
+        description: "Professional advice for career growth and decisions",
+        icon: "briefcase"
+      },
+      {
+        name: "Family Matters",
+        description: "Advice on family relationships and parenting",
+        icon: "users"
+      },
+      {
+        name: "Health & Wellness",
+        description: "Guidance for physical and mental wellbeing",
+        icon: "activity"
+      },
+      {
+        name: "Financial Planning",
+        description: "Expert advice on managing your finances",
+        icon: "dollar-sign"
+      },
+      {
+        name: "Spiritual Guidance",
+        description: "Find your path with spiritual and philosophical advice",
+        icon: "compass"
+      }
+    ];
+    for (const category of sampleCategories) {
+      categoryIds[category.name] = this.categories.insert(category).id;
+    }
+
+    const sampleUser = this.users.insert({
+      username: "user1",
+      password,
+      name: "Rahul Singh",
+      email: "rahul@example.com",
+      avatar: "https://randomuser.me/api/portraits/men/32.jpg",
+      role: "user"
+    });
+
+    // Enough prepaid balance to try out paid sessions
+    this.applyWalletEntry(sampleUser.id, {
+      type: "credit",
+      amount: 100000,
+      balanceDelta: 100000,
+      heldDelta: 0,
+      description: "Sample balance"
+    });
+
+    const sampleExperts: Array<{
+      user: Omit<InsertUser, "password" | "role">;
+      expert: Omit<InsertExpert, "userId">;
+    }> = [
+      {
+        user: {
+          username: "priyanka_expert",
+          name: "Priyanka Sharma",
+          email: "priyanka@example.com",
+          avatar: "https://randomuser.me/api/portraits/women/44.jpg"
+        },
+        expert: {
+          bio: "Experienced advisor with over 10 years helping people find their path.",
+          specialization: "Life Advice & Family Counseling",
+          experience: 10,
+          rating: 5,
+          hourlyRate: 1000,
+          availability: true,
+          languages: ["English", "Hindi"],
+          categoryId: categoryIds["Life Advice"]
+        }
+      },
+      {
+        user: {
+          username: "amit_expert",
+          name: "Amit Patel",
+          email: "amit@example.com",
+          avatar: "https://randomuser.me/api/portraits/men/62.jpg"
+        },
+        expert: {
+          bio: "Experienced advisor with over 12 years helping people find their path.",
+          specialization: "Career & Financial Planning",
+          experience: 12,
+          rating: 4,
+          hourlyRate: 1500,
+          availability: true,
+          languages: ["English", "Hindi"],
+          categoryId: categoryIds["Financial Planning"]
+        }
+      },
+      {
+        user: {
+          username: "ananya_expert",
+          name: "Ananya Desai",
+          email: "ananya@example.com",
+          avatar: "https://randomuser.me/api/portraits/women/65.jpg"
+        },
+        expert: {
+          bio: "Experienced advisor with over 7 years helping people find their path.",
+          specialization: "Spiritual & Wellness Guidance",
+          experience: 7,
+          rating: 4,
+          hourlyRate: 1000,
+          availability: true,
+          languages: ["English", "Hindi"],
+          categoryId: categoryIds["Spiritual Guidance"]
+        }
+      },
+      {
+        user: {
+          username: "vikram_expert",
+          name: "Vikram Reddy",
+          email: "vikram@example.com",
+          avatar: "https://randomuser.me/api/portraits/men/45.jpg"
+        },
+        expert: {
+          bio: "Experienced advisor with over 15 years helping people find their path.",
+          specialization: "Career Development",
+          experience: 15,
+          rating: 5,
+          hourlyRate: 2000,
+          availability: true,
+          languages: ["English", "Hindi"],
+          categoryId: categoryIds["Career Guidance"]
+        }
+      }
+    ];
+
+    const expertIds: Record<string, number> = {};
+    for (const sample of sampleExperts) {
+      const user = this.users.insert({ ...sample.user, password, role: "expert" });
+      const expert = this.experts.insert({ ...sample.expert, userId: user.id, updatedAt: new Date() });
+      this.expertApprovals.set(expert.id, { expertId: expert.id, applicationId: null, approvedBy: null, approvedAt: new Date() });
+      expertIds[sample.user.username] = expert.id;
+
+      // Weekdays, 10:00 to 18:00 India time
+      this.expertSchedules.set(expert.id, {
+        expertId: expert.id,
+        timezone: "Asia/Kolkata",
+        slotMinutes: 60,
+        updatedAt: new Date()
+      });
+      for (let dayOfWeek = 1; dayOfWeek <= 5; dayOfWeek++) {
+        this.availabilityRules.insert({ expertId: expert.id, dayOfWeek, startMinute: 600, endMinute: 1080 });
+      }
+    }
+
+    this.users.insert({
+      username: "admin",
+      password,
+      name: "Uttra Admin",
+      email: "admin@example.com",
+      avatar: null,
+      role: "admin"
+    });
+
+    const sampleAdvices: Array<[string, string, string, string, number]> = [
+      ["Life Advice", "priyanka_expert", "Finding Balance in Daily Life", "Focus on creating structured routines and dedicated time for self-care. Try the 5-minute meditation technique each morning to center yourself.", 5],
+      ["Life Advice", "priyanka_expert", "Dealing with Difficult Decisions", "When facing difficult choices, use the 'pros and cons' method but add a column for your emotional response to each outcome. Your feelings matter as much as logical factors.", 4],
+      ["Career Guidance", "vikram_expert", "Transitioning to a New Career", "Start with skills assessment first. Identify transferable skills from your current role, then build a transition plan with achievable milestones over 6-12 months.", 5],
+      ["Career Guidance", "vikram_expert", "Negotiating Salary Effectively", "Research industry standards thoroughly before negotiations. Present your value with specific achievements and be ready with a minimum acceptable figure plus ideal compensation package.", 5],
+      ["Financial Planning", "amit_expert", "Starting Your Investment Journey", "Begin with building an emergency fund of 6 months' expenses. Then allocate investments across fixed deposits, mutual funds, and stocks based on your risk profile and financial goals.", 4],
+      ["Financial Planning", "amit_expert", "Planning for Early Retirement", "Calculate your retirement corpus based on 25-30 times your annual expenses. Create multiple income streams with dividends, rental income, and systematic withdrawal plans.", 5],
+      ["Spiritual Guidance", "ananya_expert", "Finding Inner Peace", "Practice mindfulness daily by focusing on your breath for just 10 minutes. Try walking meditation where you concentrate on each step, becoming fully present in the moment.", 5],
+      ["Spiritual Guidance", "ananya_expert", "Connecting with Your Purpose", "Write your own eulogy as if you lived your ideal life. What would you want people to say about your contributions and character? This reveals your deepest values and direction.", 4],
+      ["Family Matters", "priyanka_expert", "Improving Communication with Teenagers", "Create regular 'no-tech' time where phones are put away. Ask open-ended questions about their interests rather than their day, and practice active listening without judgment.", 5],
+      ["Family Matters", "priyanka_expert", "Navigating Family Conflicts", "Use the 'speaker-listener' technique where one person speaks without interruption while others listen, then roles reverse. Focus on 'I feel' statements rather than accusations.", 4],
+      ["Health & Wellness", "ananya_expert", "Creating Sustainable Fitness Habits", "Start with just 5 minutes of exercise daily, focusing on consistency over intensity. Add active habits to existing routines, like squats while brushing teeth or walking during phone calls.", 4],
+      ["Health & Wellness", "ananya_expert", "Managing Stress Naturally", "Try 4-7-8 breathing: inhale for 4 counts, hold for 7, exhale for 8. Practice progressive muscle relaxation before bed, tensing and releasing each muscle group from toes to head.", 5]
+    ];
+    for (const [category, expert, title, description, rating] of sampleAdvices) {
+      this.advices.insert({
+        title,
+        description,
+        expertId: expertIds[expert],
+        categoryId: categoryIds[category],
+        rating
+      });
+    }
+  }
+}
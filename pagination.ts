@@ -0,0 +1,144 @@
+import type { Request } from "express";
+
+// Cursor pagination for list endpoints. Every list has a fixed order: `after`
+// pages forward from a cursor and `before` pages backward from it, and items
+// always come back in list order. nextCursor continues in the direction being
+// paged and is null on the last page.
+
+export const DEFAULT_PAGE_LIMIT = 20;
+export const MAX_PAGE_LIMIT = 100;
+
+export interface PageRequest {
+  limit: number;
+  direction: "forward" | "backward";
+  // Id of the item to continue from, exclusive. Omitted for the first page.
+  cursor?: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: number | null;
+}
+
+// Cursors are opaque to clients so what they hold can change without breaking them
+export function encodeCursor(id: number): string {
+  return Buffer.from(JSON.stringify({ id })).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): number | undefined {
+  try {
+    const { id } = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    return Number.isInteger(id) ? id : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Reads limit, before and after from a query string; undefined if they are invalid.
+// Without a cursor a list is read from its start, or from its end with fromEnd, as
+// for chat history where the latest messages are wanted first.
+export function parsePageRequest(query: Request["query"], options: { fromEnd?: boolean } = {}): PageRequest | undefined {
+  const { limit, before, after } = query;
+  if (before !== undefined && after !== undefined) return undefined;
+
+  let pageLimit = DEFAULT_PAGE_LIMIT;
+  if (limit !== undefined) {
+    pageLimit = Number(limit);
+    if (!Number.isInteger(pageLimit) || pageLimit < 1 || pageLimit > MAX_PAGE_LIMIT) return undefined;
+  }
+
+  const cursorParam = before ?? after;
+  if (cursorParam === undefined) {
+    return { limit: pageLimit, direction: options.fromEnd ? "backward" : "forward" };
+  }
+
+  const cursor = typeof cursorParam === "string" ? decodeCursor(cursorParam) : undefined;
+  if (cursor === undefined) return undefined;
+
+  return { limit: pageLimit, direction: before !== undefined ? "backward" : "forward", cursor };
+}
+
+// The response body for a page, with the items optionally formatted
+export function formatPage<T>(page: Page<T>): { items: T[]; nextCursor: string | null };
+export function formatPage<T, U>(page: Page<T>, format: (item: T) => U): { items: U[]; nextCursor: string | null };
+export function formatPage<T, U>(page: Page<T>, format?: (item: T) => U) {
+  return {
+    items: format ? page.items.map(format) : page.items,
+    nextCursor: page.nextCursor === null ? null : encodeCursor(page.nextCursor)
+  };
+}
+
+// Whether a page of a list ordered by id is read in ascending id order. Backward
+// pages are read from the cursor outwards and reversed afterwards.
+export function fetchesAscending(order: "asc" | "desc", page: PageRequest): boolean {
+  return (order === "asc") === (page.direction === "forward");
+}
+
+// Builds a page from up to limit + 1 rows read in fetch order; the extra row only
+// tells whether another page follows
+export function toPage<T extends { id: number }>(fetched: T[], page: PageRequest): Page<T> {
+  const items = fetched.slice(0, page.limit);
+  const nextCursor = fetched.length > page.limit ? items[items.length - 1].id : null;
+
+  return {
+    items: page.direction === "backward" ? items.reverse() : items,
+    nextCursor
+  };
+}
+
+// One page of rows held in memory, for a list ordered by id
+export function paginateRows<T extends { id: number }>(rows: T[], order: "asc" | "desc", page: PageRequest): Page<T> {
+  const ascending = fetchesAscending(order, page);
+  const fetched = rows
+    .filter((row) => page.cursor === undefined || (ascending ? row.id > page.cursor : row.id < page.cursor))
+    .sort((a, b) => ascending ? a.id - b.id : b.id - a.id)
+    .slice(0, page.limit + 1);
+
+  return toPage(fetched, page);
+}
+
+// One page of rows held in memory, for a list ordered by a key and then by id in
+// the same direction. The cursor row is passed in because it may be filtered out of
+// rows; without it a cursor page is empty.
+export function paginateRowsByKey<T extends { id: number }>(
+  rows: T[],
+  key: (row: T) => number,
+  order: "asc" | "desc",
+  page: PageRequest,
+  cursorRow?: T
+): Page<T> {
+  if (page.cursor !== undefined && !cursorRow) return { items: [], nextCursor: null };
+
+  const ascending = fetchesAscending(order, page);
+  const compare = (a: T, b: T) => (key(a) - key(b)) || (a.id - b.id);
+  const fetched = rows
+    .filter((row) => !cursorRow || (ascending ? compare(row, cursorRow) > 0 : compare(row, cursorRow) < 0))
+    .sort((a, b) => ascending ? compare(a, b) : compare(b, a))
+    .slice(0, page.limit + 1);
+
+  return toPage(fetched, page);
+}
+
+// One page of a list in some other order, e.g. bookings by session time. The cursor
+// item is looked up by id, so the page is undefined once that item has left the list.
+export function paginateList<T extends { id: number }>(items: T[], page: PageRequest): Page<T> | undefined {
+  let start = 0;
+  let end = items.length;
+  if (page.cursor !== undefined) {
+    const index = items.findIndex((item) => item.id === page.cursor);
+    if (index === -1) return undefined;
+
+    if (page.direction === "forward") start = index + 1;
+    else end = index;
+  }
+
+  if (page.direction === "forward") {
+    const pageItems = items.slice(start, start + page.limit);
+    const hasMore = start + page.limit < end;
+    return { items: pageItems, nextCursor: hasMore ? pageItems[pageItems.length - 1].id : null };
+  }
+
+  const from = Math.max(start, end - page.limit);
+  const pageItems = items.slice(from, end);
+  return { items: pageItems, nextCursor: from > start ? pageItems[0].id : null };
+}
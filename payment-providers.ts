@@ -0,0 +1,219 @@
+import crypto from "crypto";
+import type { IncomingHttpHeaders } from "http";
+
+// Payment providers follow the create order -> client checkout -> signed webhook flow.
+// Amounts are in paise.
+
+export interface ProviderOrder {
+  providerOrderId: string;
+  // Whatever the client needs to open the provider's checkout
+  checkout: Record<string, unknown>;
+}
+
+export interface ProviderWebhookEvent {
+  eventId: string;
+  type: string;
+  providerOrderId: string | null;
+  providerPaymentId: string | null;
+  // null for events that do not settle an order
+  outcome: "succeeded" | "failed" | null;
+  failureReason: string | null;
+  payload: unknown;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  createOrder(order: { amount: number; currency: string; receipt: string }): Promise<ProviderOrder>;
+  // Checks the signature the checkout hands back to the client on success
+  verifyPaymentSignature(providerOrderId: string, providerPaymentId: string, signature: string): boolean;
+  // Returns null when the signature does not match the raw body
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): ProviderWebhookEvent | null;
+  // Returns `amount` of a captured payment to the card or account it came from
+  refund(providerPaymentId: string, amount: number): Promise<{ providerRefundId: string }>;
+}
+
+function hmacHex(secret: string, value: string | Buffer): string {
+  return crypto.createHmac("sha256", secret).update(value).digest("hex");
+}
+
+function signaturesMatch(expected: string, actual: string | undefined): boolean {
+  if (!actual) return false;
+
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+function header(headers: IncomingHttpHeaders, name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+// Razorpay, talking to its REST API directly
+export class RazorpayProvider implements PaymentProvider {
+  readonly name = "razorpay";
+
+  constructor(
+    private readonly keyId: string,
+    private readonly keySecret: string,
+    private readonly webhookSecret: string
+  ) {}
+
+  private request(path: string, body: unknown): Promise<Response> {
+    return fetch(`https://api.razorpay.com/v1${path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Basic ${Buffer.from(`${this.keyId}:${this.keySecret}`).toString("base64")}`
+      },
+      body: JSON.stringify(body)
+    });
+  }
+
+  private async parse<T>(response: Response, action: string): Promise<T> {
+    if (!response.ok) {
+      throw new Error(`Razorpay ${action} failed with status ${response.status}: ${await response.text()}`);
+    }
+    return await response.json() as T;
+  }
+
+  async createOrder(order: { amount: number; currency: string; receipt: string }): Promise<ProviderOrder> {
+    const response = await this.request("/orders", order);
+    const created = await this.parse<{ id: string }>(response, "order creation");
+    return {
+      providerOrderId: created.id,
+      checkout: { key: this.keyId, orderId: created.id, amount: order.amount, currency: order.currency }
+    };
+  }
+
+  async refund(providerPaymentId: string, amount: number): Promise<{ providerRefundId: string }> {
+    const response = await this.request(`/payments/${encodeURIComponent(providerPaymentId)}/refund`, { amount });
+    const refund = await this.parse<{ id: string }>(response, "refund");
+    return { providerRefundId: refund.id };
+  }
+
+  verifyPaymentSignature(providerOrderId: string, providerPaymentId: string, signature: string): boolean {
+    return signaturesMatch(hmacHex(this.keySecret, `${providerOrderId}|${providerPaymentId}`), signature);
+  }
+
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): ProviderWebhookEvent | null {
+    if (!signaturesMatch(hmacHex(this.webhookSecret, rawBody), header(headers, "x-razorpay-signature"))) {
+      return null;
+    }
+
+    const body = JSON.parse(rawBody.toString("utf8"));
+    const payment = body.payload?.payment?.entity;
+    const outcomes: Record<string, "succeeded" | "failed"> = {
+      "payment.captured": "succeeded",
+      "order.paid": "succeeded",
+      "payment.failed": "failed"
+    };
+
+    return {
+      // Razorpay repeats the event id header on every redelivery
+      eventId: header(headers, "x-razorpay-event-id") ?? hmacHex(this.webhookSecret, rawBody),
+      type: body.event,
+      providerOrderId: payment?.order_id ?? body.payload?.order?.entity?.id ?? null,
+      providerPaymentId: payment?.id ?? null,
+      outcome: outcomes[body.event] ?? null,
+      failureReason: payment?.error_description ?? null,
+      payload: body
+    };
+  }
+}
+
+// Offline stand-in with the same signing scheme as a real provider. Payments are
+// "made" by calling simulatePayment, which returns what the checkout and the
+// webhook would have delivered.
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = "mock";
+
+  constructor(private readonly secret: string) {}
+
+  async createOrder(order: { amount: number; currency: string; receipt: string }): Promise<ProviderOrder> {
+    const providerOrderId = `order_mock_${crypto.randomBytes(8).toString("hex")}`;
+    return {
+      providerOrderId,
+      checkout: { orderId: providerOrderId, amount: order.amount, currency: order.currency }
+    };
+  }
+
+  verifyPaymentSignature(providerOrderId: string, providerPaymentId: string, signature: string): boolean {
+    return signaturesMatch(hmacHex(this.secret, `${providerOrderId}|${providerPaymentId}`), signature);
+  }
+
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): ProviderWebhookEvent | null {
+    if (!signaturesMatch(hmacHex(this.secret, rawBody), header(headers, "x-mock-signature"))) {
+      return null;
+    }
+
+    const body = JSON.parse(rawBody.toString("utf8"));
+    return {
+      eventId: body.id,
+      type: body.type,
+      providerOrderId: body.orderId ?? null,
+      providerPaymentId: body.paymentId ?? null,
+      outcome: body.type === "payment.succeeded" ? "succeeded" : body.type === "payment.failed" ? "failed" : null,
+      failureReason: body.failureReason ?? null,
+      payload: body
+    };
+  }
+
+  async refund(_providerPaymentId: string, _amount: number): Promise<{ providerRefundId: string }> {
+    return { providerRefundId: `rfnd_mock_${crypto.randomBytes(8).toString("hex")}` };
+  }
+
+  simulatePayment(providerOrderId: string, outcome: "succeeded" | "failed") {
+    const providerPaymentId = `pay_mock_${crypto.randomBytes(8).toString("hex")}`;
+    const body = JSON.stringify({
+      id: `evt_mock_${crypto.randomBytes(8).toString("hex")}`,
+      type: `payment.${outcome}`,
+      orderId: providerOrderId,
+      paymentId: providerPaymentId,
+      failureReason: outcome === "failed" ? "Declined by the mock provider" : undefined
+    });
+
+    return {
+      providerPaymentId,
+      signature: outcome === "succeeded" ? hmacHex(this.secret, `${providerOrderId}|${providerPaymentId}`) : null,
+      webhook: {
+        headers: { "Content-Type": "application/json", "X-Mock-Signature": hmacHex(this.secret, body) },
+        body
+      }
+    };
+  }
+}
+
+// PAYMENT_PROVIDER selects the provider: razorpay (the default in production) or mock.
+// Razorpay needs RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET and RAZORPAY_WEBHOOK_SECRET.
+// The mock provider approves any payment, so production refuses it, and only
+// development may fall back to its published signing secret.
+export function createPaymentProvider(env: NodeJS.ProcessEnv = process.env): PaymentProvider {
+  const name = env.PAYMENT_PROVIDER || (env.NODE_ENV === "production" ? "razorpay" : "mock");
+
+  switch (name) {
+    case "razorpay": {
+      const { RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET, RAZORPAY_WEBHOOK_SECRET } = env;
+      if (!RAZORPAY_KEY_ID || !RAZORPAY_KEY_SECRET || !RAZORPAY_WEBHOOK_SECRET) {
+        throw new Error("RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET and RAZORPAY_WEBHOOK_SECRET must be set for the razorpay payment provider");
+      }
+      return new RazorpayProvider(RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET, RAZORPAY_WEBHOOK_SECRET);
+    }
+
+    case "mock": {
+      if (env.NODE_ENV === "production") {
+        throw new Error("PAYMENT_PROVIDER=mock cannot be used in production: it approves any payment");
+      }
+      const development = !env.NODE_ENV || env.NODE_ENV === "development";
+      if (!env.MOCK_PAYMENT_SECRET && !development) {
+        throw new Error("MOCK_PAYMENT_SECRET must be set for the mock payment provider outside development");
+      }
+      return new MockPaymentProvider(env.MOCK_PAYMENT_SECRET || "mock_payment_secret");
+    }
+
+    default:
+      throw new Error(`Unknown PAYMENT_PROVIDER "${name}". Expected razorpay or mock`);
+  }
+}
+
+export const paymentProvider = createPaymentProvider();
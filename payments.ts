@@ -0,0 +1,174 @@
+import type { IncomingHttpHeaders } from "http";
+import { z } from "zod";
+import type { Payment } from "@shared/schema";
+import type { PaymentOrder } from "./schema";
+import { storage } from "./storage";
+import { sendToUser } from "./websocket";
+import { getWalletPaidAmount, toRupees } from "./billing";
+import { paymentProvider, MockPaymentProvider } from "./payment-providers";
+import { issueInvoice } from "./invoices";
+import { recordAuditEvent, SYSTEM_AUDIT_CONTEXT } from "./audit";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Unparsed request body, kept by the JSON parser for webhook signature checks
+      rawBody?: Buffer;
+    }
+  }
+}
+
+export const confirmOrderInputSchema = z.object({
+  providerPaymentId: z.string().min(1),
+  signature: z.string().min(1)
+});
+
+export const mockCheckoutInputSchema = z.object({
+  outcome: z.enum(["succeeded", "failed"]).default("succeeded")
+});
+
+export type WebhookResult = "processed" | "duplicate" | "invalid_signature" | "unknown_provider";
+
+export function formatPaymentOrder(order: PaymentOrder) {
+  return { ...order, amount: toRupees(order.amount) };
+}
+
+async function openOrder(
+  userId: number,
+  purpose: PaymentOrder["purpose"],
+  paymentId: number | null,
+  amount: number
+): Promise<{ order: PaymentOrder; checkout: Record<string, unknown> }> {
+  const currency = "INR";
+  const created = await paymentProvider.createOrder({
+    amount,
+    currency,
+    receipt: purpose === "payment" ? `payment_${paymentId}` : `wallet_${userId}_${Date.now()}`
+  });
+
+  const order = await storage.createPaymentOrder({
+    userId,
+    purpose,
+    paymentId,
+    provider: paymentProvider.name,
+    providerOrderId: created.providerOrderId,
+    amount,
+    currency,
+    checkout: created.checkout
+  });
+
+  return { order, checkout: { provider: paymentProvider.name, ...created.checkout } };
+}
+
+// Hands out the payment's open order if it still asks for the right amount, so
+// opening the checkout twice cannot charge the payment twice. The order leaves out
+// whatever the wallet already covered.
+export async function createOrderForPayment(payment: Payment) {
+  const amount = Math.round(payment.amount * 100) - await getWalletPaidAmount(payment);
+  const orders = await storage.getPaymentOrdersByPayment(payment.id);
+  const open = orders.find((order) =>
+    order.status === "pending" && order.provider === paymentProvider.name && order.amount === amount && order.checkout);
+  if (open) {
+    return { order: open, checkout: { provider: open.provider, ...open.checkout } };
+  }
+
+  return openOrder(payment.userId, "payment", payment.id, amount);
+}
+
+export function createTopUpOrder(userId: number, amount: number) {
+  return openOrder(userId, "wallet_top_up", null, amount);
+}
+
+async function completeOrder(
+  order: PaymentOrder,
+  status: "succeeded" | "failed",
+  details: { providerPaymentId?: string | null; failureReason?: string | null }
+): Promise<PaymentOrder> {
+  const result = await storage.completePaymentOrder(order.id, status, details);
+  if (!result) return order;
+
+  if (result.completed && !result.applied && result.order.status === "succeeded") {
+    // The provider took the money but the payment was already settled. Storage has
+    // credited it to the wallet; the event is kept for reconciliation with the provider.
+    await recordAuditEvent(SYSTEM_AUDIT_CONTEXT, "payment.late_capture", { type: "payment", id: result.order.paymentId }, {
+      details: {
+        orderId: result.order.id,
+        provider: result.order.provider,
+        providerPaymentId: result.order.providerPaymentId,
+        amount: toRupees(result.order.amount),
+        creditedTo: "wallet"
+      }
+    });
+  }
+
+  if (result.applied && result.order.status === "succeeded" && result.order.paymentId !== null) {
+    const payment = await storage.getPayment(result.order.paymentId);
+    try {
+      if (payment) await issueInvoice(payment);
+    } catch (e) {
+      console.error(`Failed to issue invoice for payment ${result.order.paymentId}:`, e);
+    }
+  }
+
+  if (result.completed) {
+    sendToUser(result.order.userId, {
+      type: "payment_status",
+      orderId: result.order.id,
+      purpose: result.order.purpose,
+      paymentId: result.order.paymentId,
+      status: result.order.status
+    });
+  }
+
+  return result.order;
+}
+
+// Client-side confirmation with the signature the checkout returned. Returns
+// undefined when the signature does not check out.
+export async function confirmOrder(order: PaymentOrder, providerPaymentId: string, signature: string): Promise<PaymentOrder | undefined> {
+  if (order.provider !== paymentProvider.name
+    || !paymentProvider.verifyPaymentSignature(order.providerOrderId, providerPaymentId, signature)) {
+    return undefined;
+  }
+
+  return completeOrder(order, "succeeded", { providerPaymentId });
+}
+
+// Webhooks are the source of truth. Each event is applied once; redeliveries of an
+// event that was already processed are acknowledged without doing anything.
+export async function handleWebhook(provider: string, rawBody: Buffer, headers: IncomingHttpHeaders): Promise<WebhookResult> {
+  if (provider !== paymentProvider.name) return "unknown_provider";
+
+  const event = paymentProvider.parseWebhook(rawBody, headers);
+  if (!event) return "invalid_signature";
+
+  const stored = await storage.recordWebhookEvent({
+    provider,
+    eventId: event.eventId,
+    type: event.type,
+    payload: event.payload
+  });
+  if (stored.processedAt) return "duplicate";
+
+  if (event.outcome && event.providerOrderId) {
+    const order = await storage.getPaymentOrderByProviderOrderId(provider, event.providerOrderId);
+    if (order) {
+      await completeOrder(order, event.outcome, {
+        providerPaymentId: event.providerPaymentId,
+        failureReason: event.failureReason
+      });
+    } else {
+      console.warn(`Webhook ${event.eventId} refers to unknown ${provider} order ${event.providerOrderId}`);
+    }
+  }
+
+  await storage.markWebhookEventProcessed(stored.id);
+  return "processed";
+}
+
+// What the mock checkout would hand back, for exercising the flow offline.
+// Undefined unless the mock provider is in use.
+export function simulateCheckout(order: PaymentOrder, outcome: "succeeded" | "failed") {
+  if (!(paymentProvider instanceof MockPaymentProvider)) return undefined;
+  return paymentProvider.simulatePayment(order.providerOrderId, outcome);
+}
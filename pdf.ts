@@ -0,0 +1,89 @@
+// Minimal PDF writer for plain text documents such as statements and invoices.
+// Uses the built-in Helvetica fonts, so only Latin-1 text is supported; other
+// characters are replaced with "?".
+
+export interface PdfLine {
+  text: string;
+  // Further pieces of text on the same line, each starting `x` points from the left margin
+  cells?: { text: string; x: number }[];
+  size?: number;
+  bold?: boolean;
+  // Extra space above the line, in points
+  spaceBefore?: number;
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const DEFAULT_SIZE = 10;
+
+function escapeText(text: string): string {
+  return text
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, "?")
+    .replace(/\\/g, "\\\\")
+    .replace(/\(/g, "\\(")
+    .replace(/\)/g, "\\)");
+}
+
+// Lays the lines out top to bottom, starting a new page whenever one fills up
+function paginate(lines: PdfLine[]): string[] {
+  const pages: string[] = [];
+  let content: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const line of lines) {
+    const size = line.size ?? DEFAULT_SIZE;
+    const height = size * 1.4 + (line.spaceBefore ?? 0);
+
+    if (y - height < MARGIN && content.length > 0) {
+      pages.push(content.join("\n"));
+      content = [];
+      y = PAGE_HEIGHT - MARGIN;
+    }
+
+    y -= height;
+    const font = line.bold ? "F2" : "F1";
+    for (const cell of [{ text: line.text, x: 0 }, ...(line.cells ?? [])]) {
+      content.push(`BT /${font} ${size} Tf ${MARGIN + cell.x} ${y.toFixed(2)} Td (${escapeText(cell.text)}) Tj ET`);
+    }
+  }
+
+  pages.push(content.join("\n"));
+  return pages;
+}
+
+export function renderPdf(lines: PdfLine[]): Buffer {
+  const pages = paginate(lines);
+
+  // Object numbers: 1 catalog, 2 page tree, 3 and 4 fonts, then a page and its content per page
+  const objects: string[] = [];
+  const pageRefs = pages.map((_, i) => `${5 + i * 2} 0 R`);
+
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageRefs.join(" ")}] /Count ${pages.length} >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+  objects[4] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+
+  pages.forEach((content, i) => {
+    const pageNumber = 5 + i * 2;
+    objects[pageNumber] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] `
+      + `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageNumber + 1} 0 R >>`;
+    objects[pageNumber + 1] = `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`;
+  });
+
+  let output = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let i = 1; i < objects.length; i++) {
+    offsets[i] = Buffer.byteLength(output, "latin1");
+    output += `${i} 0 obj\n${objects[i]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(output, "latin1");
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let i = 1; i < objects.length; i++) {
+    output += `${String(offsets[i]).padStart(10, "0")} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, "latin1");
+}
@@ -0,0 +1,231 @@
+import { z } from "zod";
+import type { Booking, Payment } from "@shared/schema";
+import type { Dispute, PaymentOrder, Refund } from "./schema";
+import { storage } from "./storage";
+import { sendToUser } from "./websocket";
+import { toRupees } from "./billing";
+import { paymentProvider } from "./payment-providers";
+import { recordAuditEvent, type AuditContext } from "./audit";
+
+// Share of a booking's payment returned when the user cancels, by how far ahead
+// of the session they do it. Cancellations by the expert or support are always
+// refunded in full.
+export const CANCELLATION_POLICY = [
+  { minHoursBefore: 24, percent: 100 },
+  { minHoursBefore: 2, percent: 50 },
+  { minHoursBefore: 0, percent: 0 }
+];
+
+export const REFUNDABLE_PAYMENT_STATUSES = ["succeeded", "partially_refunded"];
+
+export const refundInputSchema = z.object({
+  // Rupees. Omit to refund everything that is left.
+  amount: z.number().positive().multipleOf(0.01).optional(),
+  reason: z.string().trim().min(1).max(500)
+});
+
+export const disputeInputSchema = z.object({
+  paymentId: z.number().int(),
+  reason: z.string().trim().min(10).max(2000)
+});
+
+export const disputeReviewSchema = z.object({
+  status: z.enum(["under_review", "refunded", "rejected"]),
+  resolution: z.string().trim().min(1).max(2000).optional(),
+  // Rupees, for status "refunded". Omit to refund everything that is left.
+  amount: z.number().positive().multipleOf(0.01).optional()
+}).refine((input) => input.status !== "rejected" || input.resolution, {
+  message: "A resolution is required when rejecting a dispute",
+  path: ["resolution"]
+});
+
+export function formatRefund(refund: Refund) {
+  return { ...refund, amount: toRupees(refund.amount) };
+}
+
+export function isRefundable(payment: Payment): boolean {
+  return REFUNDABLE_PAYMENT_STATUSES.includes(payment.status);
+}
+
+export function cancellationRefundPercent(sessionTime: Date, now: Date = new Date()): number {
+  const hoursBefore = (sessionTime.getTime() - now.getTime()) / 3_600_000;
+  const tier = CANCELLATION_POLICY.find((tier) => hoursBefore >= tier.minHoursBefore);
+  return tier?.percent ?? 0;
+}
+
+// Paise that can still be refunded, leaving out failed refunds
+export async function getRefundableAmount(payment: Payment): Promise<number> {
+  const refunds = await storage.getRefundsByPayment(payment.id);
+  const committed = refunds
+    .filter((refund) => refund.status !== "failed")
+    .reduce((sum, refund) => sum + refund.amount, 0);
+
+  return Math.max(0, Math.round(payment.amount * 100) - committed);
+}
+
+type RefundDetails = { reason: string; source: Refund["source"]; createdBy?: number | null };
+
+// Refunds `amount` paise. Money taken through the payment provider goes back the
+// same way; anything paid from the wallet goes back to the wallet. A payment paid
+// partly from the wallet is refunded through the provider first, up to what the
+// provider captured, and the rest goes to the wallet as a second refund; the
+// provider refund is the one returned. Returns undefined if that is more than is
+// left to refund. A refund the provider rejects is returned with status "failed".
+export async function refundPayment(payment: Payment, amount: number, details: RefundDetails): Promise<Refund | undefined> {
+  if (amount > await getRefundableAmount(payment)) return undefined;
+
+  const orders = await storage.getPaymentOrdersByPayment(payment.id);
+  const paidOrder = orders.find((order) => order.status === "succeeded");
+  if (!paidOrder) return refundTo(payment, amount, undefined, details);
+
+  const refunds = await storage.getRefundsByPayment(payment.id);
+  const returnedToProvider = refunds
+    .filter((refund) => refund.destination === "original" && refund.status !== "failed")
+    .reduce((sum, refund) => sum + refund.amount, 0);
+  const throughProvider = Math.min(amount, Math.max(0, paidOrder.amount - returnedToProvider));
+  if (throughProvider === 0) return refundTo(payment, amount, undefined, details);
+
+  const refund = await refundTo(payment, throughProvider, paidOrder, details);
+  if (refund?.status === "processed" && throughProvider < amount) {
+    await refundTo(payment, amount - throughProvider, undefined, details);
+  }
+  return refund;
+}
+
+// Records one refund and sends it to the provider order it was paid through, or
+// to the wallet without one
+async function refundTo(
+  payment: Payment,
+  amount: number,
+  paidOrder: PaymentOrder | undefined,
+  details: RefundDetails
+): Promise<Refund | undefined> {
+  const refund = await storage.createRefund({
+    paymentId: payment.id,
+    amount,
+    reason: details.reason,
+    source: details.source,
+    destination: paidOrder ? "original" : "wallet",
+    createdBy: details.createdBy ?? null
+  });
+  if (!refund) return undefined;
+
+  let completed: Refund | undefined;
+  if (!paidOrder) {
+    completed = await storage.completeRefund(refund.id, "processed", {});
+  } else {
+    try {
+      if (paidOrder.provider !== paymentProvider.name || !paidOrder.providerPaymentId) {
+        throw new Error(`Payment was taken through ${paidOrder.provider}, which is not the configured provider`);
+      }
+
+      const { providerRefundId } = await paymentProvider.refund(paidOrder.providerPaymentId, amount);
+      completed = await storage.completeRefund(refund.id, "processed", { providerRefundId });
+    } catch (e) {
+      console.error(`Refund ${refund.id} for payment ${payment.id} failed:`, e);
+      completed = await storage.completeRefund(refund.id, "failed", {
+        failureReason: e instanceof Error ? e.message : String(e)
+      });
+    }
+  }
+
+  const result = completed ?? refund;
+  sendToUser(payment.userId, {
+    type: "refund_status",
+    refundId: result.id,
+    paymentId: payment.id,
+    amount: toRupees(result.amount),
+    status: result.status
+  });
+  return result;
+}
+
+// Applies the cancellation policy to a canceled booking's payment if it was paid.
+// A payment that was not made yet is canceled so it can no longer be paid.
+export async function refundCanceledBooking(booking: Booking, canceledByUser: boolean, audit: AuditContext): Promise<Refund | undefined> {
+  const payment = await storage.getBookingPayment(booking.id);
+  if (!payment) return undefined;
+
+  if (payment.status === "pending" || payment.status === "failed") {
+    const canceled = await storage.updatePaymentStatus(payment.id, "canceled", ["pending", "failed"]);
+    if (canceled) {
+      await recordAuditEvent(audit, "payment.cancel", { type: "payment", id: payment.id }, {
+        before: { status: payment.status },
+        after: { status: canceled.status },
+        details: { bookingId: booking.id }
+      });
+      return undefined;
+    }
+    // Paid in the meantime, so it is refunded like any other paid booking
+    return refundCanceledBooking(booking, canceledByUser, audit);
+  }
+
+  if (!isRefundable(payment)) return undefined;
+
+  const percent = canceledByUser ? cancellationRefundPercent(booking.sessionTime) : 100;
+  const amount = Math.floor((await getRefundableAmount(payment)) * percent / 100);
+  if (amount <= 0) return undefined;
+
+  return refundPayment(payment, amount, {
+    reason: canceledByUser
+      ? `Booking #${booking.id} canceled by the user (${percent}% refund)`
+      : `Booking #${booking.id} canceled by the expert`,
+    source: "booking_cancellation",
+    createdBy: audit.actorId
+  });
+}
+
+// Moves a dispute on after review. Returns an error message when the dispute cannot
+// be resolved that way.
+export async function reviewDispute(
+  dispute: Dispute,
+  input: z.infer<typeof disputeReviewSchema>,
+  reviewerId: number
+): Promise<{ dispute: Dispute; refund?: Refund } | { error: string }> {
+  if (input.status === "under_review") {
+    const updated = await storage.transitionDispute(dispute.id, ["open"], { status: "under_review" });
+    return updated ? { dispute: updated } : { error: "Only open disputes can be taken under review" };
+  }
+
+  if (input.status === "rejected") {
+    const updated = await storage.transitionDispute(dispute.id, ["open", "under_review"], {
+      status: "rejected",
+      resolution: input.resolution,
+      resolvedBy: reviewerId
+    });
+    return updated ? { dispute: updated } : { error: "Dispute is already resolved" };
+  }
+
+  const payment = await storage.getPayment(dispute.paymentId);
+  if (!payment || !isRefundable(payment)) {
+    return { error: "Payment cannot be refunded" };
+  }
+
+  // Claim the dispute first so two reviewers cannot both refund it
+  const claimed = await storage.transitionDispute(dispute.id, ["open", "under_review"], {
+    status: "refunded",
+    resolution: input.resolution ?? null,
+    resolvedBy: reviewerId
+  });
+  if (!claimed) return { error: "Dispute is already resolved" };
+
+  const amount = input.amount !== undefined
+    ? Math.round(input.amount * 100)
+    : await getRefundableAmount(payment);
+
+  const refund = amount > 0
+    ? await refundPayment(payment, amount, {
+      reason: `Dispute #${dispute.id}: ${dispute.reason}`,
+      source: "dispute",
+      createdBy: reviewerId
+    })
+    : undefined;
+
+  if (!refund || refund.status === "failed") {
+    await storage.transitionDispute(dispute.id, ["refunded"], { status: "under_review", resolution: null, resolvedBy: null });
+    return { error: refund ? `Refund failed: ${refund.failureReason}` : "Refund exceeds the amount left on the payment" };
+  }
+
+  const resolved = await storage.transitionDispute(dispute.id, ["refunded"], { refundId: refund.id });
+  return { dispute: resolved ?? claimed, refund };
+}
@@ -0,0 +1,79 @@
+import { z } from "zod";
+import type { Feedback, InsertFeedback } from "@shared/schema";
+import type { ExpertRating, Review } from "./schema";
+import { storage } from "./storage";
+import { getSessionDetails } from "./session-lifecycle";
+
+// Verified reviews. Feedback is accepted once per ended session, from the user who
+// had it, and counts towards the expert's rating while it is published. Experts can
+// reply publicly; signed-in users can report a review and admins then hide it or
+// keep it published.
+
+export type ReviewedFeedback = Feedback & { review: Review };
+
+export const reviewReplySchema = z.object({
+  // null removes the reply
+  reply: z.string().trim().min(1).max(2000).nullable()
+});
+
+export const reviewReportInputSchema = z.object({
+  reason: z.string().trim().min(10).max(1000)
+});
+
+export const reviewModerationSchema = z.object({
+  status: z.enum(["published", "hidden"]),
+  reason: z.string().trim().min(1).max(1000).optional()
+}).refine((input) => input.status !== "hidden" || input.reason, {
+  message: "A reason is required when hiding a review",
+  path: ["reason"]
+});
+
+// Stores feedback as the review of its session. Returns an error message and status
+// when the feedback is refused.
+export async function submitReview(
+  feedbackData: InsertFeedback,
+  userId: number
+): Promise<{ feedback: Feedback; review: Review } | { error: string; status: number }> {
+  if (feedbackData.sessionId === undefined || feedbackData.sessionId === null) {
+    return { error: "sessionId is required", status: 400 };
+  }
+
+  const session = await getSessionDetails(feedbackData.sessionId);
+  if (!session) {
+    return { error: "Session not found", status: 404 };
+  }
+  if (session.userId !== userId) {
+    return { error: "Only the user who had the session can review it", status: 403 };
+  }
+  if (session.status !== "ended") {
+    return { error: "Only completed sessions can be reviewed", status: 409 };
+  }
+
+  // The expert always comes from the session, whatever the client sent
+  const created = await storage.createReview({
+    ...feedbackData,
+    userId,
+    sessionId: session.id,
+    expertId: session.expertId
+  });
+  return created ?? { error: "This session has already been reviewed", status: 409 };
+}
+
+export function formatReview({ review, ...feedback }: ReviewedFeedback) {
+  return {
+    ...feedback,
+    verified: true,
+    reply: review.reply,
+    repliedAt: review.repliedAt
+  };
+}
+
+// Average to one decimal; 0 until the expert has a published review
+export function formatRating(expertId: number, rating: ExpertRating | undefined) {
+  const reviewCount = rating?.reviewCount ?? 0;
+  return {
+    expertId,
+    rating: rating && reviewCount > 0 ? Math.round((rating.ratingTotal / reviewCount) * 10) / 10 : 0,
+    reviewCount
+  };
+}
@@ -1,6 +1,5 @@
 import express, { type Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { WebSocketServer, WebSocket } from "ws";
 import { storage } from "./storage";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
@@ -12,15 +11,145 @@ import {
   insertAdviceSchema, 
   insertSessionSchema,
   insertMessageSchema,
-  insertPaymentSchema,
-  insertFeedbackSchema
+  insertFeedbackSchema,
+  insertBookingSchema,
+  insertInspirationSchema
 } from "@shared/schema";
+import {
+  authenticate,
+  requireAuth,
+  requireRole,
+  issueTokens,
+  refreshTokens,
+  revokeTokens,
+  canActAsUser,
+  canActAsExpert,
+  isSessionParticipant,
+  isAdmin
+} from "./auth";
+import { disconnectAuthSession, disconnectUser, setupWebSocketServer } from "./websocket";
+import { parsePageRequest, formatPage, paginateList } from "./pagination";
+import {
+  attachmentIdsSchema,
+  contentDisposition,
+  uploadAttachment,
+  uploadThumbnail,
+  canAccessAttachment,
+  formatAttachment,
+  MAX_ATTACHMENT_SIZE,
+  MAX_THUMBNAIL_SIZE,
+  MAX_VOICE_NOTE_SECONDS
+} from "./attachments";
+import { blobStore } from "./blob-store";
+import { parseSearchRequest, MIN_QUERY_LENGTH, MAX_QUERY_LENGTH } from "./search";
+import { clientMessageIdSchema, formatMessage, formatChatPreview, getChatCounterpart, sendChatMessage, acknowledgeDelivery, acknowledgeRead } from "./chat";
+import { canTransitionBooking, filterBookings, isBookingStatus, sessionBookingIdSchema } from "./bookings";
+import { expertListingQuerySchema, expertProfileUpdateSchema } from "./experts";
+import {
+  expertApplicationInputSchema,
+  applicationReviewSchema,
+  uploadApplicationDocument,
+  decideApplication,
+  formatApplication,
+  formatApplicationDocument,
+  EXPERT_DOCUMENT_KINDS,
+  MAX_APPLICATION_DOCUMENT_SIZE
+} from "./expert-applications";
+import {
+  reviewReplySchema,
+  reviewReportInputSchema,
+  reviewModerationSchema,
+  submitReview,
+  formatReview,
+  formatRating
+} from "./reviews";
+import {
+  scheduleInputSchema,
+  exceptionInputSchema,
+  computeOpenSlots,
+  isPublishedSlot,
+  formatSchedule,
+  formatException,
+  toMinutes,
+  toLocalDate,
+  DEFAULT_SLOT_MINUTES,
+  MAX_SLOT_RANGE_DAYS
+} from "./availability";
+import { getInspirationAudienceKey, getDailySeed, todayUtc } from "./inspirations";
+import {
+  getSessionDetails,
+  withState,
+  isOpen,
+  startSession,
+  endSession,
+  missSession
+} from "./session-lifecycle";
+import { chargeSession, getSessionChargeResult, ratePerMinuteInPaise, toRupees } from "./billing";
+import {
+  topUpInputSchema,
+  formatWallet,
+  formatWalletTransaction,
+  reserveSessionFunds,
+  releaseUnstartedSessionFunds,
+  settleSessionFunds,
+  startWalletMetering
+} from "./wallet";
+import {
+  confirmOrderInputSchema,
+  mockCheckoutInputSchema,
+  formatPaymentOrder,
+  createOrderForPayment,
+  createTopUpOrder,
+  confirmOrder,
+  handleWebhook,
+  simulateCheckout
+} from "./payments";
+import {
+  refundInputSchema,
+  disputeInputSchema,
+  disputeReviewSchema,
+  formatRefund,
+  isRefundable,
+  getRefundableAmount,
+  refundPayment,
+  refundCanceledBooking,
+  reviewDispute
+} from "./refunds";
+import {
+  commissionRateInputSchema,
+  payoutBatchInputSchema,
+  payoutUpdateSchema,
+  PAYOUT_TRANSITIONS,
+  getExpertEarnings,
+  summarizeEarnings,
+  runPayoutBatch,
+  getBatchStatus,
+  formatEarningEntry,
+  formatEarningsSummary,
+  formatPayout,
+  formatCommissionRate
+} from "./earnings";
+import { isStatementMonth, buildStatement, statementToCsv, statementToPdf } from "./statements";
+import { issueMissingInvoices, formatInvoice, renderInvoiceHtml, renderInvoicePdf } from "./invoices";
+import {
+  userRestrictionInputSchema,
+  expertApprovalInputSchema,
+  categoryUpdateSchema,
+  adviceStatusInputSchema,
+  paymentFiltersQuerySchema,
+  describeRestriction,
+  formatAdminUser
+} from "./admin";
+import { auditEventQuerySchema, auditContextOf, recordAuditEvent } from "./audit";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // API routes prefix
   const apiRouter = express.Router();
   app.use("/api", apiRouter);
   
+  // Attach the caller (if any) to every API request
+  apiRouter.use(authenticate);
+  
   // Authentication route
   apiRouter.post("/auth/login", async (req: Request, res: Response) => {
     try {
@@ -34,6 +163,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const user = await storage.getUserByUsername(username);
       
       if (!user) {
+        await recordAuditEvent(req, "auth.login_failed", { type: "user" }, {
+          details: { username: String(username).slice(0, 200), reason: "unknown_user" }
+        });
         return res.status(401).json({ message: "Invalid credentials" });
       }
       
@@ -41,19 +173,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const isPasswordValid = await bcrypt.compare(password, user.password);
       
       if (!isPasswordValid) {
+        await recordAuditEvent(req, "auth.login_failed", { type: "user", id: user.id }, {
+          details: { username: user.username, reason: "wrong_password" }
+        });
         return res.status(401).json({ message: "Invalid credentials" });
       }
       
+      const restriction = await storage.getUserRestriction(user.id);
+      if (restriction) {
+        await recordAuditEvent(req, "auth.login_failed", { type: "user", id: user.id }, {
+          details: { username: user.username, reason: restriction.kind }
+        });
+        return res.status(403).json({ message: describeRestriction(restriction) });
+      }
+      
       // Check if user is expert
       const expert = user.role === "expert" ? await storage.getExpertByUserId(user.id) : null;
       
-      // Return user info (without password)
+      const tokens = await issueTokens(user, expert?.id, req.get("user-agent"));
+      await recordAuditEvent({ ...auditContextOf(req), actorId: user.id }, "auth.login", { type: "user", id: user.id }, {
+        details: { userAgent: req.get("user-agent") ?? null }
+      });
+      
+      // Return user info (without password) along with the session tokens
       const { password: _, ...userWithoutPassword } = user;
       
       res.json({
         ...userWithoutPassword,
         isExpert: !!expert,
-        expertId: expert?.id
+        expertId: expert?.id,
+        ...tokens
       });
     } catch (error) {
       console.error("Login error:", error);
@@ -61,12 +210,64 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  apiRouter.post("/auth/refresh", async (req: Request, res: Response) => {
+    try {
+      const { refreshToken } = req.body;
+      
+      if (!refreshToken || typeof refreshToken !== "string") {
+        return res.status(400).json({ message: "Refresh token is required" });
+      }
+      
+      const tokens = await refreshTokens(refreshToken);
+      if (!tokens) {
+        return res.status(401).json({ message: "Invalid or expired refresh token" });
+      }
+      
+      res.json(tokens);
+    } catch (error) {
+      console.error("Token refresh error:", error);
+      res.status(500).json({ message: "Failed to refresh session" });
+    }
+  });
+
+  apiRouter.post("/auth/logout", requireAuth, async (req: Request, res: Response) => {
+    try {
+      await revokeTokens(req.auth!);
+      disconnectAuthSession(req.auth!.authSessionId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Logout error:", error);
+      res.status(500).json({ message: "Failed to sign out" });
+    }
+  });
+
+  apiRouter.get("/auth/me", requireAuth, async (req: Request, res: Response) => {
+    const user = await storage.getUser(req.auth!.userId);
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const { password: _, ...userWithoutPassword } = user;
+    res.json({
+      ...userWithoutPassword,
+      isExpert: !!req.auth!.expertId,
+      expertId: req.auth!.expertId
+    });
+  });
+
   // User routes
   apiRouter.post("/users", async (req: Request, res: Response) => {
     try {
       const userData = insertUserSchema.parse(req.body);
-      const user = await storage.createUser(userData);
-      res.status(201).json(user);
+      
+      // Only admins may create accounts with elevated roles
+      const user = await storage.createUser({
+        ...userData,
+        role: isAdmin(req) ? userData.role : "user"
+      });
+      
+      const { password: _, ...userWithoutPassword } = user;
+      res.status(201).json(userWithoutPassword);
     } catch (error) {
       if (error instanceof ZodError) {
         const validationError = fromZodError(error);
@@ -77,37 +278,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  apiRouter.get("/users/:id", async (req: Request, res: Response) => {
+  apiRouter.get("/users/:id", requireAuth, async (req: Request, res: Response) => {
     const userId = parseInt(req.params.id);
     if (isNaN(userId)) {
       return res.status(400).json({ message: "Invalid user ID" });
     }
+    
+    if (!canActAsUser(req, userId)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
 
     const user = await storage.getUser(userId);
     if (!user) {
       return res.status(404).json({ message: "User not found" });
     }
 
-    res.json(user);
+    const { password: _, ...userWithoutPassword } = user;
+    res.json(userWithoutPassword);
   });
 
   // Expert routes
-  apiRouter.get("/experts", async (_req: Request, res: Response) => {
-    const experts = await storage.getAllExperts();
-    
-    // Fetch user info for each expert
-    const expertsWithUserInfo = await Promise.all(
-      experts.map(async (expert) => {
-        const user = await storage.getUser(expert.userId);
-        return {
-          ...expert,
-          name: user?.name,
-          avatar: user?.avatar
-        };
-      })
-    );
-    
-    res.json(expertsWithUserInfo);
+  // Filters: category, language, minPrice, maxPrice, minRating, minExperience and
+  // availableNow. sort is rating, price_asc, price_desc or popularity.
+  apiRouter.get("/experts", async (req: Request, res: Response) => {
+    try {
+      const pageRequest = parsePageRequest(req.query);
+      if (!pageRequest) {
+        return res.status(400).json({ message: "Invalid pagination parameters" });
+      }
+
+      const { filters, sort } = expertListingQuerySchema.parse(req.query);
+      const page = await storage.listExperts(filters, sort, pageRequest);
+      
+      // Fetch user info for each expert
+      const expertsWithUserInfo = await Promise.all(
+        page.items.map(async (expert) => {
+          const user = await storage.getUser(expert.userId);
+          return {
+            ...expert,
+            name: user?.name,
+            avatar: user?.avatar
+          };
+        })
+      );
+      
+      res.json(formatPage({ ...page, items: expertsWithUserInfo }));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        res.status(500).json({ message: "Failed to list experts" });
+      }
+    }
   });
 
   apiRouter.get("/experts/:id", async (req: Request, res: Response) => {
@@ -116,8 +339,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(400).json({ message: "Invalid expert ID" });
     }
 
+    // Profiles that are not approved are only visible to their owner and admins
     const expert = await storage.getExpert(expertId);
-    if (!expert) {
+    if (!expert || (!(await storage.isExpertApproved(expertId)) && !canActAsUser(req, expert.userId))) {
       return res.status(404).json({ message: "Expert not found" });
     }
 
@@ -126,16 +350,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     const expertWithUserInfo = {
       ...expert,
       name: user?.name,
-      avatar: user?.avatar
+      avatar: user?.avatar,
+      categoryIds: await storage.getExpertCategoryIds(expert.id)
     };
 
     res.json(expertWithUserInfo);
   });
 
-  apiRouter.post("/experts", async (req: Request, res: Response) => {
+  // Admins can create an approved expert directly; everyone else applies
+  apiRouter.post("/experts", requireRole("admin"), async (req: Request, res: Response) => {
     try {
       const expertData = insertExpertSchema.parse(req.body);
-      const expert = await storage.createExpert(expertData);
+      
+      const expert = await storage.createExpert(expertData, req.auth!.userId);
+      await recordAuditEvent(req, "expert.create", { type: "expert", id: expert.id }, { after: expert });
       res.status(201).json(expert);
     } catch (error) {
       if (error instanceof ZodError) {
@@ -147,427 +375,2846 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  apiRouter.patch("/experts/:id/availability", async (req: Request, res: Response) => {
+  apiRouter.patch("/experts/:id/availability", requireAuth, async (req: Request, res: Response) => {
     const expertId = parseInt(req.params.id);
     if (isNaN(expertId)) {
       return res.status(400).json({ message: "Invalid expert ID" });
     }
     
+    if (!canActAsExpert(req, expertId)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    
     const { availability } = req.body;
     if (typeof availability !== 'boolean') {
       return res.status(400).json({ message: "Availability must be a boolean" });
     }
     
-    const expert = await storage.updateExpertAvailability(expertId, availability);
-    if (!expert) {
+    const previous = await storage.getExpert(expertId);
+    const expert = previous && await storage.updateExpertAvailability(expertId, availability);
+    if (!previous || !expert) {
       return res.status(404).json({ message: "Expert not found" });
     }
+    await recordAuditEvent(req, "expert.availability_change", { type: "expert", id: expertId }, {
+      before: { availability: previous.availability },
+      after: { availability: expert.availability }
+    });
     
     res.json(expert);
   });
 
-  // Category routes
-  apiRouter.get("/categories", async (_req: Request, res: Response) => {
-    const categories = await storage.getAllCategories();
-    res.json(categories);
-  });
-
-  apiRouter.get("/categories/:id", async (req: Request, res: Response) => {
-    const categoryId = parseInt(req.params.id);
-    if (isNaN(categoryId)) {
-      return res.status(400).json({ message: "Invalid category ID" });
-    }
-
-    const category = await storage.getCategory(categoryId);
-    if (!category) {
-      return res.status(404).json({ message: "Category not found" });
+  // Profile edits. Rating and approval are not editable here.
+  apiRouter.patch("/experts/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const expertId = parseInt(req.params.id);
+      if (isNaN(expertId)) {
+        return res.status(400).json({ message: "Invalid expert ID" });
+      }
+      
+      if (!canActAsExpert(req, expertId)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const changes = expertProfileUpdateSchema.parse(req.body);
+      for (const categoryId of changes.categoryIds ?? []) {
+        if (!(await storage.getCategory(categoryId))) {
+          return res.status(400).json({ message: `Category ${categoryId} not found` });
+        }
+      }
+      
+      const previous = await storage.getExpert(expertId);
+      const expert = previous && await storage.updateExpertProfile(expertId, changes, req.auth!.userId);
+      if (!previous || !expert) {
+        return res.status(404).json({ message: "Expert not found" });
+      }
+      if (isAdmin(req) && req.auth!.expertId !== expertId) {
+        await recordAuditEvent(req, "expert.update", { type: "expert", id: expertId }, { before: previous, after: expert });
+      }
+      
+      res.json({ ...expert, categoryIds: await storage.getExpertCategoryIds(expert.id) });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        res.status(500).json({ message: "Failed to update expert" });
+      }
     }
-
-    res.json(category);
   });
 
-  apiRouter.get("/categories/:id/experts", async (req: Request, res: Response) => {
-    const categoryId = parseInt(req.params.id);
-    if (isNaN(categoryId)) {
-      return res.status(400).json({ message: "Invalid category ID" });
+  apiRouter.get("/experts/:id/price-history", requireAuth, async (req: Request, res: Response) => {
+    const expertId = parseInt(req.params.id);
+    if (isNaN(expertId)) {
+      return res.status(400).json({ message: "Invalid expert ID" });
     }
-
-    const experts = await storage.getExpertsByCategory(categoryId);
     
-    // Fetch user info for each expert
-    const expertsWithUserInfo = await Promise.all(
-      experts.map(async (expert) => {
-        const user = await storage.getUser(expert.userId);
-        return {
-          ...expert,
-          name: user?.name,
-          avatar: user?.avatar
-        };
-      })
-    );
+    if (!canActAsExpert(req, expertId)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
     
-    res.json(expertsWithUserInfo);
-  });
-
-  // Advice routes
-  apiRouter.get("/advice", async (_req: Request, res: Response) => {
-    const advices = await storage.getAllAdvices();
-    res.json(advices);
+    res.json(await storage.getExpertPriceChanges(expertId));
   });
 
-  apiRouter.get("/advice/:id", async (req: Request, res: Response) => {
-    const adviceId = parseInt(req.params.id);
-    if (isNaN(adviceId)) {
-      return res.status(400).json({ message: "Invalid advice ID" });
+  // Availability calendar routes
+  apiRouter.get("/experts/:id/schedule", async (req: Request, res: Response) => {
+    const expertId = parseInt(req.params.id);
+    if (isNaN(expertId)) {
+      return res.status(400).json({ message: "Invalid expert ID" });
     }
 
-    const advice = await storage.getAdvice(adviceId);
-    if (!advice) {
-      return res.status(404).json({ message: "Advice not found" });
+    const expert = await storage.getExpert(expertId);
+    if (!expert) {
+      return res.status(404).json({ message: "Expert not found" });
     }
 
-    res.json(advice);
+    const schedule = await storage.getExpertSchedule(expertId);
+    const rules = await storage.getAvailabilityRules(expertId);
+    res.json(formatSchedule(expertId, schedule, rules));
   });
 
-  apiRouter.get("/experts/:expertId/advice", async (req: Request, res: Response) => {
-    const expertId = parseInt(req.params.expertId);
-    if (isNaN(expertId)) {
-      return res.status(400).json({ message: "Invalid expert ID" });
+  apiRouter.put("/experts/:id/schedule", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const expertId = parseInt(req.params.id);
+      if (isNaN(expertId)) {
+        return res.status(400).json({ message: "Invalid expert ID" });
+      }
+      
+      if (!(await storage.getExpert(expertId))) {
+        return res.status(404).json({ message: "Expert not found" });
+      }
+      
+      if (!canActAsExpert(req, expertId)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const input = scheduleInputSchema.parse(req.body);
+      const before = formatSchedule(
+        expertId,
+        await storage.getExpertSchedule(expertId),
+        await storage.getAvailabilityRules(expertId)
+      );
+      const { schedule, rules } = await storage.saveExpertSchedule(
+        { expertId, timezone: input.timezone, slotMinutes: input.slotMinutes },
+        input.rules.map((rule) => ({
+          dayOfWeek: rule.dayOfWeek,
+          startMinute: toMinutes(rule.startTime),
+          endMinute: toMinutes(rule.endTime)
+        }))
+      );
+      const after = formatSchedule(expertId, schedule, rules);
+      await recordAuditEvent(req, "expert.schedule_update", { type: "expert", id: expertId }, { before, after });
+      
+      res.json(after);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        res.status(500).json({ message: "Failed to save schedule" });
+      }
     }
-
-    const advices = await storage.getAdvicesByExpert(expertId);
-    res.json(advices);
   });
 
-  apiRouter.get("/categories/:categoryId/advice", async (req: Request, res: Response) => {
-    const categoryId = parseInt(req.params.categoryId);
-    if (isNaN(categoryId)) {
-      return res.status(400).json({ message: "Invalid category ID" });
+  apiRouter.get("/experts/:id/availability-exceptions", requireAuth, async (req: Request, res: Response) => {
+    const expertId = parseInt(req.params.id);
+    if (isNaN(expertId)) {
+      return res.status(400).json({ message: "Invalid expert ID" });
     }
-
-    const advices = await storage.getAdvicesByCategory(categoryId);
-    res.json(advices);
+    
+    if (!canActAsExpert(req, expertId)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    
+    const fromDate = typeof req.query.from === "string" ? req.query.from : "0000-01-01";
+    const toDate = typeof req.query.to === "string" ? req.query.to : "9999-12-31";
+    
+    const exceptions = await storage.getAvailabilityExceptions(expertId, fromDate, toDate);
+    res.json(exceptions.map(formatException));
   });
 
-  apiRouter.post("/advice", async (req: Request, res: Response) => {
+  apiRouter.post("/experts/:id/availability-exceptions", requireAuth, async (req: Request, res: Response) => {
     try {
-      const adviceData = insertAdviceSchema.parse(req.body);
-      const advice = await storage.createAdvice(adviceData);
-      res.status(201).json(advice);
+      const expertId = parseInt(req.params.id);
+      if (isNaN(expertId)) {
+        return res.status(400).json({ message: "Invalid expert ID" });
+      }
+      
+      if (!(await storage.getExpert(expertId))) {
+        return res.status(404).json({ message: "Expert not found" });
+      }
+      
+      if (!canActAsExpert(req, expertId)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const input = exceptionInputSchema.parse(req.body);
+      const exception = await storage.createAvailabilityException({
+        expertId,
+        date: input.date,
+        startMinute: input.startTime ? toMinutes(input.startTime) : null,
+        endMinute: input.endTime ? toMinutes(input.endTime) : null,
+        isAvailable: input.isAvailable,
+        reason: input.reason
+      });
+      await recordAuditEvent(req, "expert.availability_exception_create", { type: "expert", id: expertId }, {
+        after: formatException(exception)
+      });
+      
+      res.status(201).json(formatException(exception));
     } catch (error) {
       if (error instanceof ZodError) {
         const validationError = fromZodError(error);
         res.status(400).json({ message: validationError.message });
       } else {
-        res.status(500).json({ message: "Failed to create advice" });
+        res.status(500).json({ message: "Failed to create availability exception" });
       }
     }
   });
 
-  // Chat routes
-  apiRouter.get("/chats/user/:userId", async (req: Request, res: Response) => {
-    const userId = parseInt(req.params.userId);
-    if (isNaN(userId)) {
-      return res.status(400).json({ message: "Invalid user ID" });
+  apiRouter.delete("/experts/:id/availability-exceptions/:exceptionId", requireAuth, async (req: Request, res: Response) => {
+    const expertId = parseInt(req.params.id);
+    const exceptionId = parseInt(req.params.exceptionId);
+    if (isNaN(expertId) || isNaN(exceptionId)) {
+      return res.status(400).json({ message: "Invalid expert or exception ID" });
     }
-
-    const chats = await storage.getChatsByUser(userId);
     
-    // Get expert and last message info for each chat
-    const chatsWithDetails = await Promise.all(
-      chats.map(async (chat) => {
-        const expert = await storage.getExpert(chat.expertId);
-        const user = expert ? await storage.getUser(expert.userId) : null;
-        
-        return {
-          ...chat,
-          expertName: user?.name,
-          expertAvatar: user?.avatar
-        };
-      })
-    );
+    if (!canActAsExpert(req, expertId)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    
+    const deleted = await storage.deleteAvailabilityException(expertId, exceptionId);
+    if (!deleted) {
+      return res.status(404).json({ message: "Availability exception not found" });
+    }
+    await recordAuditEvent(req, "expert.availability_exception_delete", { type: "expert", id: expertId }, {
+      before: formatException(deleted)
+    });
     
-    res.json(chatsWithDetails);
+    res.json({ success: true });
   });
 
-  apiRouter.get("/chats/expert/:expertId", async (req: Request, res: Response) => {
-    const expertId = parseInt(req.params.expertId);
+  apiRouter.get("/experts/:id/slots", async (req: Request, res: Response) => {
+    const expertId = parseInt(req.params.id);
     if (isNaN(expertId)) {
       return res.status(400).json({ message: "Invalid expert ID" });
     }
-
-    const chats = await storage.getChatsByExpert(expertId);
     
-    // Get user info for each chat
-    const chatsWithDetails = await Promise.all(
-      chats.map(async (chat) => {
-        const user = await storage.getUser(chat.userId);
-        
-        return {
-          ...chat,
-          userName: user?.name,
-          userAvatar: user?.avatar
-        };
-      })
-    );
+    const from = typeof req.query.from === "string" ? new Date(req.query.from) : new Date();
+    const to = typeof req.query.to === "string"
+      ? new Date(req.query.to)
+      : new Date(from.getTime() + 7 * 24 * 60 * 60 * 1000);
     
-    res.json(chatsWithDetails);
-  });
-
-  apiRouter.get("/chats/:sessionId/messages", async (req: Request, res: Response) => {
-    const sessionId = parseInt(req.params.sessionId);
-    if (isNaN(sessionId)) {
-      return res.status(400).json({ message: "Invalid session ID" });
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+      return res.status(400).json({ message: "from and to must be valid dates with from before to" });
+    }
+    
+    if (to.getTime() - from.getTime() > MAX_SLOT_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+      return res.status(400).json({ message: `Range cannot exceed ${MAX_SLOT_RANGE_DAYS} days` });
     }
 
-    const messages = await storage.getMessagesBySession(sessionId);
-    res.json(messages);
+    const expert = await storage.getExpert(expertId);
+    if (!expert) {
+      return res.status(404).json({ message: "Expert not found" });
+    }
+    
+    // Experts who have not published a schedule have no bookable slots
+    const schedule = await storage.getExpertSchedule(expertId);
+    if (!schedule) {
+      return res.json([]);
+    }
+    
+    const [rules, exceptions, bookings] = await Promise.all([
+      storage.getAvailabilityRules(expertId),
+      storage.getAvailabilityExceptions(expertId, toLocalDate(from, schedule.timezone), toLocalDate(to, schedule.timezone)),
+      storage.getBookedBookingsForExpert(expertId, from, to)
+    ]);
+    
+    res.json(computeOpenSlots({ schedule, rules, exceptions, bookings, from, to }));
   });
 
-  apiRouter.post("/chats", async (req: Request, res: Response) => {
+  // Expert application routes
+  apiRouter.post("/expert-applications", requireAuth, async (req: Request, res: Response) => {
     try {
-      const sessionData = insertSessionSchema.parse({
-        ...req.body,
-        type: "chat",
-        startTime: new Date()
-      });
+      const profile = expertApplicationInputSchema.parse(req.body);
       
-      // Check if chat already exists between user and expert
-      const existingChat = await storage.getChatByUserAndExpert(
-        sessionData.userId, 
-        sessionData.expertId
-      );
+      const category = await storage.getCategory(profile.categoryId);
+      if (!category) {
+        return res.status(400).json({ message: "Category not found" });
+      }
       
-      if (existingChat) {
-        return res.json(existingChat);
+      const application = await storage.createExpertApplication({ userId: req.auth!.userId, profile });
+      if (!application) {
+        return res.status(409).json({ message: "You already have a pending application" });
       }
       
-      const chat = await storage.createChat(sessionData);
-      res.status(201).json(chat);
+      res.status(201).json(formatApplication(application, []));
     } catch (error) {
       if (error instanceof ZodError) {
         const validationError = fromZodError(error);
         res.status(400).json({ message: validationError.message });
       } else {
-        res.status(500).json({ message: "Failed to create chat" });
+        res.status(500).json({ message: "Failed to create application" });
       }
     }
   });
 
-  apiRouter.post("/messages", async (req: Request, res: Response) => {
-    try {
-      const messageData = insertMessageSchema.parse(req.body);
-      const message = await storage.createMessage(messageData);
-      res.status(201).json(message);
-    } catch (error) {
-      if (error instanceof ZodError) {
-        const validationError = fromZodError(error);
-        res.status(400).json({ message: validationError.message });
-      } else {
-        res.status(500).json({ message: "Failed to create message" });
-      }
+  apiRouter.get("/users/:userId/expert-applications", requireAuth, async (req: Request, res: Response) => {
+    const userId = parseInt(req.params.userId);
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: "Invalid user ID" });
     }
+    
+    if (!canActAsUser(req, userId)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    
+    const applications = await storage.getExpertApplicationsByUser(userId);
+    res.json(await Promise.all(applications.map(async (application) =>
+      formatApplication(application, await storage.getExpertApplicationDocuments(application.id))
+    )));
   });
 
-  apiRouter.post("/chats/:sessionId/read", async (req: Request, res: Response) => {
-    const sessionId = parseInt(req.params.sessionId);
-    if (isNaN(sessionId)) {
-      return res.status(400).json({ message: "Invalid session ID" });
+  apiRouter.get("/expert-applications", requireRole("admin"), async (req: Request, res: Response) => {
+    const status = req.query.status;
+    if (status !== undefined && status !== "pending" && status !== "approved" && status !== "rejected") {
+      return res.status(400).json({ message: "Invalid application status" });
     }
     
-    const { userId } = req.body;
-    if (!userId || isNaN(userId)) {
-      return res.status(400).json({ message: "Valid user ID required" });
+    const pageRequest = parsePageRequest(req.query);
+    if (!pageRequest) {
+      return res.status(400).json({ message: "Invalid pagination parameters" });
     }
     
-    await storage.markMessagesAsRead(sessionId, userId);
-    res.json({ success: true });
+    res.json(formatPage(await storage.listExpertApplications(status, pageRequest)));
   });
 
-  // Feedback routes
-  apiRouter.post("/feedback", async (req: Request, res: Response) => {
-    try {
-      const feedbackData = insertFeedbackSchema.parse(req.body);
-      const feedback = await storage.createFeedback(feedbackData);
-      res.status(201).json(feedback);
-    } catch (error) {
-      if (error instanceof ZodError) {
-        const validationError = fromZodError(error);
-        res.status(400).json({ message: validationError.message });
-      } else {
+  apiRouter.get("/expert-applications/:id", requireAuth, async (req: Request, res: Response) => {
+    const applicationId = parseInt(req.params.id);
+    if (isNaN(applicationId)) {
+      return res.status(400).json({ message: "Invalid application ID" });
+    }
+    
+    const application = await storage.getExpertApplication(applicationId);
+    if (!application) {
+      return res.status(404).json({ message: "Application not found" });
+    }
+    
+    if (!canActAsUser(req, application.userId)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    
+    res.json(formatApplication(application, await storage.getExpertApplicationDocuments(application.id)));
+  });
+
+  // Documents are sent as the raw request body with their Content-Type, e.g.
+  // POST /expert-applications/3/documents?kind=id_document&fileName=aadhaar.pdf
+  apiRouter.post(
+    "/expert-applications/:id/documents",
+    requireAuth,
+    express.raw({ type: () => true, limit: MAX_APPLICATION_DOCUMENT_SIZE }),
+    async (req: Request, res: Response) => {
+      try {
+        const applicationId = parseInt(req.params.id);
+        if (isNaN(applicationId)) {
+          return res.status(400).json({ message: "Invalid application ID" });
+        }
+        
+        const application = await storage.getExpertApplication(applicationId);
+        if (!application) {
+          return res.status(404).json({ message: "Application not found" });
+        }
+        
+        // Only the applicant uploads
+        if (application.userId !== req.auth!.userId) {
+          return res.status(403).json({ message: "Forbidden" });
+        }
+        
+        const kind = EXPERT_DOCUMENT_KINDS.find((documentKind) => documentKind === req.query.kind);
+        if (!kind) {
+          return res.status(400).json({ message: `kind must be one of ${EXPERT_DOCUMENT_KINDS.join(", ")}` });
+        }
+        
+        const contentType = req.headers["content-type"];
+        if (!contentType || !Buffer.isBuffer(req.body)) {
+          return res.status(400).json({ message: "Send the file as the request body with its Content-Type" });
+        }
+        
+        const result = await uploadApplicationDocument(application, {
+          data: req.body,
+          contentType,
+          kind,
+          fileName: typeof req.query.fileName === "string" ? req.query.fileName : undefined
+        });
+        if ("error" in result) {
+          return res.status(result.status).json({ message: result.error });
+        }
+        
+        res.status(201).json(formatApplicationDocument(result.document));
+      } catch (error) {
+        console.error("Application document upload error:", error);
+        res.status(500).json({ message: "Failed to upload document" });
+      }
+    }
+  );
+
+  apiRouter.get("/expert-applications/:id/documents/:documentId", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const applicationId = parseInt(req.params.id);
+      const documentId = parseInt(req.params.documentId);
+      if (isNaN(applicationId) || isNaN(documentId)) {
+        return res.status(400).json({ message: "Invalid document ID" });
+      }
+      
+      const application = await storage.getExpertApplication(applicationId);
+      const document = await storage.getExpertApplicationDocument(documentId);
+      if (!application || !document || document.applicationId !== application.id || !canActAsUser(req, application.userId)) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      const data = await blobStore.get(document.storageKey);
+      if (!data) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      res.setHeader("Content-Disposition", contentDisposition("attachment", document.fileName));
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader("Cache-Control", "private, no-store");
+      res.type(document.contentType).send(data);
+    } catch (error) {
+      console.error("Application document download error:", error);
+      res.status(500).json({ message: "Failed to load document" });
+    }
+  });
+
+  apiRouter.post("/expert-applications/:id/review", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const applicationId = parseInt(req.params.id);
+      if (isNaN(applicationId)) {
+        return res.status(400).json({ message: "Invalid application ID" });
+      }
+      
+      const input = applicationReviewSchema.parse(req.body);
+      const application = await storage.getExpertApplication(applicationId);
+      if (!application) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+      
+      const result = await decideApplication(application, input, req.auth!.userId);
+      if ("error" in result) {
+        return res.status(409).json({ message: result.error });
+      }
+      await recordAuditEvent(req, `expert_application.${input.decision === "approved" ? "approve" : "reject"}`, {
+        type: "expert_application",
+        id: applicationId
+      }, {
+        before: { status: application.status },
+        after: { status: result.application.status, expertId: result.expert?.id ?? null },
+        details: { notes: input.notes ?? null }
+      });
+      
+      res.json({
+        ...formatApplication(result.application, await storage.getExpertApplicationDocuments(applicationId)),
+        expert: result.expert ?? null
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        res.status(500).json({ message: "Failed to review application" });
+      }
+    }
+  });
+
+  // Category routes
+  apiRouter.get("/categories", async (_req: Request, res: Response) => {
+    const categories = await storage.getAllCategories();
+    res.json(categories);
+  });
+
+  apiRouter.get("/categories/:id", async (req: Request, res: Response) => {
+    const categoryId = parseInt(req.params.id);
+    if (isNaN(categoryId)) {
+      return res.status(400).json({ message: "Invalid category ID" });
+    }
+
+    const category = await storage.getCategory(categoryId);
+    if (!category) {
+      return res.status(404).json({ message: "Category not found" });
+    }
+
+    res.json(category);
+  });
+
+  // Takes the same filters and sorts as GET /experts; the category comes from the path
+  apiRouter.get("/categories/:id/experts", async (req: Request, res: Response) => {
+    try {
+      const categoryId = parseInt(req.params.id);
+      if (isNaN(categoryId)) {
+        return res.status(400).json({ message: "Invalid category ID" });
+      }
+
+      const pageRequest = parsePageRequest(req.query);
+      if (!pageRequest) {
+        return res.status(400).json({ message: "Invalid pagination parameters" });
+      }
+
+      const { filters, sort } = expertListingQuerySchema.parse(req.query);
+      const page = await storage.listExperts({ ...filters, categoryId }, sort, pageRequest);
+      
+      // Fetch user info for each expert
+      const expertsWithUserInfo = await Promise.all(
+        page.items.map(async (expert) => {
+          const user = await storage.getUser(expert.userId);
+          return {
+            ...expert,
+            name: user?.name,
+            avatar: user?.avatar
+          };
+        })
+      );
+      
+      res.json(formatPage({ ...page, items: expertsWithUserInfo }));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        res.status(500).json({ message: "Failed to list experts" });
+      }
+    }
+  });
+
+  // Advice routes
+  apiRouter.get("/advice", async (req: Request, res: Response) => {
+    const pageRequest = parsePageRequest(req.query);
+    if (!pageRequest) {
+      return res.status(400).json({ message: "Invalid pagination parameters" });
+    }
+
+    res.json(formatPage(await storage.listAdvices(pageRequest)));
+  });
+
+  apiRouter.get("/advice/:id", async (req: Request, res: Response) => {
+    const adviceId = parseInt(req.params.id);
+    if (isNaN(adviceId)) {
+      return res.status(400).json({ message: "Invalid advice ID" });
+    }
+
+    const advice = await storage.getAdvice(adviceId);
+    if (!advice || (!isAdmin(req) && !(await storage.isAdviceActive(adviceId)))) {
+      return res.status(404).json({ message: "Advice not found" });
+    }
+
+    res.json(advice);
+  });
+
+  apiRouter.get("/experts/:expertId/advice", async (req: Request, res: Response) => {
+    const expertId = parseInt(req.params.expertId);
+    if (isNaN(expertId)) {
+      return res.status(400).json({ message: "Invalid expert ID" });
+    }
+
+    const pageRequest = parsePageRequest(req.query);
+    if (!pageRequest) {
+      return res.status(400).json({ message: "Invalid pagination parameters" });
+    }
+
+    res.json(formatPage(await storage.listAdvicesByExpert(expertId, pageRequest)));
+  });
+
+  apiRouter.get("/categories/:categoryId/advice", async (req: Request, res: Response) => {
+    const categoryId = parseInt(req.params.categoryId);
+    if (isNaN(categoryId)) {
+      return res.status(400).json({ message: "Invalid category ID" });
+    }
+
+    const pageRequest = parsePageRequest(req.query);
+    if (!pageRequest) {
+      return res.status(400).json({ message: "Invalid pagination parameters" });
+    }
+
+    res.json(formatPage(await storage.listAdvicesByCategory(categoryId, pageRequest)));
+  });
+
+  apiRouter.post("/advice", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const adviceData = insertAdviceSchema.parse(req.body);
+      
+      if (!canActAsExpert(req, adviceData.expertId)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const advice = await storage.createAdvice(adviceData);
+      res.status(201).json(advice);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        res.status(500).json({ message: "Failed to create advice" });
+      }
+    }
+  });
+
+  // Search routes. Experts, advice and categories are ranked together; each result
+  // carries the same item its own endpoint returns.
+  apiRouter.get("/search", async (req: Request, res: Response) => {
+    const searchRequest = parseSearchRequest(req.query);
+    if (!searchRequest) {
+      return res.status(400).json({
+        message: `Search needs q of ${MIN_QUERY_LENGTH} to ${MAX_QUERY_LENGTH} characters, and type may only list expert, advice or category`
+      });
+    }
+
+    try {
+      const hits = await storage.search(searchRequest);
+      const results = await Promise.all(
+        hits.map(async (hit) => {
+          let item: object | undefined;
+          if (hit.kind === "expert") {
+            const expert = await storage.getExpert(hit.refId);
+            const user = expert && await storage.getUser(expert.userId);
+            item = expert && { ...expert, name: user?.name, avatar: user?.avatar };
+          } else if (hit.kind === "advice") {
+            item = await storage.getAdvice(hit.refId);
+          } else {
+            item = await storage.getCategory(hit.refId);
+          }
+          return item && { type: hit.kind, id: hit.refId, score: hit.score, item };
+        })
+      );
+
+      res.json({ query: searchRequest.query, results: results.filter((result) => result !== undefined) });
+    } catch (error) {
+      console.error("Search error:", error);
+      res.status(500).json({ message: "Failed to search" });
+    }
+  });
+
+  apiRouter.post("/search/reindex", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      await storage.rebuildSearchIndex();
+      await recordAuditEvent(req, "search.reindex", { type: "search" });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Search reindex error:", error);
+      res.status(500).json({ message: "Failed to rebuild search index" });
+    }
+  });
+
+  // Inspiration routes
+  apiRouter.get("/inspirations/today", async (req: Request, res: Response) => {
+    const date = todayUtc();
+    const inspiration = await storage.getDailyInspiration(
+      getDailySeed(date, getInspirationAudienceKey(req))
+    );
+    
+    if (!inspiration) {
+      return res.status(404).json({ message: "No inspirations available" });
+    }
+    
+    res.json({ ...inspiration, date });
+  });
+
+  apiRouter.get("/inspirations/random", async (_req: Request, res: Response) => {
+    const inspiration = await storage.getRandomInspiration();
+    if (!inspiration) {
+      return res.status(404).json({ message: "No inspirations available" });
+    }
+    
+    res.json(inspiration);
+  });
+
+  apiRouter.get("/categories/:categoryId/inspirations", async (req: Request, res: Response) => {
+    const categoryId = parseInt(req.params.categoryId);
+    if (isNaN(categoryId)) {
+      return res.status(400).json({ message: "Invalid category ID" });
+    }
+
+    const inspirations = await storage.getInspirationsByCategory(categoryId);
+    res.json(inspirations);
+  });
+
+  // Chat routes
+  apiRouter.get("/chats/user/:userId", requireAuth, async (req: Request, res: Response) => {
+    const userId = parseInt(req.params.userId);
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: "Invalid user ID" });
+    }
+    
+    if (!canActAsUser(req, userId)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    const pageRequest = parsePageRequest(req.query);
+    if (!pageRequest) {
+      return res.status(400).json({ message: "Invalid pagination parameters" });
+    }
+
+    const page = paginateList(await storage.getChatsByUser(userId), pageRequest);
+    if (!page) {
+      return res.status(400).json({ message: "Invalid cursor" });
+    }
+    
+    // Get expert info for each chat and shorten its last message to a preview
+    const chatsWithDetails = await Promise.all(
+      page.items.map(async (chat) => {
+        const expert = await storage.getExpert(chat.expertId);
+        const user = expert ? await storage.getUser(expert.userId) : null;
+        
+        return {
+          ...chat,
+          lastMessage: formatChatPreview(chat.lastMessage),
+          expertName: user?.name,
+          expertAvatar: user?.avatar
+        };
+      })
+    );
+    
+    res.json(formatPage({ ...page, items: chatsWithDetails }));
+  });
+
+  apiRouter.get("/chats/expert/:expertId", requireAuth, async (req: Request, res: Response) => {
+    const expertId = parseInt(req.params.expertId);
+    if (isNaN(expertId)) {
+      return res.status(400).json({ message: "Invalid expert ID" });
+    }
+    
+    if (!canActAsExpert(req, expertId)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    const pageRequest = parsePageRequest(req.query);
+    if (!pageRequest) {
+      return res.status(400).json({ message: "Invalid pagination parameters" });
+    }
+
+    const page = paginateList(await storage.getChatsByExpert(expertId), pageRequest);
+    if (!page) {
+      return res.status(400).json({ message: "Invalid cursor" });
+    }
+    
+    // Get user info for each chat
+    const chatsWithDetails = await Promise.all(
+      page.items.map(async (chat) => {
+        const user = await storage.getUser(chat.userId);
+        
+        return {
+          ...chat,
+          lastMessage: formatChatPreview(chat.lastMessage),
+          userName: user?.name,
+          userAvatar: user?.avatar
+        };
+      })
+    );
+    
+    res.json(formatPage({ ...page, items: chatsWithDetails }));
+  });
+
+  apiRouter.get("/chats/:sessionId/messages", requireAuth, async (req: Request, res: Response) => {
+    const sessionId = parseInt(req.params.sessionId);
+    if (isNaN(sessionId)) {
+      return res.status(400).json({ message: "Invalid session ID" });
+    }
+    
+    const session = await storage.getSession(sessionId);
+    if (!session) {
+      return res.status(404).json({ message: "Session not found" });
+    }
+    
+    if (!isSessionParticipant(req, session)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    // Without a cursor the latest messages are returned; `before` pages back through history
+    const pageRequest = parsePageRequest(req.query, { fromEnd: true });
+    if (!pageRequest) {
+      return res.status(400).json({ message: "Invalid pagination parameters" });
+    }
+
+    // Fetching the conversation counts as receiving what the other side sent
+    const counterpartId = await getChatCounterpart(session, req.auth!.userId);
+    if (counterpartId !== null) {
+      await acknowledgeDelivery(sessionId, req.auth!.userId, counterpartId);
+    }
+
+    const [page, receipts] = await Promise.all([
+      storage.listMessagesBySession(sessionId, pageRequest),
+      storage.getMessageReceipts(sessionId)
+    ]);
+    const attachments = await storage.getAttachmentsByMessages(page.items.map((message) => message.id));
+    const receiptsByMessage = new Map(receipts.map((receipt) => [receipt.messageId, receipt]));
+    res.json(formatPage(page, (message) => formatMessage(
+      message,
+      receiptsByMessage.get(message.id),
+      attachments.filter((attachment) => attachment.messageId === message.id)
+    )));
+  });
+
+  apiRouter.post("/chats", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const sessionData = insertSessionSchema.parse({
+        ...req.body,
+        type: "chat",
+        startTime: new Date()
+      });
+      
+      if (!canActAsUser(req, sessionData.userId)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      // Experts that are not approved cannot be contacted
+      const expert = await storage.getExpert(sessionData.expertId);
+      if (!expert || !(await storage.isExpertApproved(expert.id))) {
+        return res.status(404).json({ message: "Expert not found" });
+      }
+      
+      // Reuse the chat with this expert while it is still open; once it has ended a new one is started
+      const openChat = await storage.getOpenSessionByUserAndExpert(
+        sessionData.userId, 
+        sessionData.expertId,
+        "chat"
+      );
+      
+      if (openChat) {
+        return res.json(await storage.getChat(openChat.id));
+      }
+      
+      const chat = await storage.createChat(sessionData);
+      res.status(201).json(chat);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        res.status(500).json({ message: "Failed to create chat" });
+      }
+    }
+  });
+
+  apiRouter.post("/messages", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { clientMessageId, attachmentIds, ...body } = req.body;
+      const messageData = insertMessageSchema.parse(body);
+      const clientId = clientMessageId === undefined ? null : clientMessageIdSchema.parse(clientMessageId);
+      const uploads = attachmentIds === undefined ? [] : attachmentIdsSchema.parse(attachmentIds);
+      
+      // Messages can only be sent as yourself, into a session you are part of
+      const session = await storage.getSession(messageData.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      
+      if (messageData.senderId !== req.auth!.userId || !isSessionParticipant(req, session)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      if (!isOpen(withState(session, await storage.getSessionState(session.id)))) {
+        return res.status(409).json({ message: "This session has ended" });
+      }
+      
+      // Resending with the same clientMessageId returns the stored message
+      const result = await sendChatMessage(session, messageData, clientId, uploads);
+      if (!result) {
+        return res.status(400).json({ message: "Attachments must be your own unsent uploads to this chat" });
+      }
+      res.status(result.created ? 201 : 200).json(result.message);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        res.status(500).json({ message: "Failed to create message" });
+      }
+    }
+  });
+
+  apiRouter.post("/chats/:sessionId/read", requireAuth, async (req: Request, res: Response) => {
+    const sessionId = parseInt(req.params.sessionId);
+    if (isNaN(sessionId)) {
+      return res.status(400).json({ message: "Invalid session ID" });
+    }
+    
+    const { userId } = req.body;
+    if (!userId || isNaN(userId)) {
+      return res.status(400).json({ message: "Valid user ID required" });
+    }
+    
+    const session = await storage.getSession(sessionId);
+    if (!session) {
+      return res.status(404).json({ message: "Session not found" });
+    }
+    
+    if (userId !== req.auth!.userId || !isSessionParticipant(req, session)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    
+    const counterpartId = await getChatCounterpart(session, userId);
+    const cursor = counterpartId !== null
+      ? await acknowledgeRead(sessionId, userId, counterpartId)
+      : await storage.markMessagesAsRead(sessionId, userId);
+    res.json({ success: true, lastReadMessageId: cursor?.lastReadMessageId ?? null });
+  });
+
+  // Attachment routes. Files are sent as the raw request body with their
+  // Content-Type, e.g. POST /chats/5/attachments?fileName=scan.pdf
+  apiRouter.post(
+    "/chats/:sessionId/attachments",
+    requireAuth,
+    express.raw({ type: () => true, limit: MAX_ATTACHMENT_SIZE }),
+    async (req: Request, res: Response) => {
+      try {
+        const sessionId = parseInt(req.params.sessionId);
+        if (isNaN(sessionId)) {
+          return res.status(400).json({ message: "Invalid session ID" });
+        }
+        
+        const session = await storage.getSession(sessionId);
+        if (!session) {
+          return res.status(404).json({ message: "Session not found" });
+        }
+        
+        if (!isSessionParticipant(req, session)) {
+          return res.status(403).json({ message: "Forbidden" });
+        }
+        
+        if (!isOpen(withState(session, await storage.getSessionState(session.id)))) {
+          return res.status(409).json({ message: "This session has ended" });
+        }
+        
+        const contentType = req.headers["content-type"];
+        if (!contentType || !Buffer.isBuffer(req.body)) {
+          return res.status(400).json({ message: "Send the file as the request body with its Content-Type" });
+        }
+        
+        let durationSeconds: number | undefined;
+        if (req.query.durationSeconds !== undefined) {
+          durationSeconds = Number(req.query.durationSeconds);
+          if (!Number.isInteger(durationSeconds) || durationSeconds < 0 || durationSeconds > MAX_VOICE_NOTE_SECONDS) {
+            return res.status(400).json({ message: `durationSeconds must be a whole number up to ${MAX_VOICE_NOTE_SECONDS}` });
+          }
+        }
+        
+        const result = await uploadAttachment(session, req.auth!.userId, {
+          data: req.body,
+          contentType,
+          fileName: typeof req.query.fileName === "string" ? req.query.fileName : undefined,
+          durationSeconds
+        });
+        if ("error" in result) {
+          return res.status(result.status).json({ message: result.error });
+        }
+        
+        res.status(201).json(formatAttachment(result.attachment));
+      } catch (error) {
+        console.error("Attachment upload error:", error);
+        res.status(500).json({ message: "Failed to upload attachment" });
+      }
+    }
+  );
+
+  apiRouter.put(
+    "/attachments/:id/thumbnail",
+    requireAuth,
+    express.raw({ type: () => true, limit: MAX_THUMBNAIL_SIZE }),
+    async (req: Request, res: Response) => {
+      try {
+        const attachmentId = parseInt(req.params.id);
+        if (isNaN(attachmentId)) {
+          return res.status(400).json({ message: "Invalid attachment ID" });
+        }
+        
+        const attachment = await storage.getAttachment(attachmentId);
+        if (!attachment) {
+          return res.status(404).json({ message: "Attachment not found" });
+        }
+        
+        // Only the uploader provides the thumbnail
+        if (attachment.uploaderId !== req.auth!.userId) {
+          return res.status(403).json({ message: "Forbidden" });
+        }
+        
+        const contentType = req.headers["content-type"];
+        if (!contentType || !Buffer.isBuffer(req.body)) {
+          return res.status(400).json({ message: "Send the thumbnail as the request body with its Content-Type" });
+        }
+        
+        const result = await uploadThumbnail(attachment, { data: req.body, contentType });
+        if ("error" in result) {
+          return res.status(result.status).json({ message: result.error });
+        }
+        
+        res.json(formatAttachment(result.attachment));
+      } catch (error) {
+        console.error("Thumbnail upload error:", error);
+        res.status(500).json({ message: "Failed to upload thumbnail" });
+      }
+    }
+  );
+
+  // Downloads are served to the session's participants only
+  apiRouter.get("/attachments/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const attachmentId = parseInt(req.params.id);
+      if (isNaN(attachmentId)) {
+        return res.status(400).json({ message: "Invalid attachment ID" });
+      }
+      
+      const attachment = await storage.getAttachment(attachmentId);
+      if (!attachment || !(await canAccessAttachment(attachment, req.auth!.userId, isAdmin(req)))) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      
+      const data = await blobStore.get(attachment.storageKey);
+      if (!data) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      
+      // Images and voice notes play inline; documents are always downloaded
+      const disposition = attachment.kind === "document" ? "attachment" : "inline";
+      res.setHeader("Content-Disposition", contentDisposition(disposition, attachment.fileName));
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader("Cache-Control", "private, max-age=86400");
+      res.type(attachment.contentType).send(data);
+    } catch (error) {
+      console.error("Attachment download error:", error);
+      res.status(500).json({ message: "Failed to load attachment" });
+    }
+  });
+
+  apiRouter.get("/attachments/:id/thumbnail", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const attachmentId = parseInt(req.params.id);
+      if (isNaN(attachmentId)) {
+        return res.status(400).json({ message: "Invalid attachment ID" });
+      }
+      
+      const attachment = await storage.getAttachment(attachmentId);
+      if (!attachment || !(await canAccessAttachment(attachment, req.auth!.userId, isAdmin(req)))) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      
+      const data = attachment.thumbnailKey ? await blobStore.get(attachment.thumbnailKey) : undefined;
+      if (!data || !attachment.thumbnailContentType) {
+        return res.status(404).json({ message: "Thumbnail not found" });
+      }
+      
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader("Cache-Control", "private, max-age=86400");
+      res.type(attachment.thumbnailContentType).send(data);
+    } catch (error) {
+      console.error("Thumbnail download error:", error);
+      res.status(500).json({ message: "Failed to load thumbnail" });
+    }
+  });
+
+  // Session lifecycle routes
+  apiRouter.post("/sessions", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const sessionData = insertSessionSchema.parse({
+        ...req.body,
+        userId: req.auth!.userId,
+        startTime: new Date()
+      });
+      
+      const bookingId = sessionBookingIdSchema.parse(req.body.bookingId);
+      
+      // Experts that are not approved cannot be contacted
+      const expert = await storage.getExpert(sessionData.expertId);
+      if (!expert || !(await storage.isExpertApproved(expert.id))) {
+        return res.status(404).json({ message: "Expert not found" });
+      }
+      
+      // A session held for a paid booking is covered by the booking's payment
+      if (bookingId !== undefined) {
+        const booking = await storage.getBooking(bookingId);
+        if (!booking || booking.userId !== sessionData.userId || booking.expertId !== sessionData.expertId) {
+          return res.status(404).json({ message: "Booking not found" });
+        }
+        if (booking.status !== "booked") {
+          return res.status(409).json({ message: "Only booked sessions can be held" });
+        }
+        const payment = await storage.getBookingPayment(booking.id);
+        if (payment?.status !== "succeeded") {
+          return res.status(409).json({ message: "The booking has not been paid for" });
+        }
+        
+        const bookedSession = await storage.getSessionByBooking(booking.id);
+        if (bookedSession) {
+          return res.json(withState(bookedSession, await storage.getSessionState(bookedSession.id)));
+        }
+      }
+      
+      // Only one open session of each type per user and expert
+      const openSession = await storage.getOpenSessionByUserAndExpert(
+        sessionData.userId,
+        sessionData.expertId,
+        sessionData.type
+      );
+      if (openSession) {
+        if (bookingId !== undefined) {
+          return res.status(409).json({ message: "Finish your open session with this expert first" });
+        }
+        return res.json(withState(openSession, await storage.getSessionState(openSession.id)));
+      }
+      
+      const session = await storage.createSession(sessionData, bookingId);
+      res.status(201).json(withState(session, await storage.getSessionState(session.id)));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        res.status(500).json({ message: "Failed to create session" });
+      }
+    }
+  });
+
+  apiRouter.get("/sessions/:sessionId", requireAuth, async (req: Request, res: Response) => {
+    const sessionId = parseInt(req.params.sessionId);
+    if (isNaN(sessionId)) {
+      return res.status(400).json({ message: "Invalid session ID" });
+    }
+    
+    const details = await getSessionDetails(sessionId);
+    if (!details) {
+      return res.status(404).json({ message: "Session not found" });
+    }
+    
+    if (!isSessionParticipant(req, details)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    
+    res.json(details);
+  });
+
+  apiRouter.post("/sessions/:sessionId/start", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const sessionId = parseInt(req.params.sessionId);
+      if (isNaN(sessionId)) {
+        return res.status(400).json({ message: "Invalid session ID" });
+      }
+      
+      const session = await storage.getSession(sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      
+      // The expert accepts the request, which starts the clock
+      if (!canActAsExpert(req, session.expertId)) {
+        return res.status(403).json({ message: "Only the expert can start a session" });
+      }
+      
+      const current = withState(session, await storage.getSessionState(sessionId));
+      if (current.status !== "requested") {
+        return res.status(409).json({ message: "Only requested sessions can be started" });
+      }
+      
+      // Prepaid: the user's balance is held for the duration of the session
+      if (!(await reserveSessionFunds(session))) {
+        return res.status(402).json({ message: "Insufficient wallet balance to start this session" });
+      }
+      
+      const details = await startSession(session);
+      if (!details) {
+        await releaseUnstartedSessionFunds(sessionId);
+        return res.status(409).json({ message: "Only requested sessions can be started" });
+      }
+      
+      res.json(details);
+    } catch (error) {
+      console.error("Session start error:", error);
+      res.status(500).json({ message: "Failed to start session" });
+    }
+  });
+
+  apiRouter.post("/sessions/:sessionId/end", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const sessionId = parseInt(req.params.sessionId);
+      if (isNaN(sessionId)) {
+        return res.status(400).json({ message: "Invalid session ID" });
+      }
+      
+      const session = await storage.getSession(sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      
+      if (!isSessionParticipant(req, session)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const details = await endSession(session, req.auth!.userId, auditContextOf(req));
+      if (!details) {
+        return res.status(409).json({ message: "Only active sessions can be ended" });
+      }
+      
+      res.json({ ...details, charge: (await getSessionChargeResult(sessionId)) ?? null });
+    } catch (error) {
+      console.error("Session end error:", error);
+      res.status(500).json({ message: "Failed to end session" });
+    }
+  });
+
+  apiRouter.post("/sessions/:sessionId/miss", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const sessionId = parseInt(req.params.sessionId);
+      if (isNaN(sessionId)) {
+        return res.status(400).json({ message: "Invalid session ID" });
+      }
+      
+      const session = await storage.getSession(sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      
+      if (!isSessionParticipant(req, session)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const details = await missSession(session, req.auth!.userId);
+      if (!details) {
+        return res.status(409).json({ message: "Only requested sessions can be marked as missed" });
+      }
+      
+      res.json(details);
+    } catch (error) {
+      console.error("Session miss error:", error);
+      res.status(500).json({ message: "Failed to mark session as missed" });
+    }
+  });
+
+  // Feedback routes. Feedback is only taken as the verified review of an ended
+  // session, from the user who had it.
+  apiRouter.post("/feedback", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const feedbackData = insertFeedbackSchema.parse({ ...req.body, userId: req.auth!.userId });
+      
+      const result = await submitReview(feedbackData, req.auth!.userId);
+      if ("error" in result) {
+        return res.status(result.status).json({ message: result.error });
+      }
+      
+      res.status(201).json(formatReview({ ...result.feedback, review: result.review }));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
         res.status(500).json({ message: "Failed to create feedback" });
       }
     }
   });
-  
-  apiRouter.get("/experts/:expertId/feedback", async (req: Request, res: Response) => {
+  
+  apiRouter.get("/experts/:expertId/feedback", async (req: Request, res: Response) => {
+    try {
+      const { expertId } = req.params;
+      
+      if (!expertId) {
+        return res.status(400).json({ message: "Expert ID is required" });
+      }
+      
+      const pageRequest = parsePageRequest(req.query);
+      if (!pageRequest) {
+        return res.status(400).json({ message: "Invalid pagination parameters" });
+      }
+      
+      res.json(formatPage(await storage.listReviewsByExpert(parseInt(expertId), pageRequest), formatReview));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  apiRouter.get("/experts/:expertId/rating", async (req: Request, res: Response) => {
+    try {
+      const { expertId } = req.params;
+      
+      if (!expertId) {
+        return res.status(400).json({ message: "Expert ID is required" });
+      }
+      
+      const rating = await storage.getExpertRating(parseInt(expertId));
+      res.json(formatRating(parseInt(expertId), rating));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  apiRouter.get("/sessions/:sessionId/feedback", async (req: Request, res: Response) => {
+    try {
+      const { sessionId } = req.params;
+      
+      if (!sessionId) {
+        return res.status(400).json({ message: "Session ID is required" });
+      }
+      
+      // Only the published review is public
+      const feedback = await storage.getFeedbacksBySession(parseInt(sessionId));
+      const published = [];
+      for (const item of feedback) {
+        const review = await storage.getReview(item.id);
+        if (review?.status === "published") published.push(formatReview({ ...item, review }));
+      }
+      res.json(published);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Review routes. Reviews are addressed by their feedback id.
+  apiRouter.put("/reviews/:id/reply", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const feedbackId = parseInt(req.params.id);
+      if (isNaN(feedbackId)) {
+        return res.status(400).json({ message: "Invalid review ID" });
+      }
+      
+      const { reply } = reviewReplySchema.parse(req.body);
+      const review = await storage.getReview(feedbackId);
+      if (!review) {
+        return res.status(404).json({ message: "Review not found" });
+      }
+      
+      // Only the reviewed expert answers publicly
+      if (!canActAsExpert(req, review.expertId)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      res.json(await storage.setReviewReply(feedbackId, reply));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        res.status(500).json({ message: "Failed to save reply" });
+      }
+    }
+  });
+
+  apiRouter.post("/reviews/:id/reports", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const feedbackId = parseInt(req.params.id);
+      if (isNaN(feedbackId)) {
+        return res.status(400).json({ message: "Invalid review ID" });
+      }
+      
+      const { reason } = reviewReportInputSchema.parse(req.body);
+      const review = await storage.getReview(feedbackId);
+      if (!review || review.status !== "published") {
+        return res.status(404).json({ message: "Review not found" });
+      }
+      
+      const report = await storage.createReviewReport({ feedbackId, reporterId: req.auth!.userId, reason });
+      if (!report) {
+        return res.status(409).json({ message: "You have already reported this review" });
+      }
+      
+      res.status(201).json(report);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        res.status(500).json({ message: "Failed to report review" });
+      }
+    }
+  });
+
+  apiRouter.get("/review-reports", requireRole("admin"), async (req: Request, res: Response) => {
+    const status = req.query.status;
+    if (status !== undefined && status !== "open" && status !== "upheld" && status !== "dismissed") {
+      return res.status(400).json({ message: "Invalid report status" });
+    }
+    
+    const pageRequest = parsePageRequest(req.query);
+    if (!pageRequest) {
+      return res.status(400).json({ message: "Invalid pagination parameters" });
+    }
+    
+    res.json(formatPage(await storage.listReviewReports(status, pageRequest)));
+  });
+
+  // Hiding a review upholds its open reports; publishing it dismisses them
+  apiRouter.post("/reviews/:id/moderation", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const feedbackId = parseInt(req.params.id);
+      if (isNaN(feedbackId)) {
+        return res.status(400).json({ message: "Invalid review ID" });
+      }
+      
+      const input = reviewModerationSchema.parse(req.body);
+      const review = await storage.moderateReview(feedbackId, input.status, req.auth!.userId, input.reason ?? null);
+      if (!review) {
+        return res.status(404).json({ message: "Review not found" });
+      }
+      await recordAuditEvent(req, `review.${input.status === "hidden" ? "hide" : "publish"}`, { type: "review", id: feedbackId }, {
+        after: { status: review.status },
+        details: { reason: input.reason ?? null }
+      });
+      
+      res.json(review);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        res.status(500).json({ message: "Failed to moderate review" });
+      }
+    }
+  });
+
+  // Booking routes
+  apiRouter.post("/bookings", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const bookingData = insertBookingSchema.parse({
+        ...req.body,
+        sessionTime: req.body.sessionTime ? new Date(req.body.sessionTime) : undefined,
+        status: "booked"
+      });
+      
+      if (!canActAsUser(req, bookingData.userId)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      // Experts that are not approved cannot be booked
+      const expert = await storage.getExpert(bookingData.expertId);
+      if (!expert || !(await storage.isExpertApproved(expert.id))) {
+        return res.status(404).json({ message: "Expert not found" });
+      }
+      
+      if (bookingData.sessionTime.getTime() <= Date.now()) {
+        return res.status(400).json({ message: "Session time must be in the future" });
+      }
+      
+      // Once an expert publishes a schedule, bookings must start on one of its slots
+      const schedule = await storage.getExpertSchedule(expert.id);
+      if (schedule) {
+        const localDate = toLocalDate(bookingData.sessionTime, schedule.timezone);
+        const [rules, exceptions] = await Promise.all([
+          storage.getAvailabilityRules(expert.id),
+          storage.getAvailabilityExceptions(expert.id, localDate, localDate)
+        ]);
+        
+        if (!isPublishedSlot({ schedule, rules, exceptions, start: bookingData.sessionTime })) {
+          return res.status(409).json({ message: "The expert is not available at this time" });
+        }
+      }
+      
+      const booking = await storage.createBookingIfSlotFree(
+        bookingData,
+        schedule?.slotMinutes ?? DEFAULT_SLOT_MINUTES
+      );
+      if (!booking) {
+        return res.status(409).json({ message: "This time has already been booked" });
+      }
+      
+      res.status(201).json(booking);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        res.status(500).json({ message: "Failed to create booking" });
+      }
+    }
+  });
+
+  apiRouter.get("/bookings/:id", requireAuth, async (req: Request, res: Response) => {
+    const bookingId = parseInt(req.params.id);
+    if (isNaN(bookingId)) {
+      return res.status(400).json({ message: "Invalid booking ID" });
+    }
+
+    const booking = await storage.getBooking(bookingId);
+    if (!booking) {
+      return res.status(404).json({ message: "Booking not found" });
+    }
+    
+    if (!isSessionParticipant(req, booking)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    res.json(booking);
+  });
+
+  apiRouter.get("/users/:userId/bookings", requireAuth, async (req: Request, res: Response) => {
+    const userId = parseInt(req.params.userId);
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: "Invalid user ID" });
+    }
+    
+    if (!canActAsUser(req, userId)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    
+    const { when } = req.query;
+    if (when !== undefined && when !== "upcoming" && when !== "past") {
+      return res.status(400).json({ message: "when must be 'upcoming' or 'past'" });
+    }
+
+    const pageRequest = parsePageRequest(req.query);
+    if (!pageRequest) {
+      return res.status(400).json({ message: "Invalid pagination parameters" });
+    }
+
+    const bookings = await storage.getBookingsByUser(userId);
+    const page = paginateList(when ? filterBookings(bookings, when) : bookings, pageRequest);
+    if (!page) {
+      return res.status(400).json({ message: "Invalid cursor" });
+    }
+    res.json(formatPage(page));
+  });
+
+  apiRouter.get("/experts/:expertId/bookings", requireAuth, async (req: Request, res: Response) => {
+    const expertId = parseInt(req.params.expertId);
+    if (isNaN(expertId)) {
+      return res.status(400).json({ message: "Invalid expert ID" });
+    }
+    
+    if (!canActAsExpert(req, expertId)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    
+    const { when } = req.query;
+    if (when !== undefined && when !== "upcoming" && when !== "past") {
+      return res.status(400).json({ message: "when must be 'upcoming' or 'past'" });
+    }
+
+    const pageRequest = parsePageRequest(req.query);
+    if (!pageRequest) {
+      return res.status(400).json({ message: "Invalid pagination parameters" });
+    }
+
+    const bookings = await storage.getBookingsByExpert(expertId);
+    const page = paginateList(when ? filterBookings(bookings, when) : bookings, pageRequest);
+    if (!page) {
+      return res.status(400).json({ message: "Invalid cursor" });
+    }
+    res.json(formatPage(page));
+  });
+
+  apiRouter.patch("/bookings/:id/status", requireAuth, async (req: Request, res: Response) => {
+    const bookingId = parseInt(req.params.id);
+    if (isNaN(bookingId)) {
+      return res.status(400).json({ message: "Invalid booking ID" });
+    }
+    
+    const { status } = req.body;
+    if (!isBookingStatus(status)) {
+      return res.status(400).json({ message: "Status must be one of booked, completed or canceled" });
+    }
+
+    const booking = await storage.getBooking(bookingId);
+    if (!booking) {
+      return res.status(404).json({ message: "Booking not found" });
+    }
+    
+    if (!isSessionParticipant(req, booking)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    
+    if (!canTransitionBooking(booking.status, status)) {
+      return res.status(409).json({ message: `Cannot change a ${booking.status} booking to ${status}` });
+    }
+    
+    // Once its session has started the booking has been used and is no longer refundable
+    if (status === "canceled") {
+      const bookedSession = await storage.getSessionByBooking(bookingId);
+      const state = bookedSession ? await storage.getSessionState(bookedSession.id) : undefined;
+      if (state && state.status !== "requested") {
+        return res.status(409).json({ message: "Cannot cancel a booking whose session has started" });
+      }
+    }
+    
+    // Either side may cancel, but only the expert can mark a session as held
+    if (status === "completed") {
+      if (!canActAsExpert(req, booking.expertId)) {
+        return res.status(403).json({ message: "Only the expert can complete a booking" });
+      }
+      if (booking.sessionTime.getTime() > Date.now()) {
+        return res.status(409).json({ message: "Cannot complete a booking before its session time" });
+      }
+    }
+    
+    const updated = await storage.updateBookingStatus(bookingId, status, booking.status);
+    if (!updated) {
+      return res.status(409).json({ message: "Booking was modified concurrently, please retry" });
+    }
+    await recordAuditEvent(req, "booking.status_change", { type: "booking", id: bookingId }, {
+      before: { status: booking.status },
+      after: { status: updated.status }
+    });
+    
+    if (status !== "canceled") {
+      return res.json(updated);
+    }
+    
+    // A paid booking is refunded according to the cancellation policy
+    try {
+      const refund = await refundCanceledBooking(updated, req.auth!.userId === booking.userId, auditContextOf(req));
+      res.json({ ...updated, refund: refund ? formatRefund(refund) : null });
+    } catch (error) {
+      console.error("Booking refund error:", error);
+      res.status(502).json({ message: "The booking was canceled but its refund could not be started" });
+    }
+  });
+
+  // Takes payment for a booked slot upfront, at the expert's rate for the slot length
+  apiRouter.post("/bookings/:id/payment", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const bookingId = parseInt(req.params.id);
+      if (isNaN(bookingId)) {
+        return res.status(400).json({ message: "Invalid booking ID" });
+      }
+      
+      const booking = await storage.getBooking(bookingId);
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      
+      if (!canActAsUser(req, booking.userId)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      if (booking.status !== "booked") {
+        return res.status(409).json({ message: "Only booked sessions can be paid for" });
+      }
+      
+      const expert = await storage.getExpert(booking.expertId);
+      if (!expert) {
+        return res.status(404).json({ message: "Expert not found" });
+      }
+      
+      const durationMinutes = await storage.getBookingDuration(bookingId);
+      const existing = await storage.getBookingPayment(bookingId);
+      const payment = await storage.createBookingPayment(bookingId, {
+        userId: booking.userId,
+        expertId: booking.expertId,
+        amount: toRupees(durationMinutes * ratePerMinuteInPaise(expert.hourlyRate)),
+        status: "pending"
+      });
+      const created = payment.id !== existing?.id;
+      if (created) {
+        await recordAuditEvent(req, "payment.create", { type: "payment", id: payment.id }, {
+          after: payment,
+          details: { bookingId }
+        });
+      }
+      
+      res.status(created ? 201 : 200).json(payment);
+    } catch (error) {
+      console.error("Booking payment error:", error);
+      res.status(500).json({ message: "Failed to create booking payment" });
+    }
+  });
+
+  // Payment routes
+  // The amount is always computed from the session; clients only say which session to bill
+  apiRouter.post("/payments", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const sessionId = Number(req.body.sessionId);
+      if (!Number.isInteger(sessionId)) {
+        return res.status(400).json({ message: "Valid session ID required" });
+      }
+      
+      const details = await getSessionDetails(sessionId);
+      if (!details) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      
+      if (!canActAsUser(req, details.userId)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      if (details.status !== "ended") {
+        return res.status(409).json({ message: "Only ended sessions can be billed" });
+      }
+      
+      const result = await chargeSession(details, auditContextOf(req));
+      await settleSessionFunds(sessionId, result);
+      if (!result) {
+        return res.status(200).json({ message: "Nothing to charge for this session", charge: null });
+      }
+      
+      res.status(201).json((await getSessionChargeResult(sessionId)) ?? result);
+    } catch (error) {
+      console.error("Session billing error:", error);
+      res.status(500).json({ message: "Failed to create payment" });
+    }
+  });
+
+  apiRouter.get("/payments/:id", requireAuth, async (req: Request, res: Response) => {
+    const paymentId = parseInt(req.params.id);
+    if (isNaN(paymentId)) {
+      return res.status(400).json({ message: "Invalid payment ID" });
+    }
+    
+    const payment = await storage.getPayment(paymentId);
+    if (!payment) {
+      return res.status(404).json({ message: "Payment not found" });
+    }
+    
+    if (!canActAsUser(req, payment.userId) && !canActAsExpert(req, payment.expertId)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    
+    res.json({ ...payment, lineItems: await storage.getPaymentLineItems(paymentId) });
+  });
+
+  apiRouter.get("/payments/:id/refunds", requireAuth, async (req: Request, res: Response) => {
+    const paymentId = parseInt(req.params.id);
+    if (isNaN(paymentId)) {
+      return res.status(400).json({ message: "Invalid payment ID" });
+    }
+    
+    const payment = await storage.getPayment(paymentId);
+    if (!payment) {
+      return res.status(404).json({ message: "Payment not found" });
+    }
+    
+    if (!canActAsUser(req, payment.userId) && !canActAsExpert(req, payment.expertId)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    
+    const refunds = await storage.getRefundsByPayment(paymentId);
+    res.json(refunds.map(formatRefund));
+  });
+
+  // Support refunds, e.g. for a session that failed
+  apiRouter.post("/payments/:id/refunds", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const paymentId = parseInt(req.params.id);
+      if (isNaN(paymentId)) {
+        return res.status(400).json({ message: "Invalid payment ID" });
+      }
+      
+      const payment = await storage.getPayment(paymentId);
+      if (!payment) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      
+      if (!isRefundable(payment)) {
+        return res.status(409).json({ message: `A ${payment.status} payment cannot be refunded` });
+      }
+      
+      const input = refundInputSchema.parse(req.body);
+      const amount = input.amount !== undefined
+        ? Math.round(input.amount * 100)
+        : await getRefundableAmount(payment);
+      
+      const refund = amount > 0
+        ? await refundPayment(payment, amount, { reason: input.reason, source: "support", createdBy: req.auth!.userId })
+        : undefined;
+      if (!refund) {
+        return res.status(409).json({ message: "Refund exceeds the amount left on the payment" });
+      }
+      await recordAuditEvent(req, "payment.refund", { type: "payment", id: paymentId }, { after: refund });
+      
+      res.status(refund.status === "failed" ? 502 : 201).json(formatRefund(refund));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        res.status(500).json({ message: "Failed to refund payment" });
+      }
+    }
+  });
+
+  // Dispute routes. Users dispute their own payments; admins review them.
+  apiRouter.post("/disputes", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const input = disputeInputSchema.parse(req.body);
+      
+      const payment = await storage.getPayment(input.paymentId);
+      if (!payment) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      
+      if (!canActAsUser(req, payment.userId)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      if (!isRefundable(payment)) {
+        return res.status(409).json({ message: `A ${payment.status} payment cannot be disputed` });
+      }
+      
+      const dispute = await storage.createDispute({
+        paymentId: payment.id,
+        userId: payment.userId,
+        reason: input.reason
+      });
+      if (!dispute) {
+        return res.status(409).json({ message: "This payment already has an open dispute" });
+      }
+      
+      res.status(201).json(dispute);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        res.status(500).json({ message: "Failed to open dispute" });
+      }
+    }
+  });
+
+  apiRouter.get("/disputes", requireRole("admin"), async (req: Request, res: Response) => {
+    const status = req.query.status as string | undefined;
+    const statuses = ["open", "under_review", "refunded", "rejected"] as const;
+    if (status !== undefined && !statuses.includes(status as typeof statuses[number])) {
+      return res.status(400).json({ message: `Status must be one of ${statuses.join(", ")}` });
+    }
+    
+    const pageRequest = parsePageRequest(req.query);
+    if (!pageRequest) {
+      return res.status(400).json({ message: "Invalid pagination parameters" });
+    }
+    
+    const page = paginateList(await storage.getDisputes(status as typeof statuses[number] | undefined), pageRequest);
+    if (!page) {
+      return res.status(400).json({ message: "Invalid cursor" });
+    }
+    res.json(formatPage(page));
+  });
+
+  apiRouter.get("/disputes/:id", requireAuth, async (req: Request, res: Response) => {
+    const disputeId = parseInt(req.params.id);
+    if (isNaN(disputeId)) {
+      return res.status(400).json({ message: "Invalid dispute ID" });
+    }
+    
+    const dispute = await storage.getDispute(disputeId);
+    if (!dispute) {
+      return res.status(404).json({ message: "Dispute not found" });
+    }
+    
+    if (!canActAsUser(req, dispute.userId)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    
+    const refund = dispute.refundId ? await storage.getRefund(dispute.refundId) : undefined;
+    res.json({ ...dispute, refund: refund ? formatRefund(refund) : null });
+  });
+
+  apiRouter.get("/users/:userId/disputes", requireAuth, async (req: Request, res: Response) => {
+    const userId = parseInt(req.params.userId);
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: "Invalid user ID" });
+    }
+    
+    if (!canActAsUser(req, userId)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    
+    const pageRequest = parsePageRequest(req.query);
+    if (!pageRequest) {
+      return res.status(400).json({ message: "Invalid pagination parameters" });
+    }
+    
+    const page = paginateList(await storage.getDisputesByUser(userId), pageRequest);
+    if (!page) {
+      return res.status(400).json({ message: "Invalid cursor" });
+    }
+    res.json(formatPage(page));
+  });
+
+  apiRouter.patch("/disputes/:id", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const disputeId = parseInt(req.params.id);
+      if (isNaN(disputeId)) {
+        return res.status(400).json({ message: "Invalid dispute ID" });
+      }
+      
+      const dispute = await storage.getDispute(disputeId);
+      if (!dispute) {
+        return res.status(404).json({ message: "Dispute not found" });
+      }
+      
+      const input = disputeReviewSchema.parse(req.body);
+      const result = await reviewDispute(dispute, input, req.auth!.userId);
+      if ("error" in result) {
+        return res.status(409).json({ message: result.error });
+      }
+      await recordAuditEvent(req, "dispute.update", { type: "dispute", id: disputeId }, {
+        before: { status: dispute.status },
+        after: { status: result.dispute.status },
+        details: { refundId: result.refund?.id ?? null }
+      });
+      
+      res.json({ ...result.dispute, refund: result.refund ? formatRefund(result.refund) : null });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        res.status(500).json({ message: "Failed to update dispute" });
+      }
+    }
+  });
+
+  apiRouter.get("/sessions/:sessionId/charge", requireAuth, async (req: Request, res: Response) => {
+    const sessionId = parseInt(req.params.sessionId);
+    if (isNaN(sessionId)) {
+      return res.status(400).json({ message: "Invalid session ID" });
+    }
+    
+    const session = await storage.getSession(sessionId);
+    if (!session) {
+      return res.status(404).json({ message: "Session not found" });
+    }
+    
+    if (!isSessionParticipant(req, session)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    
+    const result = await getSessionChargeResult(sessionId);
+    if (!result) {
+      return res.status(404).json({ message: "This session has not been charged" });
+    }
+    
+    res.json(result);
+  });
+
+  apiRouter.get("/users/:userId/payments", requireAuth, async (req: Request, res: Response) => {
+    const userId = parseInt(req.params.userId);
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: "Invalid user ID" });
+    }
+    
+    if (!canActAsUser(req, userId)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    const pageRequest = parsePageRequest(req.query);
+    if (!pageRequest) {
+      return res.status(400).json({ message: "Invalid pagination parameters" });
+    }
+
+    res.json(formatPage(await storage.listPaymentsByUser(userId, pageRequest)));
+  });
+
+  apiRouter.get("/experts/:expertId/payments", requireAuth, async (req: Request, res: Response) => {
+    const expertId = parseInt(req.params.expertId);
+    if (isNaN(expertId)) {
+      return res.status(400).json({ message: "Invalid expert ID" });
+    }
+    
+    if (!canActAsExpert(req, expertId)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    const pageRequest = parsePageRequest(req.query);
+    if (!pageRequest) {
+      return res.status(400).json({ message: "Invalid pagination parameters" });
+    }
+
+    res.json(formatPage(await storage.listPaymentsByExpert(expertId, pageRequest)));
+  });
+
+  // Earnings routes. Earnings are derived from the expert's payments net of refunds
+  // and platform commission; amounts are in rupees.
+  apiRouter.get("/experts/:expertId/earnings", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const expertId = parseInt(req.params.expertId);
+      if (isNaN(expertId)) {
+        return res.status(400).json({ message: "Invalid expert ID" });
+      }
+      
+      if (!canActAsExpert(req, expertId)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const [entries, items] = await Promise.all([
+        getExpertEarnings(expertId),
+        storage.getCommittedPayoutItems(expertId)
+      ]);
+      
+      res.json({
+        summary: formatEarningsSummary(summarizeEarnings(entries, items)),
+        entries: entries.map(formatEarningEntry)
+      });
+    } catch (error) {
+      console.error("Earnings error:", error);
+      res.status(500).json({ message: "Failed to fetch earnings" });
+    }
+  });
+
+  apiRouter.get("/experts/:expertId/payouts", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const expertId = parseInt(req.params.expertId);
+      if (isNaN(expertId)) {
+        return res.status(400).json({ message: "Invalid expert ID" });
+      }
+      
+      if (!canActAsExpert(req, expertId)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const payouts = await storage.getPayoutsByExpert(expertId);
+      res.json(payouts.map(formatPayout));
+    } catch (error) {
+      console.error("Payout listing error:", error);
+      res.status(500).json({ message: "Failed to fetch payouts" });
+    }
+  });
+
+  // Monthly statement as CSV (default) or PDF, e.g. /experts/1/statements/2024-05?format=pdf
+  apiRouter.get("/experts/:expertId/statements/:month", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const expertId = parseInt(req.params.expertId);
+      if (isNaN(expertId)) {
+        return res.status(400).json({ message: "Invalid expert ID" });
+      }
+      
+      const { month } = req.params;
+      if (!isStatementMonth(month)) {
+        return res.status(400).json({ message: "Month must be YYYY-MM" });
+      }
+      
+      const format = req.query.format ?? "csv";
+      if (format !== "csv" && format !== "pdf") {
+        return res.status(400).json({ message: "Format must be csv or pdf" });
+      }
+      
+      if (!canActAsExpert(req, expertId)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const expert = await storage.getExpert(expertId);
+      if (!expert) {
+        return res.status(404).json({ message: "Expert not found" });
+      }
+      
+      const statement = await buildStatement(expert, month);
+      const filename = `statement-${expertId}-${month}.${format}`;
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      if (format === "pdf") {
+        res.type("application/pdf").send(statementToPdf(statement));
+      } else {
+        res.type("text/csv").send(statementToCsv(statement));
+      }
+    } catch (error) {
+      console.error("Statement error:", error);
+      res.status(500).json({ message: "Failed to build statement" });
+    }
+  });
+
+  apiRouter.get("/commission-rates", requireRole("admin"), async (_req: Request, res: Response) => {
+    try {
+      const rates = await storage.getCommissionRates();
+      res.json(rates.map(formatCommissionRate));
+    } catch (error) {
+      console.error("Commission rate listing error:", error);
+      res.status(500).json({ message: "Failed to fetch commission rates" });
+    }
+  });
+
+  apiRouter.post("/commission-rates", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const input = commissionRateInputSchema.parse(req.body);
+      
+      if (input.expertId !== undefined && !(await storage.getExpert(input.expertId))) {
+        return res.status(404).json({ message: "Expert not found" });
+      }
+      
+      const rate = await storage.createCommissionRate({
+        expertId: input.expertId ?? null,
+        rateBps: Math.round(input.percent * 100),
+        effectiveFrom: input.effectiveFrom ?? new Date(),
+        createdBy: req.auth!.userId
+      });
+      await recordAuditEvent(req, "commission_rate.create", { type: "commission_rate", id: rate.id }, { after: rate });
+      
+      res.status(201).json(formatCommissionRate(rate));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        res.status(500).json({ message: "Failed to set commission rate" });
+      }
+    }
+  });
+
+  // Payout routes (admin)
+  apiRouter.get("/payout-batches", requireRole("admin"), async (_req: Request, res: Response) => {
+    try {
+      const batches = await storage.getPayoutBatches();
+      const withPayouts = await Promise.all(batches.map(async (batch) => {
+        const payouts = await storage.getPayoutsByBatch(batch.id);
+        return {
+          ...batch,
+          status: getBatchStatus(payouts),
+          payoutCount: payouts.length,
+          total: toRupees(payouts.reduce((sum, payout) => sum + payout.amount, 0))
+        };
+      }));
+      
+      res.json(withPayouts);
+    } catch (error) {
+      console.error("Payout batch listing error:", error);
+      res.status(500).json({ message: "Failed to fetch payout batches" });
+    }
+  });
+
+  apiRouter.post("/payout-batches", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const { periodEnd } = payoutBatchInputSchema.parse(req.body);
+      if (periodEnd.getTime() > Date.now()) {
+        return res.status(400).json({ message: "Period end cannot be in the future" });
+      }
+      
+      const result = await runPayoutBatch(periodEnd, req.auth!.userId);
+      if (!result) {
+        return res.status(409).json({ message: "A payout batch for this period already exists" });
+      }
+      await recordAuditEvent(req, "payout_batch.create", { type: "payout_batch", id: result.batch.id }, {
+        after: result.batch,
+        details: { payoutCount: result.payouts.length }
+      });
+      
+      res.status(201).json({
+        ...result.batch,
+        status: getBatchStatus(result.payouts),
+        payouts: result.payouts.map(formatPayout)
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        res.status(500).json({ message: "Failed to create payout batch" });
+      }
+    }
+  });
+
+  apiRouter.get("/payout-batches/:id", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const batchId = parseInt(req.params.id);
+      if (isNaN(batchId)) {
+        return res.status(400).json({ message: "Invalid batch ID" });
+      }
+      
+      const batch = await storage.getPayoutBatch(batchId);
+      if (!batch) {
+        return res.status(404).json({ message: "Payout batch not found" });
+      }
+      
+      const payouts = await storage.getPayoutsByBatch(batchId);
+      res.json({ ...batch, status: getBatchStatus(payouts), payouts: payouts.map(formatPayout) });
+    } catch (error) {
+      console.error("Payout batch error:", error);
+      res.status(500).json({ message: "Failed to fetch payout batch" });
+    }
+  });
+
+  apiRouter.patch("/payouts/:id", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const payoutId = parseInt(req.params.id);
+      if (isNaN(payoutId)) {
+        return res.status(400).json({ message: "Invalid payout ID" });
+      }
+      
+      const payout = await storage.getPayout(payoutId);
+      if (!payout) {
+        return res.status(404).json({ message: "Payout not found" });
+      }
+      
+      const input = payoutUpdateSchema.parse(req.body);
+      if (!PAYOUT_TRANSITIONS[payout.status].includes(input.status)) {
+        return res.status(409).json({ message: `Cannot change a ${payout.status} payout to ${input.status}` });
+      }
+      
+      const updated = await storage.transitionPayout(payoutId, [payout.status], {
+        status: input.status,
+        ...(input.reference !== undefined ? { reference: input.reference } : {}),
+        ...(input.status === "failed" ? { failureReason: input.failureReason ?? null } : {}),
+        ...(input.status === "paid" ? { paidAt: new Date() } : {})
+      });
+      if (!updated) {
+        return res.status(409).json({ message: "Payout was modified concurrently, please retry" });
+      }
+      await recordAuditEvent(req, "payout.update", { type: "payout", id: payoutId }, {
+        before: { status: payout.status, reference: payout.reference },
+        after: { status: updated.status, reference: updated.reference }
+      });
+      
+      res.json(formatPayout(updated));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        res.status(500).json({ message: "Failed to update payout" });
+      }
+    }
+  });
+
+  // Invoice routes
+  apiRouter.get("/users/:userId/invoices", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+      
+      if (!canActAsUser(req, userId)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const pageRequest = parsePageRequest(req.query);
+      if (!pageRequest) {
+        return res.status(400).json({ message: "Invalid pagination parameters" });
+      }
+      
+      const page = paginateList(await storage.getInvoicesByUser(userId), pageRequest);
+      if (!page) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+      res.json(formatPage(page, formatInvoice));
+    } catch (error) {
+      console.error("Invoice listing error:", error);
+      res.status(500).json({ message: "Failed to fetch invoices" });
+    }
+  });
+
+  // A single invoice as HTML (default), PDF or JSON, e.g. /users/1/invoices/7?format=pdf
+  apiRouter.get("/users/:userId/invoices/:invoiceId", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      const invoiceId = parseInt(req.params.invoiceId);
+      if (isNaN(userId) || isNaN(invoiceId)) {
+        return res.status(400).json({ message: "Invalid invoice ID" });
+      }
+      
+      const format = req.query.format ?? "html";
+      if (format !== "html" && format !== "pdf" && format !== "json") {
+        return res.status(400).json({ message: "Format must be html, pdf or json" });
+      }
+      
+      if (!canActAsUser(req, userId)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const invoice = await storage.getInvoice(invoiceId);
+      if (!invoice || invoice.userId !== userId) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      
+      if (format === "json") {
+        return res.json(formatInvoice(invoice));
+      }
+      
+      const lineItems = await storage.getPaymentLineItems(invoice.paymentId);
+      if (format === "pdf") {
+        const filename = `${invoice.number.replace(/\//g, "-")}.pdf`;
+        res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+        res.type("application/pdf").send(renderInvoicePdf(invoice, lineItems));
+      } else {
+        res.type("html").send(renderInvoiceHtml(invoice, lineItems));
+      }
+    } catch (error) {
+      console.error("Invoice rendering error:", error);
+      res.status(500).json({ message: "Failed to fetch invoice" });
+    }
+  });
+
+  // Payment gateway routes. An order is opened with the provider, the client pays
+  // through the provider's checkout, and the payment is settled by the client
+  // confirmation or the provider's webhook, whichever arrives first.
+  apiRouter.post("/payments/:id/orders", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const paymentId = parseInt(req.params.id);
+      if (isNaN(paymentId)) {
+        return res.status(400).json({ message: "Invalid payment ID" });
+      }
+      
+      const payment = await storage.getPayment(paymentId);
+      if (!payment) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      
+      if (!canActAsUser(req, payment.userId)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      if (payment.status !== "pending" && payment.status !== "failed") {
+        return res.status(409).json({ message: "Payment is already settled" });
+      }
+      
+      // Canceled or completed bookings are no longer paid for
+      const booking = await storage.getBookingByPayment(payment.id);
+      if (booking && booking.status !== "booked") {
+        return res.status(409).json({ message: "Only booked sessions can be paid for" });
+      }
+      
+      const { order, checkout } = await createOrderForPayment(payment);
+      res.status(201).json({ order: formatPaymentOrder(order), checkout });
+    } catch (error) {
+      console.error("Payment order error:", error);
+      res.status(502).json({ message: "Failed to create payment order" });
+    }
+  });
+
+  apiRouter.post("/users/:userId/wallet/orders", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+      
+      if (!canActAsUser(req, userId)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const input = topUpInputSchema.parse(req.body);
+      const { order, checkout } = await createTopUpOrder(userId, Math.round(input.amount * 100));
+      res.status(201).json({ order: formatPaymentOrder(order), checkout });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        console.error("Top-up order error:", error);
+        res.status(502).json({ message: "Failed to create top-up order" });
+      }
+    }
+  });
+
+  apiRouter.get("/payment-orders/:id", requireAuth, async (req: Request, res: Response) => {
+    const orderId = parseInt(req.params.id);
+    if (isNaN(orderId)) {
+      return res.status(400).json({ message: "Invalid order ID" });
+    }
+    
+    const order = await storage.getPaymentOrder(orderId);
+    if (!order) {
+      return res.status(404).json({ message: "Order not found" });
+    }
+    
+    if (!canActAsUser(req, order.userId)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    res.json(formatPaymentOrder(order));
+  });
+
+  apiRouter.post("/payment-orders/:id/confirm", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const orderId = parseInt(req.params.id);
+      if (isNaN(orderId)) {
+        return res.status(400).json({ message: "Invalid order ID" });
+      }
+      
+      const order = await storage.getPaymentOrder(orderId);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      
+      if (!canActAsUser(req, order.userId)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const input = confirmOrderInputSchema.parse(req.body);
+      const confirmed = await confirmOrder(order, input.providerPaymentId, input.signature);
+      if (!confirmed) {
+        return res.status(400).json({ message: "Invalid payment signature" });
+      }
+      
+      res.json(formatPaymentOrder(confirmed));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        res.status(500).json({ message: "Failed to confirm payment" });
+      }
+    }
+  });
+
+  // Stands in for the provider's checkout when the mock provider is configured
+  apiRouter.post("/payment-orders/:id/mock-checkout", requireAuth, async (req: Request, res: Response) => {
     try {
-      const { expertId } = req.params;
+      const orderId = parseInt(req.params.id);
+      if (isNaN(orderId)) {
+        return res.status(400).json({ message: "Invalid order ID" });
+      }
       
-      if (!expertId) {
-        return res.status(400).json({ message: "Expert ID is required" });
+      const order = await storage.getPaymentOrder(orderId);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
       }
       
-      const feedback = await storage.getFeedbacksByExpert(parseInt(expertId));
-      res.json(feedback);
-    } catch (error: any) {
-      res.status(500).json({ message: error.message });
+      if (!canActAsUser(req, order.userId)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const { outcome } = mockCheckoutInputSchema.parse(req.body);
+      const result = simulateCheckout(order, outcome);
+      if (!result) {
+        return res.status(404).json({ message: "Mock checkout is not available" });
+      }
+      
+      res.json(result);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        res.status(500).json({ message: "Failed to simulate checkout" });
+      }
     }
   });
-  
-  apiRouter.get("/experts/:expertId/rating", async (req: Request, res: Response) => {
+
+  // Called by the provider, authenticated by the signature over the raw body
+  apiRouter.post("/payment-webhooks/:provider", async (req: Request, res: Response) => {
     try {
-      const { expertId } = req.params;
+      if (!req.rawBody) {
+        return res.status(400).json({ message: "Webhook body required" });
+      }
       
-      if (!expertId) {
-        return res.status(400).json({ message: "Expert ID is required" });
+      const result = await handleWebhook(req.params.provider, req.rawBody, req.headers);
+      if (result === "unknown_provider") {
+        return res.status(404).json({ message: "Unknown payment provider" });
+      }
+      if (result === "invalid_signature") {
+        return res.status(400).json({ message: "Invalid webhook signature" });
       }
       
-      const averageRating = await storage.getAverageRatingForExpert(parseInt(expertId));
-      res.json({ rating: averageRating });
-    } catch (error: any) {
-      res.status(500).json({ message: error.message });
+      res.json({ status: result });
+    } catch (error) {
+      // Anything but a 2xx makes the provider retry later
+      console.error("Payment webhook error:", error);
+      res.status(500).json({ message: "Failed to process webhook" });
     }
   });
-  
-  apiRouter.get("/sessions/:sessionId/feedback", async (req: Request, res: Response) => {
+
+  // Wallet routes. Amounts are in rupees.
+  apiRouter.get("/users/:userId/wallet", requireAuth, async (req: Request, res: Response) => {
+    const userId = parseInt(req.params.userId);
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: "Invalid user ID" });
+    }
+    
+    if (!canActAsUser(req, userId)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    res.json(formatWallet(userId, await storage.getWallet(userId)));
+  });
+
+  apiRouter.get("/users/:userId/wallet/transactions", requireAuth, async (req: Request, res: Response) => {
+    const userId = parseInt(req.params.userId);
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: "Invalid user ID" });
+    }
+    
+    if (!canActAsUser(req, userId)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    const pageRequest = parsePageRequest(req.query);
+    if (!pageRequest) {
+      return res.status(400).json({ message: "Invalid pagination parameters" });
+    }
+
+    res.json(formatPage(await storage.listWalletTransactions(userId, pageRequest), formatWalletTransaction));
+  });
+
+  // Manual credit by an admin, e.g. goodwill or an offline payment
+  apiRouter.post("/users/:userId/wallet/top-ups", requireRole("admin"), async (req: Request, res: Response) => {
     try {
-      const { sessionId } = req.params;
+      const userId = parseInt(req.params.userId);
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
       
-      if (!sessionId) {
-        return res.status(400).json({ message: "Session ID is required" });
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
       
-      const feedback = await storage.getFeedbacksBySession(parseInt(sessionId));
-      res.json(feedback);
-    } catch (error: any) {
-      res.status(500).json({ message: error.message });
+      const input = topUpInputSchema.parse(req.body);
+      const { wallet, transaction } = await storage.creditWallet(userId, Math.round(input.amount * 100), {
+        description: input.description ?? "Wallet top-up"
+      });
+      await recordAuditEvent(req, "wallet.top_up", { type: "user", id: userId }, { after: transaction });
+      
+      res.status(201).json({
+        wallet: formatWallet(userId, wallet),
+        transaction: formatWalletTransaction(transaction)
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        res.status(500).json({ message: "Failed to top up wallet" });
+      }
     }
   });
 
-  // Payment routes
-  apiRouter.post("/payments", async (req: Request, res: Response) => {
+  // Admin routes. Everything under /api/admin is admin-only and every change made
+  // through it is written to the audit log.
+  const adminRouter = express.Router();
+  apiRouter.use("/admin", requireRole("admin"), adminRouter);
+
+  adminRouter.get("/users", async (req: Request, res: Response) => {
+    const pageRequest = parsePageRequest(req.query);
+    if (!pageRequest) {
+      return res.status(400).json({ message: "Invalid pagination parameters" });
+    }
+    
+    const role = typeof req.query.role === "string" ? req.query.role : undefined;
+    const page = await storage.listUsers(role, pageRequest);
+    const items = await Promise.all(
+      page.items.map(async (user) => formatAdminUser(user, await storage.getUserRestriction(user.id)))
+    );
+    res.json(formatPage({ ...page, items }));
+  });
+
+  adminRouter.get("/users/:id", async (req: Request, res: Response) => {
+    const userId = parseInt(req.params.id);
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: "Invalid user ID" });
+    }
+    
+    const user = await storage.getUser(userId);
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    
+    const expert = await storage.getExpertByUserId(userId);
+    res.json({
+      ...formatAdminUser(user, await storage.getUserRestriction(userId)),
+      expertId: expert?.id ?? null
+    });
+  });
+
+  // Suspends or bans a user and logs them out everywhere. A new restriction replaces
+  // the current one, e.g. to turn a suspension into a ban.
+  adminRouter.put("/users/:id/restriction", async (req: Request, res: Response) => {
     try {
-      const paymentData = insertPaymentSchema.parse(req.body);
-      const payment = await storage.createPayment(paymentData);
-      res.status(201).json(payment);
+      const userId = parseInt(req.params.id);
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+      
+      const input = userRestrictionInputSchema.parse(req.body);
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.role === "admin") {
+        return res.status(409).json({ message: "Admins cannot be suspended or banned" });
+      }
+      
+      const previous = await storage.getUserRestriction(userId);
+      const restriction = await storage.restrictUser({
+        userId,
+        kind: input.kind,
+        reason: input.reason,
+        until: input.until ?? null,
+        restrictedBy: req.auth!.userId
+      });
+      disconnectUser(userId);
+      await recordAuditEvent(req, input.kind === "banned" ? "user.ban" : "user.suspend", { type: "user", id: userId }, {
+        before: previous ?? null,
+        after: restriction
+      });
+      
+      res.json(formatAdminUser(user, restriction));
     } catch (error) {
       if (error instanceof ZodError) {
         const validationError = fromZodError(error);
         res.status(400).json({ message: validationError.message });
       } else {
-        res.status(500).json({ message: "Failed to create payment" });
+        res.status(500).json({ message: "Failed to restrict user" });
       }
     }
   });
 
-  apiRouter.get("/users/:userId/payments", async (req: Request, res: Response) => {
-    const userId = parseInt(req.params.userId);
+  adminRouter.delete("/users/:id/restriction", async (req: Request, res: Response) => {
+    const userId = parseInt(req.params.id);
     if (isNaN(userId)) {
       return res.status(400).json({ message: "Invalid user ID" });
     }
+    
+    const user = await storage.getUser(userId);
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    
+    const lifted = await storage.liftUserRestriction(userId);
+    if (!lifted) {
+      return res.status(404).json({ message: "User is not suspended or banned" });
+    }
+    await recordAuditEvent(req, "user.reinstate", { type: "user", id: userId }, { before: lifted, after: null });
+    
+    res.json(formatAdminUser(user, undefined));
+  });
+
+  // All experts, listed or not. approved=true or false narrows the list.
+  adminRouter.get("/experts", async (req: Request, res: Response) => {
+    const pageRequest = parsePageRequest(req.query);
+    if (!pageRequest) {
+      return res.status(400).json({ message: "Invalid pagination parameters" });
+    }
+    
+    const { approved } = req.query;
+    if (approved !== undefined && approved !== "true" && approved !== "false") {
+      return res.status(400).json({ message: "approved must be true or false" });
+    }
+    
+    const experts = await Promise.all(
+      (await storage.getAllExperts({ includeUnapproved: true }))
+        .sort((a, b) => a.id - b.id)
+        .map(async (expert) => ({ ...expert, approved: await storage.isExpertApproved(expert.id) }))
+    );
+    const page = paginateList(
+      experts.filter((expert) => approved === undefined || expert.approved === (approved === "true")),
+      pageRequest
+    );
+    if (!page) {
+      return res.status(400).json({ message: "Invalid cursor" });
+    }
+    
+    res.json(formatPage(page));
+  });
 
-    const payments = await storage.getPaymentsByUser(userId);
-    res.json(payments);
+  // Lists or unlists an expert without going through an application
+  adminRouter.put("/experts/:id/approval", async (req: Request, res: Response) => {
+    try {
+      const expertId = parseInt(req.params.id);
+      if (isNaN(expertId)) {
+        return res.status(400).json({ message: "Invalid expert ID" });
+      }
+      
+      const { approved } = expertApprovalInputSchema.parse(req.body);
+      const expert = await storage.getExpert(expertId);
+      if (!expert) {
+        return res.status(404).json({ message: "Expert not found" });
+      }
+      
+      const wasApproved = await storage.isExpertApproved(expertId);
+      if (wasApproved !== approved) {
+        await storage.setExpertApproval(expertId, approved, req.auth!.userId);
+        await recordAuditEvent(req, approved ? "expert.approve" : "expert.unlist", { type: "expert", id: expertId }, {
+          before: { approved: wasApproved },
+          after: { approved }
+        });
+      }
+      
+      res.json({ ...expert, approved });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        res.status(500).json({ message: "Failed to update expert approval" });
+      }
+    }
   });
 
-  apiRouter.get("/experts/:expertId/payments", async (req: Request, res: Response) => {
-    const expertId = parseInt(req.params.expertId);
-    if (isNaN(expertId)) {
-      return res.status(400).json({ message: "Invalid expert ID" });
+  adminRouter.post("/categories", async (req: Request, res: Response) => {
+    try {
+      const categoryData = insertCategorySchema.parse(req.body);
+      const category = await storage.createCategory(categoryData);
+      await recordAuditEvent(req, "category.create", { type: "category", id: category.id }, { after: category });
+      res.status(201).json(category);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        res.status(500).json({ message: "Failed to create category" });
+      }
     }
+  });
 
-    const payments = await storage.getPaymentsByExpert(expertId);
-    res.json(payments);
+  adminRouter.patch("/categories/:id", async (req: Request, res: Response) => {
+    try {
+      const categoryId = parseInt(req.params.id);
+      if (isNaN(categoryId)) {
+        return res.status(400).json({ message: "Invalid category ID" });
+      }
+      
+      const changes = categoryUpdateSchema.parse(req.body);
+      const previous = await storage.getCategory(categoryId);
+      const category = previous && await storage.updateCategory(categoryId, changes);
+      if (!previous || !category) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+      await recordAuditEvent(req, "category.update", { type: "category", id: categoryId }, { before: previous, after: category });
+      
+      res.json(category);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        res.status(500).json({ message: "Failed to update category" });
+      }
+    }
   });
 
-  // Create HTTP server
-  const httpServer = createServer(app);
-  
-  // WebSocket connected clients map
-  interface WebSocketClient extends WebSocket {
-    userId?: string;
-    isAlive?: boolean;
-  }
-  
-  const connectedClients: Map<string, WebSocketClient> = new Map();
-  
-  // Setup WebSocket server
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
-  
-  wss.on('connection', (ws: WebSocketClient) => {
-    console.log('WebSocket client connected');
-    ws.isAlive = true;
+  // Deactivated advice disappears from listings and search but is kept
+  adminRouter.put("/advice/:id/status", async (req: Request, res: Response) => {
+    try {
+      const adviceId = parseInt(req.params.id);
+      if (isNaN(adviceId)) {
+        return res.status(400).json({ message: "Invalid advice ID" });
+      }
+      
+      const input = adviceStatusInputSchema.parse(req.body);
+      const advice = await storage.getAdvice(adviceId);
+      if (!advice) {
+        return res.status(404).json({ message: "Advice not found" });
+      }
+      
+      if ((await storage.isAdviceActive(adviceId)) !== input.isActive) {
+        await storage.setAdviceActive(adviceId, input.isActive, req.auth!.userId, input.reason ?? null);
+        await recordAuditEvent(req, input.isActive ? "advice.activate" : "advice.deactivate", { type: "advice", id: adviceId }, {
+          before: { isActive: !input.isActive },
+          after: { isActive: input.isActive },
+          details: { reason: input.reason ?? null }
+        });
+      }
+      
+      res.json({ ...advice, isActive: input.isActive });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        res.status(500).json({ message: "Failed to update advice" });
+      }
+    }
+  });
+
+  adminRouter.get("/inspirations", async (_req: Request, res: Response) => {
+    res.json(await storage.getAllInspirations());
+  });
+
+  adminRouter.post("/inspirations", async (req: Request, res: Response) => {
+    try {
+      const inspirationData = insertInspirationSchema.parse(req.body);
+      const inspiration = await storage.createInspiration(inspirationData);
+      await recordAuditEvent(req, "inspiration.create", { type: "inspiration", id: inspiration.id }, { after: inspiration });
+      res.status(201).json(inspiration);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        res.status(500).json({ message: "Failed to create inspiration" });
+      }
+    }
+  });
+
+  adminRouter.patch("/inspirations/:id", async (req: Request, res: Response) => {
+    const inspirationId = parseInt(req.params.id);
+    if (isNaN(inspirationId)) {
+      return res.status(400).json({ message: "Invalid inspiration ID" });
+    }
     
-    // Ping mechanism to detect broken connections
-    ws.on('pong', () => {
-      ws.isAlive = true;
-    });
+    const { isActive } = req.body;
+    if (typeof isActive !== 'boolean') {
+      return res.status(400).json({ message: "isActive must be a boolean" });
+    }
     
-    ws.on('message', (message: Buffer | string) => {
-      try {
-        const data = JSON.parse(message.toString());
-        
-        // Handle registration
-        if (data.type === 'register' && data.userId) {
-          ws.userId = data.userId;
-          connectedClients.set(data.userId, ws);
-          console.log(`User ${data.userId} registered for WebRTC signaling`);
-          return;
-        }
-        
-        // Handle signaling messages
-        if (data.type && data.from && data.to) {
-          // Find the recipient
-          const recipient = connectedClients.get(data.to);
-          if (recipient && recipient.readyState === WebSocket.OPEN) {
-            recipient.send(message.toString());
-          } else {
-            // Inform sender that recipient is not available
-            if (ws.readyState === WebSocket.OPEN) {
-              ws.send(JSON.stringify({
-                type: 'error',
-                message: 'Recipient not available',
-                from: 'server',
-                to: data.from
-              }));
-            }
-          }
-        }
-      } catch (e) {
-        console.error('Error handling WebSocket message:', e);
-      }
-    });
+    const inspiration = await storage.setInspirationActive(inspirationId, isActive);
+    if (!inspiration) {
+      return res.status(404).json({ message: "Inspiration not found" });
+    }
+    await recordAuditEvent(req, `inspiration.${isActive ? "activate" : "deactivate"}`, { type: "inspiration", id: inspirationId }, { after: { isActive } });
     
-    ws.on('close', () => {
-      if (ws.userId) {
-        connectedClients.delete(ws.userId);
-        console.log(`User ${ws.userId} disconnected from WebRTC signaling`);
+    res.json(inspiration);
+  });
+
+  // Newest first. Filters: userId, expertId, status and transactionId.
+  adminRouter.get("/payments", async (req: Request, res: Response) => {
+    try {
+      const pageRequest = parsePageRequest(req.query);
+      if (!pageRequest) {
+        return res.status(400).json({ message: "Invalid pagination parameters" });
+      }
+      
+      const filters = paymentFiltersQuerySchema.parse(req.query);
+      res.json(formatPage(await storage.listPayments(filters, pageRequest)));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        res.status(500).json({ message: "Failed to list payments" });
       }
+    }
+  });
+
+  // A payment with everything that happened to it
+  adminRouter.get("/payments/:id", async (req: Request, res: Response) => {
+    const paymentId = parseInt(req.params.id);
+    if (isNaN(paymentId)) {
+      return res.status(400).json({ message: "Invalid payment ID" });
+    }
+    
+    const payment = await storage.getPayment(paymentId);
+    if (!payment) {
+      return res.status(404).json({ message: "Payment not found" });
+    }
+    
+    const [lineItems, orders, refunds, charge, invoice] = await Promise.all([
+      storage.getPaymentLineItems(paymentId),
+      storage.getPaymentOrdersByPayment(paymentId),
+      storage.getRefundsByPayment(paymentId),
+      storage.getSessionChargeByPayment(paymentId),
+      storage.getInvoiceByPayment(paymentId)
+    ]);
+    res.json({
+      ...payment,
+      lineItems,
+      orders: orders.map(formatPaymentOrder),
+      refunds: refunds.map(formatRefund),
+      charge: charge ?? null,
+      invoice: invoice ? formatInvoice(invoice) : null
     });
   });
-  
-  // Set up a ping interval to keep connections alive and detect broken ones
-  const pingInterval = setInterval(() => {
-    wss.clients.forEach((ws: WebSocketClient) => {
-      if (ws.isAlive === false) {
-        // Connection is dead
-        if (ws.userId) {
-          connectedClients.delete(ws.userId);
-        }
-        return ws.terminate();
+
+  // Newest first. Filters: actorId, action, targetType, targetId, ip, and from and to
+  // for when the event happened.
+  adminRouter.get("/audit-events", async (req: Request, res: Response) => {
+    try {
+      const pageRequest = parsePageRequest(req.query);
+      if (!pageRequest) {
+        return res.status(400).json({ message: "Invalid pagination parameters" });
       }
       
-      // Mark as potentially dead until we receive a pong
-      ws.isAlive = false;
-      ws.ping();
-    });
-  }, 30000); // Check every 30 seconds
-  
-  // Clean up interval on close
-  wss.on('close', () => {
-    clearInterval(pingInterval);
+      const filters = auditEventQuerySchema.parse(req.query);
+      res.json(formatPage(await storage.listAuditEvents(filters, pageRequest)));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        res.status(500).json({ message: "Failed to list audit events" });
+      }
+    }
   });
+
+  // Create HTTP server
+  const httpServer = createServer(app);
+  
+  // WebRTC signaling over /ws
+  setupWebSocketServer(httpServer);
+  
+  // Debit live prepaid sessions minute by minute
+  const stopWalletMetering = startWalletMetering();
+  httpServer.on("close", stopWalletMetering);
+  
+  issueMissingInvoices().catch((e) => console.error("Issuing missed invoices failed:", e));
   
   return httpServer;
 }
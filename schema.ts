@@ -0,0 +1,596 @@
+import { pgTable, serial, integer, text, timestamp, boolean, jsonb, uniqueIndex, index, customType } from "drizzle-orm/pg-core";
+import { sql, type SQL } from "drizzle-orm";
+import { users, experts, categories, advices, sessions, messages, payments, bookings, feedback } from "@shared/schema";
+
+// Server-side tables that live alongside the shared schema.
+// These are never sent to the client as-is, so they only need drizzle types.
+
+// Refresh-token backed login sessions
+export const authSessions = pgTable("auth_sessions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  refreshTokenHash: text("refresh_token_hash").notNull().unique(),
+  userAgent: text("user_agent"),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type AuthSession = typeof authSessions.$inferSelect;
+export type InsertAuthSession = typeof authSessions.$inferInsert;
+
+// Weekly availability published by an expert, interpreted in their own timezone
+export const expertSchedules = pgTable("expert_schedules", {
+  expertId: integer("expert_id").primaryKey().references(() => experts.id),
+  timezone: text("timezone").notNull().default("Asia/Kolkata"),
+  slotMinutes: integer("slot_minutes").notNull().default(60),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Recurring windows, in minutes from local midnight. dayOfWeek 0 is Sunday.
+export const expertAvailabilityRules = pgTable("expert_availability_rules", {
+  id: serial("id").primaryKey(),
+  expertId: integer("expert_id").notNull().references(() => experts.id),
+  dayOfWeek: integer("day_of_week").notNull(),
+  startMinute: integer("start_minute").notNull(),
+  endMinute: integer("end_minute").notNull(),
+});
+
+// One-off changes for a local date: blocked time (holidays) or extra open time.
+// A blocked exception without start/end blocks the whole day.
+export const expertAvailabilityExceptions = pgTable("expert_availability_exceptions", {
+  id: serial("id").primaryKey(),
+  expertId: integer("expert_id").notNull().references(() => experts.id),
+  date: text("date").notNull(),
+  startMinute: integer("start_minute"),
+  endMinute: integer("end_minute"),
+  isAvailable: boolean("is_available").notNull().default(false),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type ExpertSchedule = typeof expertSchedules.$inferSelect;
+export type InsertExpertSchedule = typeof expertSchedules.$inferInsert;
+export type AvailabilityRule = typeof expertAvailabilityRules.$inferSelect;
+export type InsertAvailabilityRule = typeof expertAvailabilityRules.$inferInsert;
+export type AvailabilityException = typeof expertAvailabilityExceptions.$inferSelect;
+export type InsertAvailabilityException = typeof expertAvailabilityExceptions.$inferInsert;
+
+// Lifecycle of a chat or call session. Sessions created before this table existed have no row.
+export const sessionStates = pgTable("session_states", {
+  sessionId: integer("session_id").primaryKey().references(() => sessions.id),
+  status: text("status", { enum: ["requested", "active", "ended", "missed"] }).notNull().default("requested"),
+  startedAt: timestamp("started_at"),
+  endedAt: timestamp("ended_at"),
+  durationSeconds: integer("duration_seconds"),
+  endedBy: integer("ended_by").references(() => users.id),
+  // The paid booking the session is held for; it is not billed again
+  bookingId: integer("booking_id").unique().references(() => bookings.id),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type SessionState = typeof sessionStates.$inferSelect;
+export type InsertSessionState = typeof sessionStates.$inferInsert;
+export type SessionStatus = SessionState["status"];
+
+// The charge computed for a session when it ends. Amounts are in paise.
+export const sessionCharges = pgTable("session_charges", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").notNull().unique().references(() => sessions.id),
+  paymentId: integer("payment_id").notNull().unique().references(() => payments.id),
+  durationSeconds: integer("duration_seconds").notNull(),
+  billableMinutes: integer("billable_minutes").notNull(),
+  ratePerMinute: integer("rate_per_minute").notNull(),
+  minimumApplied: boolean("minimum_applied").notNull().default(false),
+  total: integer("total").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Itemized breakdown of a payment. Amounts are in paise.
+export const paymentLineItems = pgTable("payment_line_items", {
+  id: serial("id").primaryKey(),
+  paymentId: integer("payment_id").notNull().references(() => payments.id),
+  description: text("description").notNull(),
+  quantity: integer("quantity").notNull(),
+  unitAmount: integer("unit_amount").notNull(),
+  amount: integer("amount").notNull(),
+});
+
+export type SessionCharge = typeof sessionCharges.$inferSelect;
+export type InsertSessionCharge = typeof sessionCharges.$inferInsert;
+export type PaymentLineItem = typeof paymentLineItems.$inferSelect;
+export type InsertPaymentLineItem = typeof paymentLineItems.$inferInsert;
+
+// Prepaid balance per user. Amounts are in paise; `held` is reserved by live sessions.
+export const wallets = pgTable("wallets", {
+  userId: integer("user_id").primaryKey().references(() => users.id),
+  balance: integer("balance").notNull().default(0),
+  held: integer("held").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Append-only ledger of every balance movement
+export const walletTransactions = pgTable("wallet_transactions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  type: text("type", { enum: ["credit", "debit", "hold", "release"] }).notNull(),
+  amount: integer("amount").notNull(),
+  balanceAfter: integer("balance_after").notNull(),
+  heldAfter: integer("held_after").notNull(),
+  sessionId: integer("session_id").references(() => sessions.id),
+  paymentId: integer("payment_id").references(() => payments.id),
+  description: text("description").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Funds reserved for a live session, drawn down minute by minute
+export const walletHolds = pgTable("wallet_holds", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  sessionId: integer("session_id").notNull().unique().references(() => sessions.id),
+  amount: integer("amount").notNull(),
+  consumed: integer("consumed").notNull().default(0),
+  ratePerMinute: integer("rate_per_minute").notNull(),
+  status: text("status", { enum: ["active", "settled"] }).notNull().default("active"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type Wallet = typeof wallets.$inferSelect;
+export type WalletTransaction = typeof walletTransactions.$inferSelect;
+export type InsertWalletTransaction = typeof walletTransactions.$inferInsert;
+export type WalletHold = typeof walletHolds.$inferSelect;
+
+// An order opened with the payment provider, either to pay a Payment or to top up a wallet
+export const paymentOrders = pgTable("payment_orders", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  purpose: text("purpose", { enum: ["payment", "wallet_top_up"] }).notNull(),
+  paymentId: integer("payment_id").references(() => payments.id),
+  provider: text("provider").notNull(),
+  providerOrderId: text("provider_order_id").notNull(),
+  providerPaymentId: text("provider_payment_id"),
+  amount: integer("amount").notNull(),
+  currency: text("currency").notNull().default("INR"),
+  status: text("status", { enum: ["pending", "succeeded", "failed"] }).notNull().default("pending"),
+  failureReason: text("failure_reason"),
+  // What the client was given to open the checkout, so an open order can be handed out again
+  checkout: jsonb("checkout").$type<Record<string, unknown>>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  providerOrderUnique: uniqueIndex("payment_orders_provider_order_idx").on(table.provider, table.providerOrderId),
+}));
+
+// Every webhook delivery we accepted, so redeliveries are recognised
+export const webhookEvents = pgTable("webhook_events", {
+  id: serial("id").primaryKey(),
+  provider: text("provider").notNull(),
+  eventId: text("event_id").notNull(),
+  type: text("type").notNull(),
+  payload: jsonb("payload").notNull(),
+  receivedAt: timestamp("received_at").defaultNow().notNull(),
+  processedAt: timestamp("processed_at"),
+}, (table) => ({
+  providerEventUnique: uniqueIndex("webhook_events_provider_event_idx").on(table.provider, table.eventId),
+}));
+
+export type PaymentOrder = typeof paymentOrders.$inferSelect;
+export type InsertPaymentOrder = typeof paymentOrders.$inferInsert;
+export type PaymentOrderStatus = PaymentOrder["status"];
+export type WebhookEvent = typeof webhookEvents.$inferSelect;
+export type InsertWebhookEvent = typeof webhookEvents.$inferInsert;
+
+// How long each booking holds the expert's time, fixed when it is booked so a later
+// change of slot length does not move its end
+export const bookingLengths = pgTable("booking_lengths", {
+  bookingId: integer("booking_id").primaryKey().references(() => bookings.id),
+  minutes: integer("minutes").notNull(),
+});
+
+// Payment taken upfront for a booked slot
+export const bookingPayments = pgTable("booking_payments", {
+  bookingId: integer("booking_id").primaryKey().references(() => bookings.id),
+  paymentId: integer("payment_id").notNull().unique().references(() => payments.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Money returned against a payment. A payment can have several partial refunds.
+export const refunds = pgTable("refunds", {
+  id: serial("id").primaryKey(),
+  paymentId: integer("payment_id").notNull().references(() => payments.id),
+  amount: integer("amount").notNull(),
+  reason: text("reason").notNull(),
+  source: text("source", { enum: ["booking_cancellation", "dispute", "support"] }).notNull(),
+  // Back to the wallet, or through the provider that took the payment
+  destination: text("destination", { enum: ["wallet", "original"] }).notNull(),
+  status: text("status", { enum: ["pending", "processed", "failed"] }).notNull().default("pending"),
+  providerRefundId: text("provider_refund_id"),
+  failureReason: text("failure_reason"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  processedAt: timestamp("processed_at"),
+});
+
+export const disputes = pgTable("disputes", {
+  id: serial("id").primaryKey(),
+  paymentId: integer("payment_id").notNull().references(() => payments.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  reason: text("reason").notNull(),
+  status: text("status", { enum: ["open", "under_review", "refunded", "rejected"] }).notNull().default("open"),
+  resolution: text("resolution"),
+  refundId: integer("refund_id").references(() => refunds.id),
+  resolvedBy: integer("resolved_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type BookingPayment = typeof bookingPayments.$inferSelect;
+export type Refund = typeof refunds.$inferSelect;
+export type InsertRefund = typeof refunds.$inferInsert;
+export type RefundStatus = Refund["status"];
+export type Dispute = typeof disputes.$inferSelect;
+export type InsertDispute = typeof disputes.$inferInsert;
+export type DisputeStatus = Dispute["status"];
+
+// Platform commission in basis points. Rows without an expert set the platform-wide
+// rate; the latest row in effect when a payment was made applies to it.
+export const commissionRates = pgTable("commission_rates", {
+  id: serial("id").primaryKey(),
+  expertId: integer("expert_id").references(() => experts.id),
+  rateBps: integer("rate_bps").notNull(),
+  effectiveFrom: timestamp("effective_from").notNull(),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// One payout run, covering every expert's unpaid earnings up to periodEnd
+export const payoutBatches = pgTable("payout_batches", {
+  id: serial("id").primaryKey(),
+  periodEnd: timestamp("period_end").notNull().unique(),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const payouts = pgTable("payouts", {
+  id: serial("id").primaryKey(),
+  batchId: integer("batch_id").notNull().references(() => payoutBatches.id),
+  expertId: integer("expert_id").notNull().references(() => experts.id),
+  amount: integer("amount").notNull(),
+  status: text("status", { enum: ["pending", "processing", "paid", "failed"] }).notNull().default("pending"),
+  reference: text("reference"),
+  failureReason: text("failure_reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  paidAt: timestamp("paid_at"),
+});
+
+// What a payout paid towards each payment. Negative amounts claw back earnings
+// already paid out for a payment that was refunded later.
+// A payment can appear in several payouts: again after a failed payout, and as a
+// negative adjustment after a refund. Each payout lists it at most once.
+export const payoutItems = pgTable("payout_items", {
+  id: serial("id").primaryKey(),
+  payoutId: integer("payout_id").notNull().references(() => payouts.id),
+  paymentId: integer("payment_id").notNull().references(() => payments.id),
+  amount: integer("amount").notNull(),
+}, (table) => ({
+  payoutPaymentUnique: uniqueIndex("payout_items_payout_payment_idx").on(table.payoutId, table.paymentId),
+}));
+
+export type CommissionRate = typeof commissionRates.$inferSelect;
+export type InsertCommissionRate = typeof commissionRates.$inferInsert;
+export type PayoutBatch = typeof payoutBatches.$inferSelect;
+export type InsertPayoutBatch = typeof payoutBatches.$inferInsert;
+export type Payout = typeof payouts.$inferSelect;
+export type InsertPayout = typeof payouts.$inferInsert;
+export type PayoutStatus = Payout["status"];
+export type PayoutItem = typeof payoutItems.$inferSelect;
+export type InsertPayoutItem = typeof payoutItems.$inferInsert;
+
+// Sequentially numbered invoice for a paid payment. The parties, tax settings and
+// amounts are copied in when the invoice is issued so later changes do not alter it.
+export const invoices = pgTable("invoices", {
+  id: serial("id").primaryKey(),
+  number: text("number").notNull().unique(),
+  // Indian financial year (April to March) the invoice belongs to, e.g. "2526"
+  financialYear: text("financial_year").notNull(),
+  sequence: integer("sequence").notNull(),
+  paymentId: integer("payment_id").notNull().unique().references(() => payments.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  expertId: integer("expert_id").notNull().references(() => experts.id),
+  sessionId: integer("session_id").references(() => sessions.id),
+  // A tax invoice when the platform is GST registered, a plain receipt otherwise
+  kind: text("kind", { enum: ["tax_invoice", "receipt"] }).notNull(),
+  issuedAt: timestamp("issued_at").defaultNow().notNull(),
+  customerName: text("customer_name").notNull(),
+  expertName: text("expert_name").notNull(),
+  sessionType: text("session_type"),
+  durationSeconds: integer("duration_seconds"),
+  ratePerMinute: integer("rate_per_minute"),
+  transactionId: text("transaction_id"),
+  gstin: text("gstin"),
+  taxType: text("tax_type", { enum: ["igst", "cgst_sgst"] }),
+  taxRateBps: integer("tax_rate_bps").notNull().default(0),
+  // Prices are tax inclusive: total = taxableAmount + taxAmount
+  taxableAmount: integer("taxable_amount").notNull(),
+  taxAmount: integer("tax_amount").notNull(),
+  total: integer("total").notNull(),
+}, (table) => ({
+  sequenceUnique: uniqueIndex("invoices_financial_year_sequence_idx").on(table.financialYear, table.sequence),
+}));
+
+export type Invoice = typeof invoices.$inferSelect;
+export type InsertInvoice = typeof invoices.$inferInsert;
+
+// Delivery state of a chat message. clientMessageId is chosen by the sender's client
+// so that a retried send returns the stored message instead of creating another.
+// Messages created before this table existed have no row.
+export const messageReceipts = pgTable("message_receipts", {
+  messageId: integer("message_id").primaryKey().references(() => messages.id),
+  sessionId: integer("session_id").notNull().references(() => sessions.id),
+  senderId: integer("sender_id").notNull().references(() => users.id),
+  clientMessageId: text("client_message_id"),
+  deliveredAt: timestamp("delivered_at"),
+}, (table) => ({
+  clientMessageUnique: uniqueIndex("message_receipts_sender_client_message_idx").on(table.senderId, table.clientMessageId),
+}));
+
+export type MessageReceipt = typeof messageReceipts.$inferSelect;
+
+// How far each participant has read a chat. Everything the other side sent with
+// an id up to lastReadMessageId has been read.
+export const chatReadCursors = pgTable("chat_read_cursors", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").notNull().references(() => sessions.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  lastReadMessageId: integer("last_read_message_id").notNull().references(() => messages.id),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  participantUnique: uniqueIndex("chat_read_cursors_session_user_idx").on(table.sessionId, table.userId),
+}));
+
+export type ChatReadCursor = typeof chatReadCursors.$inferSelect;
+
+// A file uploaded into a chat. It belongs to its uploader until a message
+// references it; from then on both participants can download it. Thumbnails of
+// images and documents are made by the client and uploaded separately.
+export const attachments = pgTable("attachments", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").notNull().references(() => sessions.id),
+  uploaderId: integer("uploader_id").notNull().references(() => users.id),
+  messageId: integer("message_id").references(() => messages.id),
+  kind: text("kind", { enum: ["image", "voice", "document"] }).notNull(),
+  contentType: text("content_type").notNull(),
+  fileName: text("file_name").notNull(),
+  size: integer("size").notNull(),
+  storageKey: text("storage_key").notNull(),
+  width: integer("width"),
+  height: integer("height"),
+  durationSeconds: integer("duration_seconds"),
+  thumbnailKey: text("thumbnail_key"),
+  thumbnailContentType: text("thumbnail_content_type"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type Attachment = typeof attachments.$inferSelect;
+export type InsertAttachment = typeof attachments.$inferInsert;
+export type AttachmentKind = Attachment["kind"];
+
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
+// Searchable text of experts, advice and categories, written whenever one is
+// created. Words are indexed both as-is ("simple", which also covers Hindi) and
+// stemmed as English. The trigram indexes need the pg_trgm extension and let
+// misspelt searches still match.
+export const searchDocuments = pgTable("search_documents", {
+  id: serial("id").primaryKey(),
+  kind: text("kind", { enum: ["expert", "advice", "category"] }).notNull(),
+  refId: integer("ref_id").notNull(),
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  document: tsvector("document").notNull().generatedAlwaysAs((): SQL => sql`
+    setweight(to_tsvector('simple', ${searchDocuments.title}), 'A') ||
+    setweight(to_tsvector('english', ${searchDocuments.title}), 'A') ||
+    setweight(to_tsvector('simple', ${searchDocuments.body}), 'B') ||
+    setweight(to_tsvector('english', ${searchDocuments.body}), 'B')
+  `),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  refUnique: uniqueIndex("search_documents_kind_ref_idx").on(table.kind, table.refId),
+  documentIndex: index("search_documents_document_idx").using("gin", table.document),
+  titleTrigramIndex: index("search_documents_title_trgm_idx").using("gin", sql`${table.title} gin_trgm_ops`),
+  bodyTrigramIndex: index("search_documents_body_trgm_idx").using("gin", sql`${table.body} gin_trgm_ops`),
+}));
+
+export type SearchDocument = typeof searchDocuments.$inferSelect;
+export type SearchKind = SearchDocument["kind"];
+
+// Verification and moderation state of a feedback row. Only feedback with a review
+// row is a verified review: one per ended session, written by the session's user.
+// Hidden reviews stay stored but are left out of listings and the expert's rating.
+export const reviews = pgTable("reviews", {
+  feedbackId: integer("feedback_id").primaryKey().references(() => feedback.id),
+  sessionId: integer("session_id").notNull().unique().references(() => sessions.id),
+  expertId: integer("expert_id").notNull().references(() => experts.id),
+  status: text("status", { enum: ["published", "hidden"] }).notNull().default("published"),
+  reply: text("reply"),
+  repliedAt: timestamp("replied_at"),
+  moderatedBy: integer("moderated_by").references(() => users.id),
+  moderationReason: text("moderation_reason"),
+  moderatedAt: timestamp("moderated_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type Review = typeof reviews.$inferSelect;
+export type ReviewStatus = Review["status"];
+
+// Abuse reports against a review; a user can report each review once
+export const reviewReports = pgTable("review_reports", {
+  id: serial("id").primaryKey(),
+  feedbackId: integer("feedback_id").notNull().references(() => feedback.id),
+  reporterId: integer("reporter_id").notNull().references(() => users.id),
+  reason: text("reason").notNull(),
+  status: text("status", { enum: ["open", "upheld", "dismissed"] }).notNull().default("open"),
+  resolvedBy: integer("resolved_by").references(() => users.id),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  reporterUnique: uniqueIndex("review_reports_feedback_reporter_idx").on(table.feedbackId, table.reporterId),
+}));
+
+export type ReviewReport = typeof reviewReports.$inferSelect;
+export type InsertReviewReport = typeof reviewReports.$inferInsert;
+export type ReviewReportStatus = ReviewReport["status"];
+
+// Rating of an expert over their published reviews, kept up to date as reviews are
+// added, hidden or restored. experts.rating holds the same average rounded to one decimal.
+export const expertRatings = pgTable("expert_ratings", {
+  expertId: integer("expert_id").primaryKey().references(() => experts.id),
+  reviewCount: integer("review_count").notNull().default(0),
+  ratingTotal: integer("rating_total").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type ExpertRating = typeof expertRatings.$inferSelect;
+
+// The expert profile a user applies with; it becomes their experts row on approval
+export interface ExpertProfileInput {
+  specialization: string;
+  bio: string;
+  experience: number;
+  hourlyRate: number;
+  languages: string[];
+  categoryId: number;
+}
+
+// A user's request to become an expert. Admins approve or reject pending applications
+// with notes; approval creates the expert profile and makes the user an expert.
+export const expertApplications = pgTable("expert_applications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  status: text("status", { enum: ["pending", "approved", "rejected"] }).notNull().default("pending"),
+  profile: jsonb("profile").$type<ExpertProfileInput>().notNull(),
+  reviewNotes: text("review_notes"),
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  expertId: integer("expert_id").references(() => experts.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type ExpertApplication = typeof expertApplications.$inferSelect;
+export type InsertExpertApplication = typeof expertApplications.$inferInsert;
+export type ExpertApplicationStatus = ExpertApplication["status"];
+
+// Credentials and identity documents uploaded with an application, kept in the blob store
+export const expertApplicationDocuments = pgTable("expert_application_documents", {
+  id: serial("id").primaryKey(),
+  applicationId: integer("application_id").notNull().references(() => expertApplications.id),
+  kind: text("kind", { enum: ["credential", "id_document"] }).notNull(),
+  contentType: text("content_type").notNull(),
+  fileName: text("file_name").notNull(),
+  size: integer("size").notNull(),
+  storageKey: text("storage_key").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type ExpertApplicationDocument = typeof expertApplicationDocuments.$inferSelect;
+export type InsertExpertApplicationDocument = typeof expertApplicationDocuments.$inferInsert;
+export type ExpertDocumentKind = ExpertApplicationDocument["kind"];
+
+// Experts that may be listed. Every expert is approved when created, either from an
+// application or directly by an admin; profiles created before approvals existed
+// were given a row by the approve-existing-experts data migration.
+export const expertApprovals = pgTable("expert_approvals", {
+  expertId: integer("expert_id").primaryKey().references(() => experts.id),
+  applicationId: integer("application_id").references(() => expertApplications.id),
+  approvedBy: integer("approved_by").references(() => users.id),
+  approvedAt: timestamp("approved_at").defaultNow().notNull(),
+});
+
+export type ExpertApproval = typeof expertApprovals.$inferSelect;
+
+// Categories an expert belongs to besides their primary experts.categoryId, which
+// is kept here too once the expert has edited their categories
+export const expertCategories = pgTable("expert_categories", {
+  id: serial("id").primaryKey(),
+  expertId: integer("expert_id").notNull().references(() => experts.id),
+  categoryId: integer("category_id").notNull().references(() => categories.id),
+}, (table) => ({
+  expertCategoryUnique: uniqueIndex("expert_categories_expert_category_idx").on(table.expertId, table.categoryId),
+}));
+
+export type ExpertCategory = typeof expertCategories.$inferSelect;
+
+// Every change of an expert's hourlyRate, in rupees like the rate itself
+export const expertPriceChanges = pgTable("expert_price_changes", {
+  id: serial("id").primaryKey(),
+  expertId: integer("expert_id").notNull().references(() => experts.id),
+  previousRate: integer("previous_rate").notNull(),
+  newRate: integer("new_rate").notNull(),
+  changedBy: integer("changed_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type ExpertPriceChange = typeof expertPriceChanges.$inferSelect;
+
+// Suspended and banned accounts. A suspension with `until` ends by itself at that
+// time; anything else lasts until an admin lifts it. Users without a row are in
+// good standing.
+export const userRestrictions = pgTable("user_restrictions", {
+  userId: integer("user_id").primaryKey().references(() => users.id),
+  kind: text("kind", { enum: ["suspended", "banned"] }).notNull(),
+  reason: text("reason").notNull(),
+  until: timestamp("until"),
+  restrictedBy: integer("restricted_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type UserRestriction = typeof userRestrictions.$inferSelect;
+export type InsertUserRestriction = typeof userRestrictions.$inferInsert;
+export type UserRestrictionKind = UserRestriction["kind"];
+
+// Advice an admin has taken down. It stays stored but is left out of listings and search.
+export const adviceDeactivations = pgTable("advice_deactivations", {
+  adviceId: integer("advice_id").primaryKey().references(() => advices.id),
+  reason: text("reason"),
+  deactivatedBy: integer("deactivated_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type AdviceDeactivation = typeof adviceDeactivations.$inferSelect;
+
+// Security- and money-relevant events, one row per event. Rows are only ever added.
+// actorId is null for failed sign-ins and background jobs, ip for background jobs.
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  actorId: integer("actor_id").references(() => users.id),
+  // "<target type>.<verb>", e.g. user.suspend or booking.status_change
+  action: text("action").notNull(),
+  targetType: text("target_type").notNull(),
+  targetId: integer("target_id"),
+  before: jsonb("before"),
+  after: jsonb("after"),
+  details: jsonb("details").$type<Record<string, unknown>>(),
+  ip: text("ip"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  targetIdx: index("audit_events_target_idx").on(table.targetType, table.targetId),
+  actorIdx: index("audit_events_actor_idx").on(table.actorId),
+  createdAtIdx: index("audit_events_created_at_idx").on(table.createdAt),
+}));
+
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertAuditEvent = typeof auditEvents.$inferInsert;
+
+// One-off data fixes that DatabaseStorage has already applied, by name. Each runs
+// once, so later admin changes to the rows it wrote are not undone on restart.
+export const dataMigrations = pgTable("data_migrations", {
+  name: text("name").primaryKey(),
+  appliedAt: timestamp("applied_at").defaultNow().notNull(),
+});
@@ -0,0 +1,134 @@
+import type { Request } from "express";
+import type { Advice, Category, Expert } from "@shared/schema";
+import type { SearchKind } from "./schema";
+
+// Search across experts, advice and categories. Postgres matches the words with
+// its full-text indexes and misspelt ones by trigram similarity; MemStorage scores
+// the same text with matchScore. Results of every kind are ranked together.
+
+export const SEARCH_KINDS: SearchKind[] = ["expert", "advice", "category"];
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+export const MIN_QUERY_LENGTH = 2;
+export const MAX_QUERY_LENGTH = 100;
+
+export interface SearchRequest {
+  query: string;
+  kinds: SearchKind[];
+  limit: number;
+}
+
+export interface SearchHit {
+  kind: SearchKind;
+  refId: number;
+  // Higher is better; only comparable within one search
+  score: number;
+}
+
+// What gets indexed for a row. Title matches rank above body matches.
+export interface SearchText {
+  title: string;
+  body: string;
+}
+
+export function expertSearchText(expert: Expert, name: string | undefined): SearchText {
+  return {
+    title: name ?? "",
+    body: [expert.specialization, expert.bio, ...(expert.languages ?? [])].filter(Boolean).join("\n")
+  };
+}
+
+export function adviceSearchText(advice: Advice): SearchText {
+  return { title: advice.title, body: advice.description ?? "" };
+}
+
+export function categorySearchText(category: Category): SearchText {
+  return { title: category.name, body: category.description ?? "" };
+}
+
+// Reads q, type (comma separated kinds) and limit; undefined if they are invalid
+export function parseSearchRequest(query: Request["query"]): SearchRequest | undefined {
+  const { q, type, limit } = query;
+  if (typeof q !== "string") return undefined;
+
+  const text = q.normalize("NFKC").trim().replace(/\s+/g, " ");
+  if (text.length < MIN_QUERY_LENGTH || text.length > MAX_QUERY_LENGTH) return undefined;
+
+  let kinds = SEARCH_KINDS;
+  if (type !== undefined) {
+    if (typeof type !== "string") return undefined;
+    const requested = type.split(",").map((kind) => kind.trim());
+    if (requested.some((kind) => !SEARCH_KINDS.includes(kind as SearchKind))) return undefined;
+    kinds = requested as SearchKind[];
+  }
+
+  let searchLimit = DEFAULT_SEARCH_LIMIT;
+  if (limit !== undefined) {
+    searchLimit = Number(limit);
+    if (!Number.isInteger(searchLimit) || searchLimit < 1 || searchLimit > MAX_SEARCH_LIMIT) return undefined;
+  }
+
+  return { query: text, kinds, limit: searchLimit };
+}
+
+// Lowercased words in any script, so Devanagari is split the same way as Latin
+export function tokenize(text: string): string[] {
+  return text.normalize("NFKC").toLowerCase().match(/[\p{L}\p{M}\p{N}]+/gu) ?? [];
+}
+
+// Trigrams of a word padded the way pg_trgm pads it
+function trigrams(word: string): Set<string> {
+  const chars = Array.from(`  ${word} `);
+  const result = new Set<string>();
+  for (let i = 0; i + 3 <= chars.length; i++) {
+    result.add(chars.slice(i, i + 3).join(""));
+  }
+  return result;
+}
+
+// Share of trigrams two words have in common, from 0 to 1
+export function similarity(a: string, b: string): number {
+  const left = trigrams(a);
+  const right = trigrams(b);
+  let shared = 0;
+  left.forEach((gram) => {
+    if (right.has(gram)) shared++;
+  });
+  return shared / (left.size + right.size - shared);
+}
+
+// Below this a word is taken to be a different word rather than a typo
+const TYPO_SIMILARITY = 0.4;
+const BODY_WEIGHT = 0.5;
+
+function wordScore(token: string, words: string[]): number {
+  let best = 0;
+  for (const word of words) {
+    if (word === token) return 1;
+    if (token.length >= 3 && word.startsWith(token)) {
+      best = Math.max(best, 0.8);
+      continue;
+    }
+    const score = similarity(token, word);
+    if (score >= TYPO_SIMILARITY) best = Math.max(best, score * 0.8);
+  }
+  return best;
+}
+
+// How well text matches a query, or 0 if some word of the query is not found.
+// Used where there is no database to do the matching.
+export function matchScore(query: string, text: SearchText): number {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) return 0;
+
+  const titleWords = tokenize(text.title);
+  const bodyWords = tokenize(text.body);
+
+  let total = 0;
+  for (const token of tokens) {
+    const score = Math.max(wordScore(token, titleWords), wordScore(token, bodyWords) * BODY_WEIGHT);
+    if (score === 0) return 0;
+    total += score;
+  }
+  return total / tokens.length;
+}
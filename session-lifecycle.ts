@@ -0,0 +1,124 @@
+import type { Session } from "@shared/schema";
+import type { SessionState, SessionStatus } from "./schema";
+import { storage } from "./storage";
+import { sendToUser } from "./websocket";
+import { chargeSession } from "./billing";
+import { settleSessionFunds } from "./wallet";
+import { SYSTEM_AUDIT_CONTEXT, type AuditContext } from "./audit";
+
+// A session together with its lifecycle state, as returned by the API
+export type SessionDetails = Session & {
+  status: SessionStatus;
+  startedAt: Date | null;
+  endedAt: Date | null;
+  durationSeconds: number | null;
+  bookingId: number | null;
+};
+
+export const OPEN_SESSION_STATUSES: SessionStatus[] = ["requested", "active"];
+
+export function withState(session: Session, state: SessionState | undefined): SessionDetails {
+  // Sessions created before lifecycle tracking were used as open-ended, active chats
+  return {
+    ...session,
+    status: state?.status ?? "active",
+    startedAt: state ? state.startedAt : session.startTime,
+    endedAt: state?.endedAt ?? null,
+    durationSeconds: state?.durationSeconds ?? null,
+    bookingId: state?.bookingId ?? null
+  };
+}
+
+export async function getSessionDetails(sessionId: number): Promise<SessionDetails | undefined> {
+  const session = await storage.getSession(sessionId);
+  if (!session) return undefined;
+
+  return withState(session, await storage.getSessionState(sessionId));
+}
+
+export function isOpen(details: Pick<SessionDetails, "status">): boolean {
+  return OPEN_SESSION_STATUSES.includes(details.status);
+}
+
+// Pushes an event to both participants of a session over /ws
+export async function notifySessionParticipants(session: Session, event: Record<string, unknown>) {
+  const expert = await storage.getExpert(session.expertId);
+
+  sendToUser(session.userId, event);
+  if (expert) sendToUser(expert.userId, event);
+}
+
+// Tells both participants about a status change
+async function notifyParticipants(details: SessionDetails) {
+  await notifySessionParticipants(details, {
+    type: "session_status",
+    sessionId: details.id,
+    status: details.status,
+    startedAt: details.startedAt,
+    endedAt: details.endedAt,
+    durationSeconds: details.durationSeconds
+  });
+}
+
+// requested -> active. Returns undefined if the session was not waiting to start.
+export async function startSession(session: Session): Promise<SessionDetails | undefined> {
+  const state = await storage.transitionSessionState(session.id, ["requested"], {
+    status: "active",
+    startedAt: new Date()
+  });
+  if (!state) return undefined;
+
+  const details = withState(session, state);
+  await notifyParticipants(details);
+  return details;
+}
+
+// active -> ended, recording how long the session lasted and billing it. audit is
+// passed on to the payment the session is billed with.
+export async function endSession(
+  session: Session,
+  endedBy: number | null,
+  audit: AuditContext = SYSTEM_AUDIT_CONTEXT
+): Promise<SessionDetails | undefined> {
+  const current = withState(session, await storage.getSessionState(session.id));
+  if (current.status !== "active") return undefined;
+
+  const endedAt = new Date();
+  const startedAt = current.startedAt ?? session.startTime;
+  const state = await storage.transitionSessionState(session.id, ["active"], {
+    status: "ended",
+    endedAt,
+    endedBy,
+    durationSeconds: Math.max(0, Math.round((endedAt.getTime() - startedAt.getTime()) / 1000))
+  });
+  if (!state) return undefined;
+
+  const details = withState(session, state);
+
+  // Bill the session right away and take the charge from the wallet hold. A failure
+  // here must not undo the end; the charge can be created later through POST /payments
+  // and the wallet metering retries the settlement.
+  try {
+    await settleSessionFunds(session.id, await chargeSession(details, audit));
+  } catch (e) {
+    console.error(`Failed to charge session ${session.id}:`, e);
+  }
+
+  await notifyParticipants(details);
+  return details;
+}
+
+// requested -> missed, when the expert declines or the user gives up waiting
+export async function missSession(session: Session, endedBy: number | null): Promise<SessionDetails | undefined> {
+  const state = await storage.transitionSessionState(session.id, ["requested"], {
+    status: "missed",
+    endedAt: new Date(),
+    endedBy,
+    durationSeconds: 0
+  });
+  if (!state) return undefined;
+
+  const details = withState(session, state);
+  await notifyParticipants(details);
+  return details;
+}
@@ -0,0 +1,137 @@
+import type { Expert, User } from "@shared/schema";
+import type { Payout } from "./schema";
+import { storage } from "./storage";
+import { DEFAULT_TIMEZONE, zonedTimeToUtc } from "./availability";
+import { getExpertEarnings, summarizeEarnings, type EarningEntry, type EarningsSummary } from "./earnings";
+import { renderPdf, type PdfLine } from "./pdf";
+
+// Monthly earnings statements. Months follow the platform timezone.
+
+export interface Statement {
+  month: string;
+  expert: Expert;
+  user: User | undefined;
+  entries: EarningEntry[];
+  summary: EarningsSummary;
+  payouts: Payout[];
+}
+
+export function isStatementMonth(month: string): boolean {
+  return /^\d{4}-(0[1-9]|1[0-2])$/.test(month);
+}
+
+export function monthRange(month: string, timeZone: string = DEFAULT_TIMEZONE): { from: Date; to: Date } {
+  const [year, monthNumber] = month.split("-").map(Number);
+  const next = monthNumber === 12 ? `${year + 1}-01` : `${year}-${String(monthNumber + 1).padStart(2, "0")}`;
+
+  return {
+    from: zonedTimeToUtc(`${month}-01`, 0, timeZone),
+    to: zonedTimeToUtc(`${next}-01`, 0, timeZone)
+  };
+}
+
+export async function buildStatement(expert: Expert, month: string): Promise<Statement> {
+  const { from, to } = monthRange(month);
+  const inMonth = (date: Date) => date.getTime() >= from.getTime() && date.getTime() < to.getTime();
+
+  const [entries, items, payouts, user] = await Promise.all([
+    getExpertEarnings(expert.id),
+    storage.getCommittedPayoutItems(expert.id),
+    storage.getPayoutsByExpert(expert.id),
+    storage.getUser(expert.userId)
+  ]);
+
+  const monthEntries = entries.filter((entry) => inMonth(entry.date));
+  return {
+    month,
+    expert,
+    user,
+    entries: monthEntries,
+    summary: summarizeEarnings(monthEntries, items),
+    payouts: payouts.filter((payout) => inMonth(payout.paidAt ?? payout.createdAt))
+  };
+}
+
+function amount(paise: number): string {
+  return (paise / 100).toFixed(2);
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function statementToCsv(statement: Statement): string {
+  const rows: (string | number)[][] = [
+    ["date", "payment_id", "gross", "refunded", "net", "commission_percent", "commission", "earnings"],
+    ...statement.entries.map((entry) => [
+      entry.date.toISOString(),
+      entry.paymentId,
+      amount(entry.gross),
+      amount(entry.refunded),
+      amount(entry.net),
+      entry.commissionBps / 100,
+      amount(entry.commission),
+      amount(entry.earnings)
+    ]),
+    [
+      "total",
+      "",
+      amount(statement.summary.gross),
+      amount(statement.summary.refunded),
+      amount(statement.summary.net),
+      "",
+      amount(statement.summary.commission),
+      amount(statement.summary.earnings)
+    ]
+  ];
+
+  return rows.map((row) => row.map(csvCell).join(",")).join("\n") + "\n";
+}
+
+export function statementToPdf(statement: Statement): Buffer {
+  const columns = [0, 75, 150, 215, 280, 345, 410];
+  const row = (cells: string[], bold = false): PdfLine => ({
+    text: cells[0],
+    cells: cells.slice(1).map((text, i) => ({ text, x: columns[i + 1] })),
+    bold
+  });
+  const { summary } = statement;
+
+  const lines: PdfLine[] = [
+    { text: `Earnings statement for ${statement.month}`, size: 16, bold: true },
+    { text: `${statement.user?.name ?? `Expert #${statement.expert.id}`} (expert #${statement.expert.id})`, spaceBefore: 4 },
+    { text: "All amounts in INR", size: 8 },
+    { ...row(["Date", "Payment", "Gross", "Refunded", "Net", "Commission", "Earnings"], true), spaceBefore: 12 },
+    ...statement.entries.map((entry) => row([
+      entry.date.toISOString().slice(0, 10),
+      `#${entry.paymentId}`,
+      amount(entry.gross),
+      amount(entry.refunded),
+      amount(entry.net),
+      `${amount(entry.commission)} (${entry.commissionBps / 100}%)`,
+      amount(entry.earnings)
+    ])),
+    {
+      ...row(["Total", "", amount(summary.gross), amount(summary.refunded), amount(summary.net), amount(summary.commission), amount(summary.earnings)], true),
+      spaceBefore: 6
+    },
+    { text: `Included in payouts: ${amount(summary.paidOut)}    Not yet paid out: ${amount(summary.unpaid)}`, spaceBefore: 6 },
+    { text: "Payouts", size: 12, bold: true, spaceBefore: 16 }
+  ];
+
+  if (statement.payouts.length === 0) {
+    lines.push({ text: "No payouts this month" });
+  }
+  for (const payout of statement.payouts) {
+    lines.push(row([
+      (payout.paidAt ?? payout.createdAt).toISOString().slice(0, 10),
+      `#${payout.id}`,
+      amount(payout.amount),
+      payout.status,
+      payout.reference ?? ""
+    ]));
+  }
+
+  return renderPdf(lines);
+}
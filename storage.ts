@@ -1,5 +1,4 @@
 import { 
-  users, categories, experts, advices, sessions, messages, payments, bookings, inspirations, feedback,
   type User, type InsertUser, 
   type Expert, type InsertExpert,
   type Category, type InsertCategory,
@@ -11,44 +10,172 @@ import {
   type Inspiration, type InsertInspiration,
   type Feedback, type InsertFeedback
 } from "@shared/schema";
+import {
+  type AuthSession, type InsertAuthSession,
+  type ExpertSchedule, type InsertExpertSchedule,
+  type AvailabilityRule, type InsertAvailabilityRule,
+  type AvailabilityException, type InsertAvailabilityException,
+  type SessionState, type InsertSessionState, type SessionStatus,
+  type SessionCharge, type InsertSessionCharge,
+  type PaymentLineItem, type InsertPaymentLineItem,
+  type Wallet, type WalletTransaction, type WalletHold,
+  type PaymentOrder, type InsertPaymentOrder, type WebhookEvent, type InsertWebhookEvent,
+  type Refund, type InsertRefund, type Dispute, type InsertDispute, type DisputeStatus,
+  type CommissionRate, type InsertCommissionRate, type PayoutBatch, type InsertPayoutBatch,
+  type Payout, type InsertPayout, type PayoutStatus, type PayoutItem, type InsertPayoutItem,
+  type Invoice, type InsertInvoice,
+  type MessageReceipt, type ChatReadCursor,
+  type Attachment, type InsertAttachment,
+  type Review, type ReviewStatus, type ReviewReport, type InsertReviewReport, type ReviewReportStatus,
+  type ExpertRating,
+  type ExpertApplication, type InsertExpertApplication, type ExpertApplicationStatus,
+  type ExpertApplicationDocument, type InsertExpertApplicationDocument,
+  type ExpertPriceChange,
+  type UserRestriction, type InsertUserRestriction,
+  type AuditEvent, type InsertAuditEvent
+} from "./schema";
+import type { Page, PageRequest } from './pagination';
+import type { SearchHit, SearchRequest } from './search';
+import type { ExpertFilters, ExpertSort, ExpertProfileUpdate } from './experts';
+import type { ReviewedFeedback } from './reviews';
+import type { PaymentFilters } from './admin';
+import type { AuditEventFilters } from './audit';
+import type { ScheduledBooking } from './availability';
 import { DatabaseStorage } from './database-storage';
+import { MemStorage } from './mem-storage';
+import { createDatabase, getDatabaseConfig } from './db';
 
+// The list* methods return one page of a list ordered by id; the matching get*
+// methods return the whole list for internal use.
 export interface IStorage {
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
-  
-  // Expert operations
+  // Optionally only users with the given role
+  listUsers(role: string | undefined, page: PageRequest): Promise<Page<User>>;
+  
+  // Account restriction operations
+  // Undefined unless the user is suspended or banned right now
+  getUserRestriction(userId: number): Promise<UserRestriction | undefined>;
+  // Replaces any restriction the user already has and revokes all their auth sessions
+  restrictUser(restriction: InsertUserRestriction): Promise<UserRestriction>;
+  // Returns the restriction that was lifted, if there was one
+  liftUserRestriction(userId: number): Promise<UserRestriction | undefined>;
+  
+  // Auth session operations
+  createAuthSession(authSession: InsertAuthSession): Promise<AuthSession>;
+  getAuthSession(id: number): Promise<AuthSession | undefined>;
+  getAuthSessionByRefreshTokenHash(refreshTokenHash: string): Promise<AuthSession | undefined>;
+  // Replaces the refresh token only while the session still has previousHash, so a
+  // token can be exchanged once. Undefined if it was revoked or already rotated.
+  rotateAuthSessionToken(id: number, previousHash: string, refreshTokenHash: string, expiresAt: Date): Promise<AuthSession | undefined>;
+  revokeAuthSession(id: number): Promise<void>;
+  
+  // Expert operations. Only approved experts are returned by getAllExperts,
+  // getExpertsByCategory, listExperts and search.
   getExpert(id: number): Promise<Expert | undefined>;
   getExpertByUserId(userId: number): Promise<Expert | undefined>;
-  createExpert(expert: InsertExpert): Promise<Expert>;
+  // Creates an approved expert; approvedBy is the admin who approved them
+  createExpert(expert: InsertExpert, approvedBy: number): Promise<Expert>;
   updateExpertAvailability(id: number, availability: boolean): Promise<Expert | undefined>;
-  getAllExperts(): Promise<Expert[]>;
+  // Changes the given profile fields. categoryIds replaces the expert's categories with
+  // the first as experts.categoryId, and a new hourlyRate is added to the price history.
+  updateExpertProfile(id: number, changes: ExpertProfileUpdate, changedBy: number): Promise<Expert | undefined>;
+  // The primary category first, then the others by id
+  getExpertCategoryIds(expertId: number): Promise<number[]>;
+  // Newest first
+  getExpertPriceChanges(expertId: number): Promise<ExpertPriceChange[]>;
+  isExpertApproved(expertId: number): Promise<boolean>;
+  // Lists or unlists an expert outside the application process
+  setExpertApproval(expertId: number, approved: boolean, adminId: number): Promise<void>;
+  getAllExperts(options?: { includeUnapproved?: boolean }): Promise<Expert[]>;
   getExpertsByCategory(categoryId: number): Promise<Expert[]>;
+  // Ordered by id unless a sort is given
+  listExperts(filters: ExpertFilters, sort: ExpertSort | undefined, page: PageRequest): Promise<Page<Expert>>;
+  
+  // Expert application operations
+  // Undefined if the user already has a pending application
+  createExpertApplication(application: InsertExpertApplication): Promise<ExpertApplication | undefined>;
+  getExpertApplication(id: number): Promise<ExpertApplication | undefined>;
+  // Newest first
+  getExpertApplicationsByUser(userId: number): Promise<ExpertApplication[]>;
+  // Oldest first, so the review queue is worked in the order people applied
+  listExpertApplications(status: ExpertApplicationStatus | undefined, page: PageRequest): Promise<Page<ExpertApplication>>;
+  addExpertApplicationDocument(document: InsertExpertApplicationDocument): Promise<ExpertApplicationDocument>;
+  getExpertApplicationDocument(id: number): Promise<ExpertApplicationDocument | undefined>;
+  getExpertApplicationDocuments(applicationId: number): Promise<ExpertApplicationDocument[]>;
+  // Approves or rejects a pending application. Approval creates the user's expert
+  // profile from the application, or updates the one they already have, approves it
+  // and gives a non-admin user the expert role. Undefined if the application is not pending.
+  reviewExpertApplication(
+    id: number,
+    decision: "approved" | "rejected",
+    reviewerId: number,
+    notes: string | null
+  ): Promise<{ application: ExpertApplication; expert?: Expert } | undefined>;
+  
+  // Availability operations
+  getExpertSchedule(expertId: number): Promise<ExpertSchedule | undefined>;
+  getAvailabilityRules(expertId: number): Promise<AvailabilityRule[]>;
+  saveExpertSchedule(
+    schedule: InsertExpertSchedule,
+    rules: Omit<InsertAvailabilityRule, "expertId">[]
+  ): Promise<{ schedule: ExpertSchedule; rules: AvailabilityRule[] }>;
+  getAvailabilityExceptions(expertId: number, fromDate: string, toDate: string): Promise<AvailabilityException[]>;
+  createAvailabilityException(exception: InsertAvailabilityException): Promise<AvailabilityException>;
+  // Returns the deleted exception; undefined if the expert has no such exception
+  deleteAvailabilityException(expertId: number, id: number): Promise<AvailabilityException | undefined>;
   
   // Category operations
   getCategory(id: number): Promise<Category | undefined>;
   getAllCategories(): Promise<Category[]>;
   createCategory(category: InsertCategory): Promise<Category>;
+  updateCategory(id: number, changes: Partial<InsertCategory>): Promise<Category | undefined>;
   
-  // Advice operations
+  // Advice operations. Deactivated advice is left out of the list* methods and search.
   getAdvice(id: number): Promise<Advice | undefined>;
   getAllAdvices(): Promise<Advice[]>;
   getAdvicesByExpert(expertId: number): Promise<Advice[]>;
   getAdvicesByCategory(categoryId: number): Promise<Advice[]>;
+  listAdvices(page: PageRequest): Promise<Page<Advice>>;
+  listAdvicesByExpert(expertId: number, page: PageRequest): Promise<Page<Advice>>;
+  listAdvicesByCategory(categoryId: number, page: PageRequest): Promise<Page<Advice>>;
   createAdvice(advice: InsertAdvice): Promise<Advice>;
+  isAdviceActive(id: number): Promise<boolean>;
+  // reason is only kept when deactivating
+  setAdviceActive(id: number, isActive: boolean, adminId: number, reason: string | null): Promise<void>;
+  
+  // Search operations. Experts, advice and categories are indexed as they are created.
+  // Hits are best first.
+  search(request: SearchRequest): Promise<SearchHit[]>;
+  // Indexes every expert, advice and category again, e.g. rows created before search existed
+  rebuildSearchIndex(): Promise<void>;
   
   // Session operations (replaces chat operations)
   getSession(id: number): Promise<Session | undefined>;
   getSessionByUserAndExpert(userId: number, expertId: number): Promise<Session | undefined>;
   getSessionsByUser(userId: number): Promise<Session[]>;
   getSessionsByExpert(expertId: number): Promise<Session[]>;
-  createSession(session: InsertSession): Promise<Session>;
+  // New sessions start out requested
+  // bookingId links the paid booking the session is held for
+  createSession(session: InsertSession, bookingId?: number): Promise<Session>;
+  getSessionByBooking(bookingId: number): Promise<Session | undefined>;
+  getSessionState(sessionId: number): Promise<SessionState | undefined>;
+  // Applies the changes only while the session is in one of the `from` statuses.
+  // Sessions without a state row are treated as active.
+  transitionSessionState(
+    sessionId: number,
+    from: SessionStatus[],
+    changes: Partial<Omit<InsertSessionState, "sessionId">>
+  ): Promise<SessionState | undefined>;
+  // Latest requested or active session of the given type between a user and an expert
+  getOpenSessionByUserAndExpert(userId: number, expertId: number, type: Session["type"]): Promise<Session | undefined>;
   
   // For backward compatibility with chat-based code
   getChat(id: number): Promise<any | undefined>;
   getChatByUserAndExpert(userId: number, expertId: number): Promise<any | undefined>;
+  // Chat lists carry the last message and how many messages the viewer has not read
   getChatsByUser(userId: number): Promise<any[]>;
   getChatsByExpert(expertId: number): Promise<any[]>;
   createChat(chat: any): Promise<any>;
@@ -57,26 +184,197 @@ export interface IStorage {
   getMessage(id: number): Promise<Message | undefined>;
   getMessagesByChat(chatId: number): Promise<Message[]>;
   getMessagesBySession(sessionId: number): Promise<Message[]>;
+  // Oldest first
+  listMessagesBySession(sessionId: number, page: PageRequest): Promise<Page<Message>>;
   createMessage(message: InsertMessage): Promise<Message>;
-  markMessagesAsRead(sessionId: number, userId: number): Promise<void>;
+  // Marks everything userId has received in a session as read and moves their read
+  // cursor to the latest of it. Undefined if they have received nothing.
+  markMessagesAsRead(sessionId: number, userId: number): Promise<ChatReadCursor | undefined>;
+  getReadCursor(sessionId: number, userId: number): Promise<ChatReadCursor | undefined>;
+  // Stores a message with its receipt and attaches the given uploads to it. A send
+  // that repeats an earlier clientMessageId of the same sender returns the stored
+  // message with created set to false. Undefined if an attachment is missing, was
+  // uploaded by someone else or to another session, or belongs to another message.
+  createChatMessage(
+    message: InsertMessage,
+    clientMessageId: string | null,
+    attachmentIds: number[]
+  ): Promise<{ message: Message; receipt: MessageReceipt; attachments: Attachment[]; created: boolean } | undefined>;
+  getMessageReceipts(sessionId: number): Promise<MessageReceipt[]>;
+  // Marks the messages userId received in a session as delivered, all of them when
+  // messageIds is omitted. Returns only the receipts that changed.
+  markMessagesDelivered(sessionId: number, userId: number, messageIds?: number[]): Promise<MessageReceipt[]>;
+  
+  // Attachment operations
+  getAttachment(id: number): Promise<Attachment | undefined>;
+  getAttachmentsByMessages(messageIds: number[]): Promise<Attachment[]>;
+  createAttachment(attachment: InsertAttachment): Promise<Attachment>;
+  setAttachmentThumbnail(id: number, thumbnailKey: string, contentType: string): Promise<Attachment | undefined>;
   
   // Payment operations
   getPayment(id: number): Promise<Payment | undefined>;
   getPaymentsByUser(userId: number): Promise<Payment[]>;
   getPaymentsByExpert(expertId: number): Promise<Payment[]>;
+  // Newest first
+  listPaymentsByUser(userId: number, page: PageRequest): Promise<Page<Payment>>;
+  listPaymentsByExpert(expertId: number, page: PageRequest): Promise<Page<Payment>>;
+  listPayments(filters: PaymentFilters, page: PageRequest): Promise<Page<Payment>>;
   createPayment(payment: InsertPayment): Promise<Payment>;
+  getPaymentLineItems(paymentId: number): Promise<PaymentLineItem[]>;
+  // With `from`, only a payment in one of those statuses is changed; undefined otherwise
+  updatePaymentStatus(id: number, status: string, from?: string[]): Promise<Payment | undefined>;
+  
+  // Session billing operations
+  getSessionCharge(sessionId: number): Promise<SessionCharge | undefined>;
+  getSessionChargeByPayment(paymentId: number): Promise<SessionCharge | undefined>;
+  // Creates the payment, its charge record and line items together. Returns the
+  // existing charge if the session has already been billed.
+  createSessionCharge(
+    payment: InsertPayment,
+    charge: Omit<InsertSessionCharge, "paymentId">,
+    lineItems: Omit<InsertPaymentLineItem, "paymentId">[]
+  ): Promise<{ payment: Payment; charge: SessionCharge; lineItems: PaymentLineItem[] }>;
+  
+  // Invoice operations
+  getInvoice(id: number): Promise<Invoice | undefined>;
+  getInvoiceByPayment(paymentId: number): Promise<Invoice | undefined>;
+  getInvoicesByUser(userId: number): Promise<Invoice[]>;
+  // Payments in one of `statuses` that have no invoice yet, oldest first
+  getUninvoicedPayments(statuses: string[]): Promise<Payment[]>;
+  // Gives the invoice the next sequence number of its financial year, formatted by
+  // formatNumber. Returns the existing invoice if the payment already has one.
+  createInvoice(
+    invoice: Omit<InsertInvoice, "sequence" | "number">,
+    formatNumber: (sequence: number) => string
+  ): Promise<Invoice>;
+  
+  // Refund operations. Amounts are in paise.
+  getRefund(id: number): Promise<Refund | undefined>;
+  getRefundsByPayment(paymentId: number): Promise<Refund[]>;
+  // Records a pending refund. Returns undefined if, together with the payment's other
+  // refunds that have not failed, it would return more than was paid.
+  createRefund(refund: InsertRefund): Promise<Refund | undefined>;
+  // Finishes a pending refund. A processed refund credits the wallet when that is its
+  // destination and marks the payment refunded or partially_refunded.
+  completeRefund(
+    id: number,
+    status: "processed" | "failed",
+    details: { providerRefundId?: string | null; failureReason?: string | null }
+  ): Promise<Refund | undefined>;
+  
+  getRefundsByExpert(expertId: number): Promise<Refund[]>;
+  
+  // Earnings and payout operations. Amounts are in paise.
+  getCommissionRates(): Promise<CommissionRate[]>;
+  createCommissionRate(rate: InsertCommissionRate): Promise<CommissionRate>;
+  getPayoutBatches(): Promise<PayoutBatch[]>;
+  getPayoutBatch(id: number): Promise<PayoutBatch | undefined>;
+  // Creates the batch with its payouts and their items. Returns undefined if a batch
+  // for the same period end already exists, or if any batch newer than lastBatchId
+  // was created since the payouts were worked out, as they may then pay its earnings again.
+  createPayoutBatch(
+    batch: InsertPayoutBatch,
+    payouts: { payout: Omit<InsertPayout, "batchId">; items: Omit<InsertPayoutItem, "payoutId">[] }[],
+    lastBatchId: number
+  ): Promise<{ batch: PayoutBatch; payouts: Payout[] } | undefined>;
+  getPayout(id: number): Promise<Payout | undefined>;
+  getPayoutsByBatch(batchId: number): Promise<Payout[]>;
+  getPayoutsByExpert(expertId: number): Promise<Payout[]>;
+  // Items of the expert's payouts that have not failed, i.e. earnings paid or being paid
+  getCommittedPayoutItems(expertId: number): Promise<PayoutItem[]>;
+  // Applies the changes only while the payout is in one of the `from` statuses
+  transitionPayout(
+    id: number,
+    from: PayoutStatus[],
+    changes: Partial<Pick<InsertPayout, "status" | "reference" | "failureReason" | "paidAt">>
+  ): Promise<Payout | undefined>;
+  
+  // Dispute operations
+  getDispute(id: number): Promise<Dispute | undefined>;
+  getDisputesByUser(userId: number): Promise<Dispute[]>;
+  getDisputes(status?: DisputeStatus): Promise<Dispute[]>;
+  // Returns undefined if the payment already has an open or under_review dispute
+  createDispute(dispute: InsertDispute): Promise<Dispute | undefined>;
+  // Applies the changes only while the dispute is in one of the `from` statuses
+  transitionDispute(
+    id: number,
+    from: DisputeStatus[],
+    changes: Partial<Omit<InsertDispute, "id" | "paymentId" | "userId">>
+  ): Promise<Dispute | undefined>;
+  
+  // Payment order operations
+  createPaymentOrder(order: InsertPaymentOrder): Promise<PaymentOrder>;
+  getPaymentOrder(id: number): Promise<PaymentOrder | undefined>;
+  getPaymentOrderByProviderOrderId(provider: string, providerOrderId: string): Promise<PaymentOrder | undefined>;
+  getPaymentOrdersByPayment(paymentId: number): Promise<PaymentOrder[]>;
+  // Settles an order and applies it: the payment takes the order's status, or the
+  // wallet is credited for a successful top-up. A failed order may still succeed
+  // later; anything else is a repeat, reported as `completed: false` with no changes.
+  // An order for a payment that is no longer pending or failed (another order paid
+  // it, or it was canceled) is settled without touching the payment: `applied: false`.
+  // If such an order succeeded, what it captured is credited to the user's wallet.
+  completePaymentOrder(
+    id: number,
+    status: "succeeded" | "failed",
+    details: { providerPaymentId?: string | null; failureReason?: string | null }
+  ): Promise<{ order: PaymentOrder; completed: boolean; applied: boolean } | undefined>;
+  // Returns the stored event, which is the earlier one if this is a redelivery
+  recordWebhookEvent(event: InsertWebhookEvent): Promise<WebhookEvent>;
+  markWebhookEventProcessed(id: number): Promise<void>;
+  
+  // Wallet operations. Amounts are in paise and every change is written to the ledger.
+  getWallet(userId: number): Promise<Wallet | undefined>;
+  getWalletTransactions(userId: number): Promise<WalletTransaction[]>;
+  // Newest first
+  listWalletTransactions(userId: number, page: PageRequest): Promise<Page<WalletTransaction>>;
+  creditWallet(
+    userId: number,
+    amount: number,
+    details: { description: string; paymentId?: number }
+  ): Promise<{ wallet: Wallet; transaction: WalletTransaction }>;
+  getWalletHold(sessionId: number): Promise<WalletHold | undefined>;
+  getActiveWalletHolds(): Promise<WalletHold[]>;
+  // Reserves the user's whole available balance for the session. Returns undefined
+  // if less than minimumAmount is available.
+  placeWalletHold(userId: number, sessionId: number, ratePerMinute: number, minimumAmount: number): Promise<WalletHold | undefined>;
+  // Debits the hold until `consumedTarget` of it has been taken. Repeating a call is harmless.
+  drawDownWalletHold(sessionId: number, consumedTarget: number): Promise<WalletHold | undefined>;
+  // Brings the amount taken to `total` (debiting or refunding the difference) and
+  // releases the rest of the hold
+  settleWalletHold(sessionId: number, total: number, paymentId?: number): Promise<WalletHold | undefined>;
   
   // Booking operations
   getBooking(id: number): Promise<Booking | undefined>;
   getBookingsByUser(userId: number): Promise<Booking[]>;
   getBookingsByExpert(expertId: number): Promise<Booking[]>;
   createBooking(booking: InsertBooking): Promise<Booking>;
-  updateBookingStatus(id: number, status: "booked" | "completed" | "canceled"): Promise<Booking | undefined>;
+  // Creates the booking, lasting durationMinutes, only if the expert has no other
+  // booked session overlapping it
+  createBookingIfSlotFree(booking: InsertBooking, durationMinutes: number): Promise<Booking | undefined>;
+  // Booked sessions that overlap [from, to)
+  getBookedBookingsForExpert(expertId: number, from: Date, to: Date): Promise<ScheduledBooking[]>;
+  getBookingDuration(bookingId: number): Promise<number>;
+  getBookingPayment(bookingId: number): Promise<Payment | undefined>;
+  // The booking a payment was taken for, if it was one
+  getBookingByPayment(paymentId: number): Promise<Booking | undefined>;
+  // Creates the payment for a booking, or returns the one it already has
+  createBookingPayment(bookingId: number, payment: InsertPayment): Promise<Payment>;
+  updateBookingStatus(
+    id: number,
+    status: "booked" | "completed" | "canceled",
+    expectedStatus?: "booked" | "completed" | "canceled"
+  ): Promise<Booking | undefined>;
   
   // Inspiration operations
+  getInspiration(id: number): Promise<Inspiration | undefined>;
   getRandomInspiration(): Promise<Inspiration | undefined>;
+  // Picks the active inspiration at position seed % count, so equal seeds give equal results
+  getDailyInspiration(seed: number): Promise<Inspiration | undefined>;
   getInspirationsByCategory(categoryId: number): Promise<Inspiration[]>;
+  // Active and inactive, ordered by id
+  getAllInspirations(): Promise<Inspiration[]>;
   createInspiration(inspiration: InsertInspiration): Promise<Inspiration>;
+  setInspirationActive(id: number, isActive: boolean): Promise<Inspiration | undefined>;
   
   // Feedback operations
   getFeedback(id: number): Promise<Feedback | undefined>;
@@ -84,506 +382,58 @@ export interface IStorage {
   getFeedbacksByExpert(expertId: number): Promise<Feedback[]>;
   getFeedbacksBySession(sessionId: number): Promise<Feedback[]>;
   createFeedback(feedback: InsertFeedback): Promise<Feedback>;
-  getAverageRatingForExpert(expertId: number): Promise<number>;
-}
-
-export class MemStorage implements IStorage {
-  private users: Map<number, User>;
-  private experts: Map<number, Expert>;
-  private categories: Map<number, Category>;
-  private advices: Map<number, Advice>;
-  private chats: Map<number, Chat>;
-  private messages: Map<number, Message>;
-  private payments: Map<number, Payment>;
   
-  currentUserId: number;
-  currentExpertId: number;
-  currentCategoryId: number;
-  currentAdviceId: number;
-  currentChatId: number;
-  currentMessageId: number;
-  currentPaymentId: number;
+  // Review operations. Only published reviews count towards an expert's rating, which
+  // is recomputed whenever a review is added, hidden or published again.
+  // Stores feedback as the review of its session. Undefined if the session already has one.
+  createReview(
+    feedback: InsertFeedback & { sessionId: number; expertId: number }
+  ): Promise<{ feedback: Feedback; review: Review } | undefined>;
+  getReview(feedbackId: number): Promise<Review | undefined>;
+  // Published reviews, newest first
+  listReviewsByExpert(expertId: number, page: PageRequest): Promise<Page<ReviewedFeedback>>;
+  setReviewReply(feedbackId: number, reply: string | null): Promise<Review | undefined>;
+  // Sets the status and resolves the open reports: upheld when hiding, dismissed when publishing
+  moderateReview(
+    feedbackId: number,
+    status: ReviewStatus,
+    moderatorId: number,
+    reason: string | null
+  ): Promise<Review | undefined>;
+  getExpertRating(expertId: number): Promise<ExpertRating | undefined>;
+  // Undefined if the reporter has already reported the review
+  createReviewReport(report: InsertReviewReport): Promise<ReviewReport | undefined>;
+  // Newest first, optionally only those with the given status
+  listReviewReports(status: ReviewReportStatus | undefined, page: PageRequest): Promise<Page<ReviewReport>>;
+  
+  // Audit log operations. Events are only ever added.
+  createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+  // Newest first
+  listAuditEvents(filters: AuditEventFilters, page: PageRequest): Promise<Page<AuditEvent>>;
+}
 
-  constructor() {
-    this.users = new Map();
-    this.experts = new Map();
-    this.categories = new Map();
-    this.advices = new Map();
-    this.chats = new Map();
-    this.messages = new Map();
-    this.payments = new Map();
-    
-    this.currentUserId = 1;
-    this.currentExpertId = 1;
-    this.currentCategoryId = 1;
-    this.currentAdviceId = 1;
-    this.currentChatId = 1;
-    this.currentMessageId = 1;
-    this.currentPaymentId = 1;
-    
-    // Initialize with sample data
-    this.initializeSampleData();
+// Picks the storage backend from the environment:
+// - STORAGE=memory, or development without DATABASE_URL/DATABASE_DRIVER: in-memory sample data
+// - otherwise DatabaseStorage on the driver chosen by DATABASE_DRIVER (neon, pg or pglite)
+// The sample data has an admin account with a published password, so production refuses it.
+export async function createStorage(env: NodeJS.ProcessEnv = process.env): Promise<IStorage> {
+  if (env.STORAGE === "memory" && env.NODE_ENV === "production") {
+    throw new Error("STORAGE=memory cannot be used in production: its sample accounts have a known password");
   }
 
-  // User operations
-  async getUser(id: number): Promise<User | undefined> {
-    return this.users.get(id);
-  }
+  const useMemory = env.STORAGE === "memory"
+    || (!env.STORAGE && !env.DATABASE_URL && !env.DATABASE_DRIVER && env.NODE_ENV !== "production");
 
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(
-      (user) => user.username === username,
-    );
+  if (useMemory) {
+    console.log("Using in-memory storage with sample data");
+    return new MemStorage();
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const id = this.currentUserId++;
-    const user: User = { ...insertUser, id };
-    this.users.set(id, user);
-    return user;
-  }
-  
-  // Expert operations
-  async getExpert(id: number): Promise<Expert | undefined> {
-    return this.experts.get(id);
-  }
-  
-  async getExpertByUserId(userId: number): Promise<Expert | undefined> {
-    return Array.from(this.experts.values()).find(
-      (expert) => expert.userId === userId,
-    );
-  }
-  
-  async createExpert(insertExpert: InsertExpert): Promise<Expert> {
-    const id = this.currentExpertId++;
-    const expert: Expert = { ...insertExpert, id };
-    this.experts.set(id, expert);
-    return expert;
-  }
-  
-  async updateExpertAvailability(id: number, availability: boolean): Promise<Expert | undefined> {
-    const expert = this.experts.get(id);
-    if (!expert) return undefined;
-    
-    const updatedExpert = { ...expert, availability };
-    this.experts.set(id, updatedExpert);
-    return updatedExpert;
-  }
-  
-  async getAllExperts(): Promise<Expert[]> {
-    return Array.from(this.experts.values());
-  }
-  
-  async getExpertsByCategory(categoryId: number): Promise<Expert[]> {
-    const advicesInCategory = await this.getAdvicesByCategory(categoryId);
-    const expertIds = [...new Set(advicesInCategory.map(advice => advice.expertId))];
-    
-    return expertIds.reduce<Expert[]>((experts, expertId) => {
-      const expert = this.experts.get(expertId);
-      if (expert) experts.push(expert);
-      return experts;
-    }, []);
-  }
-  
-  // Category operations
-  async getCategory(id: number): Promise<Category | undefined> {
-    return this.categories.get(id);
-  }
-  
-  async getAllCategories(): Promise<Category[]> {
-    return Array.from(this.categories.values());
-  }
-  
-  async createCategory(insertCategory: InsertCategory): Promise<Category> {
-    const id = this.currentCategoryId++;
-    const category: Category = { ...insertCategory, id };
-    this.categories.set(id, category);
-    return category;
-  }
-  
-  // Advice operations
-  async getAdvice(id: number): Promise<Advice | undefined> {
-    return this.advices.get(id);
-  }
-  
-  async getAllAdvices(): Promise<Advice[]> {
-    return Array.from(this.advices.values());
-  }
-  
-  async getAdvicesByExpert(expertId: number): Promise<Advice[]> {
-    return Array.from(this.advices.values()).filter(
-      (advice) => advice.expertId === expertId,
-    );
-  }
-  
-  async getAdvicesByCategory(categoryId: number): Promise<Advice[]> {
-    return Array.from(this.advices.values()).filter(
-      (advice) => advice.categoryId === categoryId,
-    );
-  }
-  
-  async createAdvice(insertAdvice: InsertAdvice): Promise<Advice> {
-    const id = this.currentAdviceId++;
-    const advice: Advice = { ...insertAdvice, id };
-    this.advices.set(id, advice);
-    return advice;
-  }
-  
-  // Chat operations
-  async getChat(id: number): Promise<Chat | undefined> {
-    return this.chats.get(id);
-  }
-  
-  async getChatByUserAndExpert(userId: number, expertId: number): Promise<Chat | undefined> {
-    return Array.from(this.chats.values()).find(
-      (chat) => chat.userId === userId && chat.expertId === expertId,
-    );
-  }
-  
-  async getChatsByUser(userId: number): Promise<Chat[]> {
-    return Array.from(this.chats.values()).filter(
-      (chat) => chat.userId === userId,
-    );
-  }
-  
-  async getChatsByExpert(expertId: number): Promise<Chat[]> {
-    return Array.from(this.chats.values()).filter(
-      (chat) => chat.expertId === expertId,
-    );
-  }
-  
-  async createChat(insertChat: InsertChat): Promise<Chat> {
-    const id = this.currentChatId++;
-    const chat: Chat = { ...insertChat, id };
-    this.chats.set(id, chat);
-    return chat;
-  }
-  
-  // Message operations
-  async getMessage(id: number): Promise<Message | undefined> {
-    return this.messages.get(id);
-  }
-  
-  async getMessagesByChat(chatId: number): Promise<Message[]> {
-    return Array.from(this.messages.values())
-      .filter((message) => message.chatId === chatId)
-      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
-  }
-  
-  async createMessage(insertMessage: InsertMessage): Promise<Message> {
-    const id = this.currentMessageId++;
-    const message: Message = { ...insertMessage, id };
-    this.messages.set(id, message);
-    
-    // Update last message in chat
-    const chat = this.chats.get(message.chatId);
-    if (chat) {
-      const updatedChat = { 
-        ...chat, 
-        lastMessage: message.content, 
-        lastMessageTime: message.timestamp 
-      };
-      this.chats.set(chat.id, updatedChat);
-    }
-    
-    return message;
-  }
-  
-  async markMessagesAsRead(chatId: number, userId: number): Promise<void> {
-    const chatMessages = await this.getMessagesByChat(chatId);
-    
-    chatMessages.forEach(message => {
-      if (message.senderId !== userId && !message.isRead) {
-        const updatedMessage = { ...message, isRead: true };
-        this.messages.set(message.id, updatedMessage);
-      }
-    });
-  }
-  
-  // Payment operations
-  async getPayment(id: number): Promise<Payment | undefined> {
-    return this.payments.get(id);
-  }
-  
-  async getPaymentsByUser(userId: number): Promise<Payment[]> {
-    return Array.from(this.payments.values()).filter(
-      (payment) => payment.userId === userId,
-    );
-  }
-  
-  async getPaymentsByExpert(expertId: number): Promise<Payment[]> {
-    return Array.from(this.payments.values()).filter(
-      (payment) => payment.expertId === expertId,
-    );
-  }
-  
-  async createPayment(insertPayment: InsertPayment): Promise<Payment> {
-    const id = this.currentPaymentId++;
-    const payment: Payment = { ...insertPayment, id };
-    this.payments.set(id, payment);
-    return payment;
-  }
-  
-  // Initialize sample data
-  private initializeSampleData() {
-    // Create sample categories
-    const categories: InsertCategory[] = [
-      { 
-        name: "Life Advice", 
-        description: "Get guidance on personal life decisions and challenges", 
-        icon: "heart" 
-      },
-      { 
-        name: "Career Guidance", 
-        description: "Professional advice for career growth and decisions", 
-        icon: "briefcase" 
-      },
-      { 
-        name: "Family Matters", 
-        description: "Advice on family relationships and parenting", 
-        icon: "users" 
-      },
-      { 
-        name: "Health & Wellness", 
-        description: "Guidance for physical and mental wellbeing", 
-        icon: "activity" 
-      },
-      { 
-        name: "Financial Planning", 
-        description: "Expert advice on managing your finances", 
-        icon: "dollar-sign" 
-      },
-      { 
-        name: "Spiritual Guidance", 
-        description: "Find your path with spiritual and philosophical advice", 
-        icon: "compass" 
-      }
-    ];
-    
-    categories.forEach(async (category) => {
-      await this.createCategory(category);
-    });
-    
-    // Create sample users (including experts)
-    const users: InsertUser[] = [
-      {
-        username: "user1",
-        password: "password123",
-        name: "Rahul Singh",
-        email: "rahul@example.com",
-        avatar: "https://randomuser.me/api/portraits/men/32.jpg",
-        isExpert: false
-      },
-      {
-        username: "priyanka_expert",
-        password: "password123",
-        name: "Priyanka Sharma",
-        email: "priyanka@example.com",
-        avatar: "https://randomuser.me/api/portraits/women/44.jpg",
-        isExpert: true
-      },
-      {
-        username: "amit_expert",
-        password: "password123",
-        name: "Amit Patel",
-        email: "amit@example.com",
-        avatar: "https://randomuser.me/api/portraits/men/62.jpg",
-        isExpert: true
-      },
-      {
-        username: "ananya_expert",
-        password: "password123",
-        name: "Ananya Desai",
-        email: "ananya@example.com",
-        avatar: "https://randomuser.me/api/portraits/women/65.jpg",
-        isExpert: true
-      },
-      {
-        username: "vikram_expert",
-        password: "password123",
-        name: "Vikram Reddy",
-        email: "vikram@example.com",
-        avatar: "https://randomuser.me/api/portraits/men/45.jpg",
-        isExpert: true
-      }
-    ];
-    
-    // Create users and experts
-    users.forEach(async (userData) => {
-      const isExpert = userData.isExpert;
-      const user = await this.createUser(userData);
-      
-      if (isExpert) {
-        const expertData: InsertExpert = {
-          userId: user.id,
-          bio: `Experienced advisor with over 8 years helping people find their path.`,
-          specialization: "Life Coaching",
-          experience: 8,
-          rating: 4,
-          hourlyRate: 1000,
-          availability: true,
-          languages: ["English", "Hindi"]
-        };
-        
-        // Customize expert details
-        if (user.username === "priyanka_expert") {
-          expertData.specialization = "Life Advice & Family Counseling";
-          expertData.experience = 10;
-          expertData.rating = 5;
-        } else if (user.username === "amit_expert") {
-          expertData.specialization = "Career & Financial Planning";
-          expertData.experience = 12;
-          expertData.hourlyRate = 1500;
-        } else if (user.username === "ananya_expert") {
-          expertData.specialization = "Spiritual & Wellness Guidance";
-          expertData.experience = 7;
-        } else if (user.username === "vikram_expert") {
-          expertData.specialization = "Career Development";
-          expertData.experience = 15;
-          expertData.hourlyRate = 2000;
-          expertData.rating = 5;
-        }
-        
-        await this.createExpert(expertData);
-      }
-    });
-    
-    // Create sample advice entries for each category
-    setTimeout(async () => {
-      // Get the experts and categories we've created
-      const expertsList = Array.from(this.experts.values());
-      const categoriesList = Array.from(this.categories.values());
-      
-      // Life Advice (Category 1)
-      const lifeAdviceCategory = categoriesList.find(cat => cat.name === "Life Advice");
-      const priyankaExpert = expertsList.find(exp => exp.userId === 2); // Priyanka
-      
-      if (lifeAdviceCategory && priyankaExpert) {
-        await this.createAdvice({
-          title: "Finding Balance in Daily Life",
-          description: "Focus on creating structured routines and dedicated time for self-care. Try the 5-minute meditation technique each morning to center yourself.",
-          expertId: priyankaExpert.id,
-          categoryId: lifeAdviceCategory.id,
-          rating: 5
-        });
-        
-        await this.createAdvice({
-          title: "Dealing with Difficult Decisions",
-          description: "When facing difficult choices, use the 'pros and cons' method but add a column for your emotional response to each outcome. Your feelings matter as much as logical factors.",
-          expertId: priyankaExpert.id,
-          categoryId: lifeAdviceCategory.id,
-          rating: 4
-        });
-      }
-      
-      // Career Guidance (Category 2)
-      const careerCategory = categoriesList.find(cat => cat.name === "Career Guidance");
-      const vikramExpert = expertsList.find(exp => exp.userId === 5); // Vikram
-      
-      if (careerCategory && vikramExpert) {
-        await this.createAdvice({
-          title: "Transitioning to a New Career",
-          description: "Start with skills assessment first. Identify transferable skills from your current role, then build a transition plan with achievable milestones over 6-12 months.",
-          expertId: vikramExpert.id,
-          categoryId: careerCategory.id,
-          rating: 5
-        });
-        
-        await this.createAdvice({
-          title: "Negotiating Salary Effectively",
-          description: "Research industry standards thoroughly before negotiations. Present your value with specific achievements and be ready with a minimum acceptable figure plus ideal compensation package.",
-          expertId: vikramExpert.id,
-          categoryId: careerCategory.id,
-          rating: 5
-        });
-      }
-      
-      // Financial Planning (Category 5)
-      const financialCategory = categoriesList.find(cat => cat.name === "Financial Planning");
-      const amitExpert = expertsList.find(exp => exp.userId === 3); // Amit
-      
-      if (financialCategory && amitExpert) {
-        await this.createAdvice({
-          title: "Starting Your Investment Journey",
-          description: "Begin with building an emergency fund of 6 months' expenses. Then allocate investments across fixed deposits, mutual funds, and stocks based on your risk profile and financial goals.",
-          expertId: amitExpert.id,
-          categoryId: financialCategory.id,
-          rating: 4
-        });
-        
-        await this.createAdvice({
-          title: "Planning for Early Retirement",
-          description: "Calculate your retirement corpus based on 25-30 times your annual expenses. Create multiple income streams with dividends, rental income, and systematic withdrawal plans.",
-          expertId: amitExpert.id,
-          categoryId: financialCategory.id,
-          rating: 5
-        });
-      }
-      
-      // Spiritual Guidance (Category 6)
-      const spiritualCategory = categoriesList.find(cat => cat.name === "Spiritual Guidance");
-      const ananyaExpert = expertsList.find(exp => exp.userId === 4); // Ananya
-      
-      if (spiritualCategory && ananyaExpert) {
-        await this.createAdvice({
-          title: "Finding Inner Peace",
-          description: "Practice mindfulness daily by focusing on your breath for just 10 minutes. Try walking meditation where you concentrate on each step, becoming fully present in the moment.",
-          expertId: ananyaExpert.id,
-          categoryId: spiritualCategory.id,
-          rating: 5
-        });
-        
-        await this.createAdvice({
-          title: "Connecting with Your Purpose",
-          description: "Write your own eulogy as if you lived your ideal life. What would you want people to say about your contributions and character? This reveals your deepest values and direction.",
-          expertId: ananyaExpert.id,
-          categoryId: spiritualCategory.id,
-          rating: 4
-        });
-      }
-      
-      // Family Matters (Category 3)
-      const familyCategory = categoriesList.find(cat => cat.name === "Family Matters");
-      if (familyCategory && priyankaExpert) {
-        await this.createAdvice({
-          title: "Improving Communication with Teenagers",
-          description: "Create regular 'no-tech' time where phones are put away. Ask open-ended questions about their interests rather than their day, and practice active listening without judgment.",
-          expertId: priyankaExpert.id,
-          categoryId: familyCategory.id,
-          rating: 5
-        });
-        
-        await this.createAdvice({
-          title: "Navigating Family Conflicts",
-          description: "Use the 'speaker-listener' technique where one person speaks without interruption while others listen, then roles reverse. Focus on 'I feel' statements rather than accusations.",
-          expertId: priyankaExpert.id,
-          categoryId: familyCategory.id,
-          rating: 4
-        });
-      }
-      
-      // Health & Wellness (Category 4)
-      const healthCategory = categoriesList.find(cat => cat.name === "Health & Wellness");
-      if (healthCategory && ananyaExpert) {
-        await this.createAdvice({
-          title: "Creating Sustainable Fitness Habits",
-          description: "Start with just 5 minutes of exercise daily, focusing on consistency over intensity. Add active habits to existing routines, like squats while brushing teeth or walking during phone calls.",
-          expertId: ananyaExpert.id,
-          categoryId: healthCategory.id,
-          rating: 4
-        });
-        
-        await this.createAdvice({
-          title: "Managing Stress Naturally",
-          description: "Try 4-7-8 breathing: inhale for 4 counts, hold for 7, exhale for 8. Practice progressive muscle relaxation before bed, tensing and releasing each muscle group from toes to head.",
-          expertId: ananyaExpert.id,
-          categoryId: healthCategory.id,
-          rating: 5
-        });
-      }
-    }, 500); // Small delay to ensure categories and experts are created first
-  }
+  const config = getDatabaseConfig(env);
+  console.log(`Using ${config.driver} database storage`);
+  const databaseStorage = new DatabaseStorage(await createDatabase(config));
+  await databaseStorage.applyDataMigrations();
+  return databaseStorage;
 }
 
-// Use DatabaseStorage implementation instead of MemStorage
-export const storage = new DatabaseStorage();
+export const storage = await createStorage();
@@ -0,0 +1,195 @@
+import { z } from "zod";
+import type { Session } from "@shared/schema";
+import type { Wallet, WalletHold, WalletTransaction } from "./schema";
+import { storage } from "./storage";
+import { chargeSession, isPrepaidSession, MINIMUM_BILLABLE_MINUTES, ratePerMinuteInPaise, toRupees, type SessionChargeResult } from "./billing";
+import { endSession, getSessionDetails, notifySessionParticipants } from "./session-lifecycle";
+import { issueInvoice } from "./invoices";
+
+// Prepaid sessions. When a session starts the user's whole available balance is
+// put on hold. Every started minute is then debited from the hold, participants
+// are warned when little paid time is left, and the session is ended when the
+// hold runs out. Ending settles the hold against the final charge and releases
+// whatever was not used.
+
+// How often live sessions are metered against their holds
+export const METERING_INTERVAL_MS = 15_000;
+// Participants are warned once when this much paid time is left
+export const LOW_BALANCE_WARNING_SECONDS = 120;
+// Largest single top-up, in rupees
+export const MAX_TOP_UP = 100_000;
+
+export const topUpInputSchema = z.object({
+  amount: z.number().positive().max(MAX_TOP_UP).multipleOf(0.01),
+  description: z.string().trim().min(1).max(200).optional()
+});
+
+// Set PREPAID_SESSIONS=false to let sessions run without a balance and be paid afterwards
+export function isPrepaidRequired(env: NodeJS.ProcessEnv = process.env): boolean {
+  return env.PREPAID_SESSIONS !== "false";
+}
+
+export function formatWallet(userId: number, wallet: Wallet | undefined) {
+  const balance = wallet?.balance ?? 0;
+  const held = wallet?.held ?? 0;
+
+  return {
+    userId,
+    currency: "INR",
+    balance: toRupees(balance),
+    held: toRupees(held),
+    available: toRupees(balance - held),
+    updatedAt: wallet?.updatedAt ?? null
+  };
+}
+
+export function formatWalletTransaction(transaction: WalletTransaction) {
+  return {
+    ...transaction,
+    amount: toRupees(transaction.amount),
+    balanceAfter: toRupees(transaction.balanceAfter),
+    heldAfter: toRupees(transaction.heldAfter)
+  };
+}
+
+// Sessions being warned about or ended by this process, so each happens once
+const warnedSessions = new Set<number>();
+const endingSessions = new Set<number>();
+
+// Reserves funds for a session about to start. Returns false if the user cannot
+// cover the minimum charge. Free experts and paid bookings need no hold.
+export async function reserveSessionFunds(session: Session): Promise<boolean> {
+  if (!isPrepaidRequired() || await isPrepaidSession(session.id)) return true;
+
+  const expert = await storage.getExpert(session.expertId);
+  if (!expert) return false;
+
+  const ratePerMinute = ratePerMinuteInPaise(expert.hourlyRate);
+  if (ratePerMinute === 0) return true;
+
+  const hold = await storage.placeWalletHold(
+    session.userId,
+    session.id,
+    ratePerMinute,
+    ratePerMinute * MINIMUM_BILLABLE_MINUTES
+  );
+  return hold !== undefined;
+}
+
+// Takes the final charge from the hold and releases the rest. The payment is
+// marked succeeded once the wallet has covered it. If the hold covered only part
+// of it, the payment stays pending and its order asks only for the shortfall (see
+// getWalletPaidAmount).
+export async function settleSessionFunds(sessionId: number, charge: SessionChargeResult | undefined): Promise<WalletHold | undefined> {
+  const hold = await storage.getWalletHold(sessionId);
+  if (!hold || hold.status !== "active") return undefined;
+
+  const settled = await storage.settleWalletHold(sessionId, charge?.charge.total ?? 0, charge?.payment.id);
+  if (settled && charge && charge.payment.status === "pending" && settled.consumed >= charge.charge.total) {
+    const paid = await storage.updatePaymentStatus(charge.payment.id, "succeeded", ["pending"]);
+    if (paid) {
+      try {
+        await issueInvoice(paid);
+      } catch (e) {
+        console.error(`Failed to issue invoice for payment ${paid.id}:`, e);
+      }
+    }
+  }
+
+  warnedSessions.delete(sessionId);
+  endingSessions.delete(sessionId);
+  return settled;
+}
+
+// Gives back a hold placed for a session that then failed to start
+export async function releaseUnstartedSessionFunds(sessionId: number): Promise<void> {
+  const state = await storage.getSessionState(sessionId);
+  if (state?.status === "requested") {
+    await settleSessionFunds(sessionId, undefined);
+  }
+}
+
+async function endForInsufficientBalance(sessionId: number) {
+  const session = await storage.getSession(sessionId);
+  if (!session) return;
+
+  const details = await endSession(session, null);
+  if (details) {
+    await notifySessionParticipants(session, { type: "session_ended", sessionId, reason: "insufficient_balance" });
+  }
+}
+
+export async function meterSessionHold(hold: WalletHold, now: Date = new Date()): Promise<void> {
+  const state = await storage.getSessionState(hold.sessionId);
+
+  // Holds are placed just before the session starts
+  if (state?.status === "requested") return;
+
+  // The session ended but its settlement did not go through; retry it
+  if (!state || state.status !== "active") {
+    const details = await getSessionDetails(hold.sessionId);
+    const charge = details ? await chargeSession(details) : undefined;
+    await settleSessionFunds(hold.sessionId, charge);
+    return;
+  }
+
+  const startedAt = state.startedAt ?? state.updatedAt;
+  const elapsedMs = now.getTime() - startedAt.getTime();
+
+  // Each minute is paid for as it begins
+  const startedMinutes = Math.max(1, Math.ceil(elapsedMs / 60_000));
+  const current = await storage.drawDownWalletHold(hold.sessionId, startedMinutes * hold.ratePerMinute) ?? hold;
+
+  const paidUntil = startedAt.getTime() + Math.floor(current.amount / current.ratePerMinute) * 60_000;
+  const remainingMs = paidUntil - now.getTime();
+
+  if (remainingMs <= LOW_BALANCE_WARNING_SECONDS * 1000 && !warnedSessions.has(hold.sessionId)) {
+    warnedSessions.add(hold.sessionId);
+    const session = await storage.getSession(hold.sessionId);
+    if (session) {
+      await notifySessionParticipants(session, {
+        type: "balance_low",
+        sessionId: hold.sessionId,
+        remainingSeconds: Math.max(0, Math.floor(remainingMs / 1000))
+      });
+    }
+  }
+
+  // End just before the paid time is up so the final charge stays within the hold
+  if (remainingMs <= METERING_INTERVAL_MS && !endingSessions.has(hold.sessionId)) {
+    endingSessions.add(hold.sessionId);
+    setTimeout(() => {
+      endForInsufficientBalance(hold.sessionId).catch((e) => {
+        endingSessions.delete(hold.sessionId);
+        console.error(`Failed to end session ${hold.sessionId} for insufficient balance:`, e);
+      });
+    }, Math.max(0, remainingMs - 1000));
+  }
+}
+
+export async function meterActiveHolds(now: Date = new Date()): Promise<void> {
+  for (const hold of await storage.getActiveWalletHolds()) {
+    try {
+      await meterSessionHold(hold, now);
+    } catch (e) {
+      console.error(`Failed to meter session ${hold.sessionId}:`, e);
+    }
+  }
+}
+
+// Starts the metering loop. Returns a function that stops it.
+export function startWalletMetering(): () => void {
+  let running = false;
+  const interval = setInterval(() => {
+    // Skip a tick rather than overlap a slow one
+    if (running) return;
+    running = true;
+    meterActiveHolds()
+      .catch((e) => console.error("Wallet metering failed:", e))
+      .finally(() => {
+        running = false;
+      });
+  }, METERING_INTERVAL_MS);
+
+  return () => clearInterval(interval);
+}
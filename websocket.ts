@@ -0,0 +1,287 @@
+import type { IncomingMessage, Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import { storage } from "./storage";
+import { verifyAccessToken, type AuthContext } from "./auth";
+import { acknowledgeDelivery, acknowledgeRead, deliveredEventSchema, getChatCounterpart } from "./chat";
+
+// WebSocket connected clients map
+interface WebSocketClient extends WebSocket {
+  userId?: number;
+  // Login session and expiry of the access token the socket is authenticated with
+  authSessionId?: number;
+  expiresAt?: number;
+  isAlive?: boolean;
+}
+
+interface AuthenticatedUpgradeRequest extends IncomingMessage {
+  auth?: AuthContext;
+}
+
+const connectedClients: Map<number, WebSocketClient> = new Map();
+
+// Close code telling the client to get a fresh access token before reconnecting
+const AUTH_CLOSE_CODE = 4001;
+
+// Browsers cannot set headers on a WebSocket handshake, so the access token
+// may also be passed as a `token` query parameter.
+function getHandshakeToken(req: IncomingMessage): string | null {
+  const header = req.headers.authorization;
+  if (header?.startsWith("Bearer ")) {
+    return header.slice("Bearer ".length).trim();
+  }
+
+  const url = new URL(req.url || "", "http://localhost");
+  return url.searchParams.get("token");
+}
+
+// Resolves the user id on the other side of an open session, or null if the sender is not part of it.
+// Read and delivery receipts may still arrive after the session is over.
+async function getSessionCounterpart(sessionId: number, senderId: number, includeEnded = false): Promise<number | null> {
+  const session = await storage.getSession(sessionId);
+  if (!session) return null;
+
+  // Nothing is relayed once a session is over
+  if (!includeEnded) {
+    const state = await storage.getSessionState(sessionId);
+    if (state && (state.status === "ended" || state.status === "missed")) return null;
+  }
+
+  return getChatCounterpart(session, senderId);
+}
+
+function sendError(ws: WebSocketClient, message: string) {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify({
+      type: 'error',
+      message,
+      from: 'server',
+      to: ws.userId
+    }));
+  }
+}
+
+// Closes the socket once its token has expired or its login session was ended
+async function checkClientAuth(ws: WebSocketClient): Promise<void> {
+  if (ws.expiresAt === undefined || ws.expiresAt <= Date.now()) {
+    ws.close(AUTH_CLOSE_CODE, 'Access token expired');
+    return;
+  }
+
+  const authSession = ws.authSessionId === undefined ? undefined : await storage.getAuthSession(ws.authSessionId);
+  if (!authSession || authSession.revokedAt) {
+    ws.close(AUTH_CLOSE_CODE, 'Signed out');
+  }
+}
+
+// Disconnects the sockets of a login session that was just ended, e.g. on logout
+export function disconnectAuthSession(authSessionId: number): void {
+  connectedClients.forEach((client) => {
+    if (client.authSessionId === authSessionId) {
+      client.close(AUTH_CLOSE_CODE, 'Signed out');
+    }
+  });
+}
+
+// Disconnects a user whose sessions were all ended, e.g. on suspension
+export function disconnectUser(userId: number): void {
+  connectedClients.get(userId)?.close(AUTH_CLOSE_CODE, 'Signed out');
+}
+
+// Pushes a server-originated event to a user if they are connected
+export function sendToUser(userId: number, payload: Record<string, unknown>): boolean {
+  const client = connectedClients.get(userId);
+  if (!client || client.readyState !== WebSocket.OPEN) {
+    return false;
+  }
+
+  client.send(JSON.stringify(payload));
+  return true;
+}
+
+// Handles one message from a client. Messages from the same socket are handled one
+// at a time, in order, so an offer is relayed before the ICE candidates that follow it.
+async function handleClientMessage(ws: WebSocketClient, userId: number, message: Buffer | string) {
+  try {
+    const data = JSON.parse(message.toString());
+
+    // A fresh access token keeps the socket open past the expiry of the one it was opened with
+    if (data.type === 'authenticate') {
+      const auth = typeof data.token === 'string' ? await verifyAccessToken(data.token) : null;
+      if (!auth || auth.userId !== userId) {
+        ws.close(AUTH_CLOSE_CODE, 'Invalid or expired token');
+        return;
+      }
+      ws.authSessionId = auth.authSessionId;
+      ws.expiresAt = auth.expiresAt.getTime();
+      ws.send(JSON.stringify({ type: 'authenticated', expiresAt: auth.expiresAt }));
+      return;
+    }
+
+    if (ws.expiresAt === undefined || ws.expiresAt <= Date.now()) {
+      ws.close(AUTH_CLOSE_CODE, 'Access token expired');
+      return;
+    }
+
+    // Registration now happens during the handshake; acknowledge older clients
+    if (data.type === 'register') {
+      ws.send(JSON.stringify({ type: 'registered', userId }));
+      return;
+    }
+
+    // Handle signaling and chat messages. Relaying is only allowed within a
+    // session the sender belongs to, and only to the other participant of it.
+    if (data.type) {
+      const sessionId = Number(data.sessionId);
+      if (!Number.isInteger(sessionId)) {
+        sendError(ws, 'Session ID is required');
+        return;
+      }
+
+      const isReceipt = data.type === 'delivered' || data.type === 'read';
+      const recipientId = await getSessionCounterpart(sessionId, userId, isReceipt);
+      if (recipientId === null || (data.to !== undefined && Number(data.to) !== recipientId)) {
+        sendError(ws, 'Not a participant of this session');
+        return;
+      }
+
+      // Chat events are handled here instead of being relayed as they are
+      if (data.type === 'typing') {
+        sendToUser(recipientId, {
+          type: 'typing',
+          sessionId,
+          isTyping: data.isTyping !== false,
+          from: userId,
+          to: recipientId
+        });
+        return;
+      }
+
+      if (data.type === 'delivered') {
+        const parsed = deliveredEventSchema.safeParse(data);
+        if (!parsed.success) {
+          sendError(ws, 'Message IDs are required');
+          return;
+        }
+        await acknowledgeDelivery(sessionId, userId, recipientId, parsed.data.messageIds);
+        return;
+      }
+
+      if (data.type === 'read') {
+        await acknowledgeRead(sessionId, userId, recipientId);
+        return;
+      }
+
+      // Chat messages are only pushed by the server, after they have been stored
+      if (data.type === 'chat_message') {
+        sendError(ws, 'Chat messages must be sent through POST /api/messages');
+        return;
+      }
+
+      // Find the recipient
+      const delivered = sendToUser(recipientId, {
+        ...data,
+        sessionId,
+        from: userId,
+        to: recipientId
+      });
+
+      if (!delivered) {
+        // Inform sender that recipient is not available
+        sendError(ws, 'Recipient not available');
+      }
+    }
+  } catch (e) {
+    console.error('Error handling WebSocket message:', e);
+  }
+}
+
+export function setupWebSocketServer(httpServer: Server): WebSocketServer {
+  // Setup WebSocket server. The handshake must carry the same access token the REST API issues.
+  const wss = new WebSocketServer({
+    server: httpServer,
+    path: '/ws',
+    verifyClient: (info, done) => {
+      const token = getHandshakeToken(info.req);
+      if (!token) {
+        return done(false, 401, "Authentication required");
+      }
+
+      verifyAccessToken(token)
+        .then((auth) => {
+          if (!auth) {
+            return done(false, 401, "Invalid or expired token");
+          }
+          (info.req as AuthenticatedUpgradeRequest).auth = auth;
+          done(true);
+        })
+        .catch((e) => {
+          console.error('Error authenticating WebSocket client:', e);
+          done(false, 500, "Authentication failed");
+        });
+    }
+  });
+
+  wss.on('connection', (ws: WebSocketClient, req: AuthenticatedUpgradeRequest) => {
+    const userId = req.auth!.userId;
+
+    // A newer connection for the same user replaces the old one
+    const previous = connectedClients.get(userId);
+    if (previous && previous !== ws) {
+      previous.close(4000, 'Replaced by a newer connection');
+    }
+
+    ws.userId = userId;
+    ws.authSessionId = req.auth!.authSessionId;
+    ws.expiresAt = req.auth!.expiresAt.getTime();
+    ws.isAlive = true;
+    connectedClients.set(userId, ws);
+    console.log(`User ${userId} connected for signaling and chat`);
+
+    // Ping mechanism to detect broken connections
+    ws.on('pong', () => {
+      ws.isAlive = true;
+    });
+
+    // Each message waits for the previous one from this socket
+    let pending = Promise.resolve();
+    ws.on('message', (message: Buffer | string) => {
+      pending = pending.then(() => handleClientMessage(ws, userId, message));
+    });
+
+    ws.on('close', () => {
+      if (connectedClients.get(userId) === ws) {
+        connectedClients.delete(userId);
+      }
+      console.log(`User ${userId} disconnected from signaling and chat`);
+    });
+  });
+
+  // Set up a ping interval to keep connections alive and detect broken ones
+  const pingInterval = setInterval(() => {
+    wss.clients.forEach((ws: WebSocketClient) => {
+      if (ws.isAlive === false) {
+        // Connection is dead
+        if (ws.userId && connectedClients.get(ws.userId) === ws) {
+          connectedClients.delete(ws.userId);
+        }
+        return ws.terminate();
+      }
+
+      // Mark as potentially dead until we receive a pong
+      ws.isAlive = false;
+      ws.ping();
+
+      // Expired tokens and ended login sessions no longer receive anything
+      checkClientAuth(ws).catch((e) => {
+        console.error('Error checking WebSocket client authentication:', e);
+      });
+    });
+  }, 30000); // Check every 30 seconds
+
+  // Clean up interval on close
+  wss.on('close', () => {
+    clearInterval(pingInterval);
+  });
+
+  return wss;
+}